@@ -1,12 +1,18 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
+import { useEffect } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 import '../global.css';
 
+import { SessionExpiredPrompt } from '@/components/auth/SessionExpiredPrompt';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { RealtimeProvider } from '@/contexts/RealtimeContext';
+import { SnackbarProvider } from '@/contexts/SnackbarContext';
+import { TagsProvider } from '@/contexts/TagsContext';
+import { MutationService } from '@/services/mutationService';
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
@@ -14,6 +20,9 @@ export default function RootLayout() {
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
 
+  // Replay writes queued while offline
+  useEffect(() => MutationService.start(), []);
+
   if (!loaded) {
     // Async font loading only occurs in development.
     return null;
@@ -21,14 +30,27 @@ export default function RootLayout() {
 
   return (
     <AuthProvider>
-      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-        <Stack>
-          <Stack.Screen name="index" options={{ headerShown: false }} />
-          <Stack.Screen name="topic" options={{ headerShown: false }} />
-          <Stack.Screen name="+not-found" />
-        </Stack>
-        <StatusBar style="auto" />
-      </ThemeProvider>
+      <RealtimeProvider>
+        <TagsProvider>
+          <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+            <SnackbarProvider>
+              <Stack>
+                <Stack.Screen name="index" options={{ headerShown: false }} />
+                <Stack.Screen name="topic" options={{ headerShown: false }} />
+                <Stack.Screen name="profile" options={{ headerShown: false }} />
+                <Stack.Screen name="search" options={{ headerShown: false }} />
+                <Stack.Screen name="tags" options={{ headerShown: false }} />
+                <Stack.Screen name="deleted" options={{ headerShown: false }} />
+                <Stack.Screen name="reset-password" options={{ headerShown: false }} />
+                <Stack.Screen name="verify-email" options={{ headerShown: false }} />
+                <Stack.Screen name="+not-found" />
+              </Stack>
+              <SessionExpiredPrompt />
+            </SnackbarProvider>
+            <StatusBar style="auto" />
+          </ThemeProvider>
+        </TagsProvider>
+      </RealtimeProvider>
     </AuthProvider>
   );
 }
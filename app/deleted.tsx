@@ -0,0 +1,15 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RecentlyDeleted } from '@/components/topics/RecentlyDeleted';
+
+export default function DeletedScreen() {
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+      <SafeAreaView className="flex-1 bg-gray-100 dark:bg-gray-900">
+        <RecentlyDeleted />
+      </SafeAreaView>
+    </>
+  );
+}
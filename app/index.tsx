@@ -1,13 +1,15 @@
 import React, { useState } from 'react';
-import { View } from 'react-native';
+import { Alert, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { useAuth } from '@/contexts/AuthContext';
 import { AuthModal } from '@/components/auth/AuthModal';
+import { VerifyEmailBanner } from '@/components/auth/VerifyEmailBanner';
 import { TopicsList } from '@/components/topics/TopicsList';
 import { CreateTopic } from '@/components/topics/CreateTopic';
+import { Outbox } from '@/services/outbox';
 import { Topic } from '@/types';
 
 export default function HomeScreen() {
@@ -21,7 +23,7 @@ export default function HomeScreen() {
     setShowCreateTopic(false);
   };
 
-  const handleLogout = async () => {
+  const signOut = async () => {
     try {
       await logout();
     } catch (error) {
@@ -29,6 +31,23 @@ export default function HomeScreen() {
     }
   };
 
+  // Signing out discards the writes still waiting to be sent
+  const handleLogout = () => {
+    const unsent = Outbox.getEntries().length;
+    if (unsent === 0) {
+      signOut();
+      return;
+    }
+    Alert.alert(
+      'Sign out?',
+      `${unsent} ${unsent === 1 ? 'change has' : 'changes have'} not been sent yet and will be discarded.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign out', style: 'destructive', onPress: signOut },
+      ]
+    );
+  };
+
   if (loading) {
     return (
       <SafeAreaView className="flex-1 bg-gray-100 dark:bg-gray-900">
@@ -52,6 +71,7 @@ export default function HomeScreen() {
 
   return (
     <SafeAreaView className="flex-1 bg-gray-100 dark:bg-gray-900">
+      <VerifyEmailBanner />
       <View className="flex-1">
         <TopicsList 
           onCreateTopic={() => setShowCreateTopic(true)} 
@@ -0,0 +1,17 @@
+import React from 'react';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ProfileView } from '@/components/profile/ProfileView';
+
+export default function ProfileScreen() {
+  const { userId } = useLocalSearchParams<{ userId: string }>();
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+      <SafeAreaView className="flex-1 bg-gray-100 dark:bg-gray-900">
+        <ProfileView userId={userId} />
+      </SafeAreaView>
+    </>
+  );
+}
@@ -0,0 +1,11 @@
+import { Stack } from 'expo-router'
+
+export default function ProfileLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    />
+  )
+}
\ No newline at end of file
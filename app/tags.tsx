@@ -0,0 +1,15 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { TagManager } from '@/components/tags/TagManager';
+
+export default function TagsScreen() {
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+      <SafeAreaView className="flex-1 bg-gray-100 dark:bg-gray-900">
+        <TagManager />
+      </SafeAreaView>
+    </>
+  );
+}
@@ -5,47 +5,111 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
 import { Topic } from '@/types';
 import { Ionicons } from '@expo/vector-icons';
+import { TopicRepository } from '@/services/topicRepository';
+import { NotFoundError } from '@/services/errors';
+import { parseTopic } from '@/services/validation';
+import { OfflineCache } from '@/services/offlineCache';
+import { Outbox, mutationTargetId } from '@/services/outbox';
+
+/**
+ * Parse the optional JSON payload passed by TopicsList. Returns null when it
+ * is missing, malformed or describes a different topic.
+ */
+function parseTopicPayload(topicData: string | undefined, topicId: string): Topic | null {
+  if (!topicData) return null;
+  try {
+    const parsed = parseTopic(JSON.parse(topicData));
+    return parsed.id === topicId ? parsed : null;
+  } catch (error) {
+    console.warn('Failed to parse topic data:', error);
+    return null;
+  }
+}
 
 export default function TopicDetailScreen() {
-  const { topicId, topicData } = useLocalSearchParams<{ topicId: string; topicData?: string }>();
+  const { topicId, topicData, commentId } = useLocalSearchParams<{
+    topicId: string;
+    topicData?: string;
+    commentId?: string;
+  }>();
   const [parsedTopic, setParsedTopic] = useState<Topic | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [hasError, setHasError] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   useEffect(() => {
     if (!topicId) {
-      setHasError(true);
       setIsLoading(false);
       return;
     }
 
-    // Parse topic data immediately if available
-    if (topicData) {
+    let cancelled = false;
+
+    // Render the payload from TopicsList immediately when there is one
+    const payload = parseTopicPayload(topicData, topicId);
+    if (payload) {
+      setParsedTopic(payload);
+      setIsLoading(false);
+    } else {
+      setIsLoading(true);
+    }
+    setErrorMessage(null);
+
+    // Always fetch by id: this is the only source for deep links and share
+    // URLs, and refreshes a payload that went stale since the list loaded
+    const fetchTopic = async () => {
       try {
-        const parsed = JSON.parse(topicData);
-        if (parsed && typeof parsed === 'object' && parsed.id) {
-          setParsedTopic(parsed);
-          setIsLoading(false);
-          return;
+        const fresh = await TopicRepository.getById(topicId);
+        if (cancelled) return;
+        if (
+          !payload ||
+          fresh.updated_at !== payload.updated_at ||
+          fresh.comment_count !== payload.comment_count
+        ) {
+          setParsedTopic(fresh);
         }
       } catch (error) {
-        console.warn('Failed to parse topic data:', error);
+        if (cancelled) return;
+        if (error instanceof NotFoundError) {
+          // A topic created offline is not on the server until the outbox syncs
+          await Outbox.load();
+          const isQueued = Outbox.getEntries().some(entry => mutationTargetId(entry.mutation) === topicId);
+          if (cancelled) return;
+          if (!payload || !isQueued) {
+            setErrorMessage('Topic not found');
+          }
+        } else if (!payload) {
+          const cached = await OfflineCache.getTopic(topicId);
+          if (cancelled) return;
+          if (cached) {
+            console.warn('Failed to load topic, showing cached data:', error);
+            setParsedTopic(cached);
+          } else {
+            console.error('Failed to load topic:', error);
+            setErrorMessage('Failed to load topic');
+          }
+        } else {
+          console.warn('Failed to refresh topic, showing cached data:', error);
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
       }
-    }
-    
-    // If we get here, we don't have valid topic data
-    setHasError(true);
-    setIsLoading(false);
+    };
+
+    fetchTopic();
+
+    return () => {
+      cancelled = true;
+    };
   }, [topicId, topicData]);
 
-  if (!topicId || hasError) {
+  if (!topicId || errorMessage) {
     return (
       <>
         <Stack.Screen options={{ headerShown: false }} />
         <SafeAreaView className="flex-1 bg-gray-100 dark:bg-gray-900">
           <View className="flex-1 justify-center items-center">
             <Text className="text-red-500 text-lg mb-5">
-              {!topicId ? 'Invalid topic ID' : 'Failed to load topic'}
+              {!topicId ? 'Invalid topic ID' : errorMessage}
             </Text>
             <TouchableOpacity
               className="bg-primary-500 py-3 px-6 rounded-lg"
@@ -77,7 +141,8 @@ export default function TopicDetailScreen() {
             {/* Always have a center element for layout consistency */}
             <View className="flex-1" />
             
-            {/* Placeholder for the right side to match TopicDetail structure */}
+            {/* Placeholders for the share and edit buttons to match TopicDetail structure */}
+            <View className="w-10 h-10" />
             <View className="w-10 h-10" />
           </View>
           
@@ -103,6 +168,7 @@ export default function TopicDetailScreen() {
         <TopicDetail
           topicId={topicId}
           topic={parsedTopic}
+          focusCommentId={commentId}
           onBack={handleBack}
           onTopicDeleted={handleBack} // Navigate back if the topic is deleted
         />
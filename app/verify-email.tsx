@@ -0,0 +1,23 @@
+import React from 'react';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { AuthModal } from '@/components/auth/AuthModal';
+
+// Opened by the link in the email: selfdbexpo://verify-email?token=<token>
+export default function VerifyEmailLinkScreen() {
+  const { token } = useLocalSearchParams<{ token?: string }>();
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+      <SafeAreaView className="flex-1 bg-gray-100 dark:bg-gray-900">
+        <AuthModal
+          visible
+          initialMode="verifyEmail"
+          token={token}
+          onClose={() => router.replace('/')}
+        />
+      </SafeAreaView>
+    </>
+  );
+}
@@ -0,0 +1,68 @@
+import React, { useState } from 'react'
+import { LayoutChangeEvent, NativeScrollEvent, NativeSyntheticEvent, ScrollView, Text, View } from 'react-native'
+import { PendingAttachment } from '@/types'
+import { attachmentKey, isLocalAttachment } from '@/lib/attachments'
+import { FilePreview } from './FilePreview'
+
+interface AttachmentGalleryProps {
+  attachments: PendingAttachment[]
+  /** style of each preview, e.g. its height */
+  previewStyle?: object
+}
+
+const renderPreview = (attachment: PendingAttachment, style?: object) =>
+  isLocalAttachment(attachment)
+    ? <FilePreview localUri={attachment.local_uri} style={style} />
+    : <FilePreview fileId={attachment.file_id} style={style} />
+
+/**
+ * Attachments of a topic or comment: a single preview, or a swipeable
+ * carousel with a position indicator when there are several
+ */
+export const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({ attachments, previewStyle }) => {
+  const [width, setWidth] = useState(0)
+  const [index, setIndex] = useState(0)
+
+  if (attachments.length === 0) return null
+
+  if (attachments.length === 1) {
+    return renderPreview(attachments[0], previewStyle)
+  }
+
+  const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (width > 0) {
+      setIndex(Math.round(event.nativeEvent.contentOffset.x / width))
+    }
+  }
+
+  return (
+    <View onLayout={handleLayout}>
+      <ScrollView
+        horizontal
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        onMomentumScrollEnd={handleScroll}
+      >
+        {width > 0 && attachments.map(attachment => (
+          <View key={attachmentKey(attachment)} style={{ width }}>
+            {renderPreview(attachment, previewStyle)}
+          </View>
+        ))}
+      </ScrollView>
+
+      <View className="flex-row justify-center items-center gap-1.5 mt-2">
+        {attachments.map((attachment, position) => (
+          <View
+            key={attachmentKey(attachment)}
+            className={`w-1.5 h-1.5 rounded-full ${position === index ? 'bg-primary-500' : 'bg-gray-300 dark:bg-gray-600'}`}
+          />
+        ))}
+        <Text className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+          {index + 1}/{attachments.length}
+        </Text>
+      </View>
+    </View>
+  )
+}
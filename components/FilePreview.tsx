@@ -55,6 +55,12 @@ export const preloadFileMetadata = async (fileId: string): Promise<void> => {
     console.warn('Failed to preload metadata for file:', fileId, error);
   }
 };
+
+// URL a stored file can be shown from, or null when it can't be found
+export const getFileViewUrl = async (fileId: string): Promise<string | null> => {
+  await preloadFileMetadata(fileId);
+  return metadataCache.get(fileId)?.publicUrl ?? null;
+};
 // --- END PRELOAD FUNCTION ---
 
 // Simple file extension to media type mapping
@@ -66,12 +72,28 @@ const EXTENSION_MAP: Record<string, MediaType> = {
   doc: 'other', docx: 'other', txt: 'other', xls: 'other', xlsx: 'other', ppt: 'other', pptx: 'other', // Added more doc types
 };
 
-function getMediaTypeFromUrl(urlOrFilename: string): MediaType {
+export function getMediaTypeFromUrl(urlOrFilename: string): MediaType {
   if (!urlOrFilename) return 'other';
+  // Web pickers return data URIs, which carry a MIME type instead of an extension
+  const dataUriMime = urlOrFilename.match(/^data:([a-z]+)\/([a-z0-9.+-]+)/i);
+  if (dataUriMime) {
+    const [, kind, subtype] = dataUriMime;
+    if (subtype.toLowerCase() === 'pdf') return 'pdf';
+    return kind === 'image' || kind === 'video' || kind === 'audio' ? kind : 'other';
+  }
   const extension = urlOrFilename.split('.').pop()?.toLowerCase();
   return extension ? EXTENSION_MAP[extension] || 'other' : 'other';
 }
 
+/**
+ * Media type of a stored file whose metadata is already cached (e.g. shown
+ * or preloaded), without fetching it
+ */
+export function getCachedMediaType(fileId: string): MediaType | undefined {
+  const cached = metadataCache.get(fileId);
+  return cached ? getMediaTypeFromUrl(cached.file.filename || cached.publicUrl) : undefined;
+}
+
 // Helper function to detect if a URI is local
 function isLocalUri(uri: string): boolean {
   if (!uri) return false;
@@ -1,30 +1,97 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import {
   Modal,
   View,
   TouchableOpacity,
   Text,
 } from 'react-native'
+import { ForgotPasswordScreen } from './ForgotPasswordScreen'
 import { LoginScreen } from './LoginScreen'
 import { RegisterScreen } from './RegisterScreen'
+import { ResetPasswordScreen } from './ResetPasswordScreen'
+import { VerifyEmailScreen } from './VerifyEmailScreen'
+
+// resetPassword and verifyEmail are opened by the links in emails
+export type AuthMode = 'login' | 'register' | 'forgotPassword' | 'resetPassword' | 'verifyEmail'
 
 interface AuthModalProps {
   visible: boolean
   onClose: () => void
-  initialMode?: 'login' | 'register'
+  initialMode?: AuthMode
+  /** token from a reset or verification link, for those modes */
+  token?: string
 }
 
 export const AuthModal: React.FC<AuthModalProps> = ({ 
   visible, 
   onClose, 
-  initialMode = 'login' 
+  initialMode = 'login',
+  token
 }) => {
-  const [mode, setMode] = useState<'login' | 'register'>(initialMode)
+  const [mode, setMode] = useState<AuthMode>(initialMode)
+  const [email, setEmail] = useState('')
+
+  // Every opening starts from the requested mode
+  useEffect(() => {
+    if (visible) setMode(initialMode)
+  }, [visible, initialMode])
 
   const handleSwitchMode = () => {
     setMode(mode === 'login' ? 'register' : 'login')
   }
 
+  const handleForgotPassword = (typedEmail: string) => {
+    setEmail(typedEmail)
+    setMode('forgotPassword')
+  }
+
+  const renderScreen = () => {
+    switch (mode) {
+      case 'register':
+        return (
+          <RegisterScreen 
+            onSwitchToLogin={handleSwitchMode}
+            onClose={onClose}
+          />
+        )
+      case 'forgotPassword':
+        return (
+          <ForgotPasswordScreen
+            initialEmail={email}
+            onBackToLogin={() => setMode('login')}
+          />
+        )
+      case 'resetPassword':
+        return token ? (
+          <ResetPasswordScreen
+            token={token}
+            onPasswordReset={() => setMode('login')}
+            onRequestNewLink={() => setMode('forgotPassword')}
+          />
+        ) : (
+          <ForgotPasswordScreen onBackToLogin={() => setMode('login')} />
+        )
+      case 'verifyEmail':
+        if (token) {
+          return (
+            <VerifyEmailScreen
+              token={token}
+              onClose={onClose}
+              onSwitchToLogin={() => setMode('login')}
+            />
+          )
+        }
+        break
+    }
+    return (
+      <LoginScreen 
+        onSwitchToRegister={handleSwitchMode}
+        onForgotPassword={handleForgotPassword}
+        onClose={onClose}
+      />
+    )
+  }
+
   return (
     <Modal
       visible={visible}
@@ -42,17 +109,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({
           </TouchableOpacity>
         </View>
         
-        {mode === 'login' ? (
-          <LoginScreen 
-            onSwitchToRegister={handleSwitchMode}
-            onClose={onClose}
-          />
-        ) : (
-          <RegisterScreen 
-            onSwitchToLogin={handleSwitchMode}
-            onClose={onClose}
-          />
-        )}
+        {renderScreen()}
       </View>
     </Modal>
   )
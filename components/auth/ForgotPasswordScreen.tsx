@@ -0,0 +1,109 @@
+import React, { useState } from 'react'
+import {
+  View,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native'
+import { ThemedText } from '@/components/ThemedText'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { AccountService } from '@/services/accountService'
+import { RateLimitError } from '@/services/errors'
+
+interface ForgotPasswordScreenProps {
+  onBackToLogin: () => void
+  initialEmail?: string
+}
+
+export const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({
+  onBackToLogin,
+  initialEmail = ''
+}) => {
+  const [email, setEmail] = useState(initialEmail)
+  const [loading, setLoading] = useState(false)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  const handleSubmit = async () => {
+    if (!email.trim()) {
+      Alert.alert('Error', 'Please enter your email')
+      return
+    }
+
+    try {
+      setLoading(true)
+      await AccountService.requestPasswordReset(email.trim())
+      setSentTo(email.trim())
+    } catch (error) {
+      console.error('Password reset request error:', error)
+      Alert.alert(
+        'Error',
+        error instanceof RateLimitError
+          ? 'Too many reset requests. Please wait a few minutes and try again.'
+          : 'Failed to send the reset link. Please try again.'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-100 dark:bg-gray-900">
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        className="flex-1"
+      >
+        <View className="flex-1 justify-center px-5">
+          <ThemedText type="title" className="text-center mb-4">Reset Password</ThemedText>
+
+          {sentTo ? (
+            <ThemedText className="text-center mb-10">
+              If an account exists for {sentTo}, we sent it a link to choose a new password. Open it on this device.
+            </ThemedText>
+          ) : (
+            <>
+              <ThemedText className="text-center mb-10">
+                Enter the email you registered with and we will send you a link to choose a new password.
+              </ThemedText>
+
+              <View className="mb-5">
+                <Input
+                  placeholder="Email"
+                  value={email}
+                  onChangeText={setEmail}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  className="mb-4"
+                  onSubmitEditing={handleSubmit}
+                  returnKeyType="send"
+                />
+
+                {loading ? (
+                  <View className="bg-primary-500 rounded-lg py-4 items-center mt-2.5 opacity-60">
+                    <ActivityIndicator color="white" />
+                  </View>
+                ) : (
+                  <Button
+                    title="Send Reset Link"
+                    onPress={handleSubmit}
+                    className="mt-2.5"
+                  />
+                )}
+              </View>
+            </>
+          )}
+
+          <Button
+            title="Back to Login"
+            variant="ghost"
+            onPress={onBackToLogin}
+            className="py-2.5"
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  )
+}
@@ -14,11 +14,14 @@ import { Input } from '@/components/ui/Input'
 
 interface LoginScreenProps {
   onSwitchToRegister: () => void
+  /** receives the email typed so far */
+  onForgotPassword?: (email: string) => void
   onClose?: () => void
 }
 
 export const LoginScreen: React.FC<LoginScreenProps> = ({ 
   onSwitchToRegister, 
+  onForgotPassword,
   onClose 
 }) => {
   const { login, loading } = useAuth()
@@ -88,6 +91,14 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({
                 className="mt-2.5"
               />
             )}
+            {onForgotPassword && (
+              <Button
+                title="Forgot password?"
+                variant="ghost"
+                onPress={() => onForgotPassword(email.trim())}
+                className="mt-2.5"
+              />
+            )}
           </View>
           
           <Button
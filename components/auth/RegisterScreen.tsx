@@ -11,6 +11,7 @@ import { useAuth } from '@/contexts/AuthContext'
 import { ThemedText } from '@/components/ThemedText'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
+import { AuthRules } from '@/constants/Auth'
 
 interface RegisterScreenProps {
   onSwitchToLogin: () => void
@@ -37,8 +38,8 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({
       return
     }
 
-    if (password.length < 6) {
-      Alert.alert('Error', 'Password must be at least 6 characters')
+    if (password.length < AuthRules.minPasswordLength) {
+      Alert.alert('Error', `Password must be at least ${AuthRules.minPasswordLength} characters`)
       return
     }
 
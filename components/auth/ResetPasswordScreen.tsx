@@ -0,0 +1,119 @@
+import React, { useState } from 'react'
+import {
+  View,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native'
+import { ThemedText } from '@/components/ThemedText'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { AuthRules } from '@/constants/Auth'
+import { AccountService } from '@/services/accountService'
+import { ValidationError } from '@/services/errors'
+
+interface ResetPasswordScreenProps {
+  /** token from the reset link */
+  token: string
+  onPasswordReset: () => void
+  onRequestNewLink: () => void
+}
+
+export const ResetPasswordScreen: React.FC<ResetPasswordScreenProps> = ({
+  token,
+  onPasswordReset,
+  onRequestNewLink
+}) => {
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async () => {
+    if (!password.trim() || !confirmPassword.trim()) {
+      Alert.alert('Error', 'Please fill in all fields')
+      return
+    }
+
+    if (password !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match')
+      return
+    }
+
+    if (password.length < AuthRules.minPasswordLength) {
+      Alert.alert('Error', `Password must be at least ${AuthRules.minPasswordLength} characters`)
+      return
+    }
+
+    try {
+      setLoading(true)
+      await AccountService.resetPassword(token, password)
+      setPassword('')
+      setConfirmPassword('')
+      Alert.alert('Password changed', 'You can now log in with your new password.')
+      onPasswordReset()
+    } catch (error) {
+      console.error('Password reset error:', error)
+      if (error instanceof ValidationError) {
+        Alert.alert('Link expired', 'This reset link is invalid or has already been used.', [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Request New Link', onPress: onRequestNewLink },
+        ])
+      } else {
+        Alert.alert('Error', 'Failed to change the password. Please try again.')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-100 dark:bg-gray-900">
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        className="flex-1"
+      >
+        <View className="flex-1 justify-center px-5">
+          <ThemedText type="title" className="text-center mb-10">New Password</ThemedText>
+
+          <View className="mb-5">
+            <Input
+              placeholder="New Password"
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              textContentType="newPassword"
+              className="mb-4"
+            />
+
+            <Input
+              placeholder="Confirm New Password"
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              textContentType="newPassword"
+              className="mb-4"
+              onSubmitEditing={handleSubmit}
+              returnKeyType="done"
+            />
+
+            {loading ? (
+              <View className="bg-primary-500 rounded-lg py-4 items-center mt-2.5 opacity-60">
+                <ActivityIndicator color="white" />
+              </View>
+            ) : (
+              <Button
+                title="Change Password"
+                onPress={handleSubmit}
+                className="mt-2.5"
+              />
+            )}
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  )
+}
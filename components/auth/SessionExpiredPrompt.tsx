@@ -0,0 +1,33 @@
+import React, { useEffect, useState } from 'react'
+import { Alert } from 'react-native'
+import { useAuth } from '@/contexts/AuthContext'
+import { AuthModal } from './AuthModal'
+
+/**
+ * Tells the user their session expired and offers to sign in again.
+ * Rendered once, above every screen; unsent posts stay in the composers'
+ * drafts meanwhile.
+ */
+export const SessionExpiredPrompt: React.FC = () => {
+  const { sessionExpired, dismissSessionExpired } = useAuth()
+  const [showAuthModal, setShowAuthModal] = useState(false)
+
+  useEffect(() => {
+    if (!sessionExpired) return
+    Alert.alert(
+      'Session expired',
+      'You have been signed out. Sign in again to keep posting; anything you were writing has been saved as a draft.',
+      [
+        { text: 'Not now', style: 'cancel', onPress: dismissSessionExpired },
+        { text: 'Sign in', onPress: () => setShowAuthModal(true) },
+      ]
+    )
+  }, [sessionExpired, dismissSessionExpired])
+
+  const handleClose = () => {
+    setShowAuthModal(false)
+    dismissSessionExpired()
+  }
+
+  return <AuthModal visible={showAuthModal} onClose={handleClose} />
+}
@@ -0,0 +1,51 @@
+import React from 'react'
+import { Alert, Text, TouchableOpacity, View } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { useAuth } from '@/contexts/AuthContext'
+import { useResendVerification } from '@/hooks/useResendVerification'
+import { RateLimitError } from '@/services/errors'
+
+/**
+ * Reminds a signed-in user whose email address isn't verified yet, with a
+ * button to send the verification link again. Hidden for everyone else,
+ * including servers that don't report `is_verified`.
+ */
+export const VerifyEmailBanner: React.FC = () => {
+  const { user } = useAuth()
+  const { resend, sending, cooldown } = useResendVerification()
+
+  if (!user || user.is_verified !== false) return null
+
+  const handleResend = async () => {
+    try {
+      await resend()
+      Alert.alert('Email sent', `We sent a new verification link to ${user.email}.`)
+    } catch (error) {
+      console.error('Resend verification error:', error)
+      Alert.alert(
+        'Error',
+        error instanceof RateLimitError ? error.message : 'Failed to send the verification email. Please try again.'
+      )
+    }
+  }
+
+  return (
+    <View className="flex-row items-center px-4 py-2.5 bg-amber-50 border-b border-amber-200 dark:bg-gray-800 dark:border-gray-700">
+      <Ionicons name="mail-unread-outline" size={18} color="#d97706" />
+      <Text className="flex-1 mx-2 text-sm text-amber-800 dark:text-amber-300">
+        Please verify your email address using the link we sent to {user.email}.
+      </Text>
+      <TouchableOpacity
+        onPress={handleResend}
+        disabled={sending || cooldown > 0}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        accessibilityRole="button"
+        accessibilityLabel="Resend verification email"
+      >
+        <Text className={`text-sm font-semibold text-amber-700 dark:text-amber-400 ${sending || cooldown > 0 ? 'opacity-50' : ''}`}>
+          {cooldown > 0 ? `Resend (${cooldown}s)` : 'Resend'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  )
+}
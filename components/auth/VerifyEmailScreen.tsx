@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react'
+import {
+  View,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+} from 'react-native'
+import { useAuth } from '@/contexts/AuthContext'
+import { ThemedText } from '@/components/ThemedText'
+import { Button } from '@/components/ui/Button'
+import { useResendVerification } from '@/hooks/useResendVerification'
+import { AccountService } from '@/services/accountService'
+import { RateLimitError, ValidationError } from '@/services/errors'
+
+type VerificationState = 'verifying' | 'verified' | 'invalid' | 'failed'
+
+interface VerifyEmailScreenProps {
+  /** token from the verification link */
+  token: string
+  onClose: () => void
+  onSwitchToLogin: () => void
+}
+
+export const VerifyEmailScreen: React.FC<VerifyEmailScreenProps> = ({
+  token,
+  onClose,
+  onSwitchToLogin
+}) => {
+  const { isAuthenticated, refreshUser } = useAuth()
+  const { resend, sending, cooldown } = useResendVerification()
+  const [state, setState] = useState<VerificationState>('verifying')
+  // Verify once per token, not again when the reloaded user changes refreshUser
+  const refreshUserRef = useRef(refreshUser)
+  refreshUserRef.current = refreshUser
+
+  useEffect(() => {
+    let cancelled = false
+    setState('verifying')
+    AccountService.verifyEmail(token)
+      .then(() => {
+        if (cancelled) return
+        setState('verified')
+        refreshUserRef.current()
+      })
+      .catch(error => {
+        console.error('Email verification error:', error)
+        if (!cancelled) setState(error instanceof ValidationError ? 'invalid' : 'failed')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [token])
+
+  const handleResend = async () => {
+    try {
+      await resend()
+      Alert.alert('Email sent', 'Check your inbox for the new verification link.')
+    } catch (error) {
+      console.error('Resend verification error:', error)
+      Alert.alert(
+        'Error',
+        error instanceof RateLimitError ? error.message : 'Failed to send the verification email. Please try again.'
+      )
+    }
+  }
+
+  const messages: Record<VerificationState, string> = {
+    verifying: 'Verifying your email address…',
+    verified: 'Your email address is verified. Thanks!',
+    invalid: 'This verification link is invalid, expired or was already used.',
+    failed: 'Your email address could not be verified right now. Please open the link again later.',
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-100 dark:bg-gray-900">
+      <View className="flex-1 justify-center px-5">
+        <ThemedText type="title" className="text-center mb-4">Verify Email</ThemedText>
+        <ThemedText className="text-center mb-10">{messages[state]}</ThemedText>
+
+        {state === 'verifying' && <ActivityIndicator color="#007AFF" />}
+
+        {state === 'verified' && <Button title="Continue" onPress={onClose} />}
+
+        {state === 'invalid' && (isAuthenticated ? (
+          <Button
+            title={cooldown > 0 ? `Send New Link (${cooldown}s)` : 'Send New Link'}
+            onPress={handleResend}
+            disabled={sending || cooldown > 0}
+          />
+        ) : (
+          <Button
+            title="Log in to request a new link"
+            variant="ghost"
+            onPress={onSwitchToLogin}
+            className="py-2.5"
+          />
+        ))}
+
+        {state === 'failed' && <Button title="Close" variant="secondary" onPress={onClose} />}
+      </View>
+    </SafeAreaView>
+  )
+}
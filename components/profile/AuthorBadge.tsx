@@ -0,0 +1,45 @@
+import React from 'react'
+import { Text, TouchableOpacity, View } from 'react-native'
+import { router } from 'expo-router'
+import { useProfile } from '@/hooks/useProfile'
+import { authorDisplayName } from '@/lib/profiles'
+import { Avatar } from './Avatar'
+
+interface AuthorBadgeProps {
+  userId?: string
+  /** stored with the post; shown for anonymous authors and users without a profile */
+  authorName: string
+  /** e.g. "By", before the name */
+  prefix?: string
+}
+
+/**
+ * Avatar and display name of a topic's or comment's author. Signed-in
+ * authors link to their profile.
+ */
+export const AuthorBadge: React.FC<AuthorBadgeProps> = ({ userId, authorName, prefix }) => {
+  const profile = useProfile(userId)
+  const name = authorDisplayName(profile, authorName)
+
+  const content = (
+    <View className="flex-row items-center gap-1.5">
+      <Avatar profile={profile} name={name} size={20} />
+      <Text className="text-xs text-primary-500 font-medium" numberOfLines={1}>
+        {prefix ? `${prefix} ${name}` : name}
+      </Text>
+    </View>
+  )
+
+  if (!userId) return content
+
+  return (
+    <TouchableOpacity
+      onPress={() => router.push({ pathname: '/profile/[userId]', params: { userId } })}
+      hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+      accessibilityRole="link"
+      accessibilityLabel={`Profile of ${name}`}
+    >
+      {content}
+    </TouchableOpacity>
+  )
+}
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react'
+import { Text, View } from 'react-native'
+import { Image } from 'expo-image'
+import { getFileViewUrl } from '@/components/FilePreview'
+import { initialsOf } from '@/lib/profiles'
+import { Profile } from '@/types'
+
+interface AvatarProps {
+  profile: Profile | null | undefined
+  /** shown as initials when there is no picture */
+  name: string
+  size?: number
+  /** local URI of a picture not uploaded yet, e.g. in the profile editor */
+  previewUri?: string
+}
+
+/**
+ * Round profile picture, or the name's initials in a bordered circle
+ */
+export const Avatar: React.FC<AvatarProps> = ({ profile, name, size = 32, previewUri }) => {
+  const [url, setUrl] = useState<string | null>(null)
+  const fileId = profile?.avatar_file_id
+
+  useEffect(() => {
+    let cancelled = false
+    setUrl(null)
+    if (!fileId) return
+    getFileViewUrl(fileId).then(viewUrl => {
+      if (!cancelled) setUrl(viewUrl)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [fileId])
+
+  const dimensions = { width: size, height: size, borderRadius: size / 2 }
+  const source = previewUri ?? url
+
+  if (source) {
+    return (
+      <Image
+        source={{ uri: source }}
+        style={dimensions}
+        contentFit="cover"
+        accessibilityLabel={`Profile picture of ${name}`}
+      />
+    )
+  }
+
+  return (
+    <View className="border border-primary-500 justify-center items-center" style={dimensions}>
+      <Text className="text-primary-500 font-semibold" style={{ fontSize: Math.max(10, size * 0.4) }}>
+        {initialsOf(name)}
+      </Text>
+    </View>
+  )
+}
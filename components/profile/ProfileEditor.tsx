@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react'
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { router } from 'expo-router'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { useAuth } from '@/contexts/AuthContext'
+import { useImageLibraryLauncher } from '@/lib/deviceUtils'
+import { defaultDisplayName, MAX_BIO_LENGTH, MAX_DISPLAY_NAME_LENGTH } from '@/lib/profiles'
+import { NetworkError } from '@/services/errors'
+import { MediaPipeline } from '@/services/mediaPipeline'
+import { ProfileService } from '@/services/profileService'
+import { Profile, ProfileChanges } from '@/types'
+import { Avatar } from './Avatar'
+
+/**
+ * Edit the signed-in user's display name, bio and profile picture
+ */
+export const ProfileEditor: React.FC = () => {
+  const { user } = useAuth()
+  const { launchImageLibrary } = useImageLibraryLauncher()
+  const [profile, setProfile] = useState<Profile | null | undefined>(undefined)
+  const [displayName, setDisplayName] = useState('')
+  const [bio, setBio] = useState('')
+  // Local URI of a newly picked picture
+  const [avatarUri, setAvatarUri] = useState<string | null>(null)
+  const [removeAvatar, setRemoveAvatar] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!user) return
+    let cancelled = false
+    ProfileService.ensureOwn(user).then(loaded => {
+      if (cancelled) return
+      setProfile(loaded)
+      setDisplayName(loaded?.display_name ?? defaultDisplayName(user.id))
+      setBio(loaded?.bio ?? '')
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [user])
+
+  const close = () => (router.canGoBack() ? router.back() : router.replace('/'))
+
+  const handlePickAvatar = async () => {
+    const result = await launchImageLibrary(1, true)
+    const [asset] = result && !result.canceled ? result.assets : []
+    if (!asset) return
+    try {
+      setAvatarUri(await MediaPipeline.prepareAvatar(asset))
+      setRemoveAvatar(false)
+    } catch (error) {
+      console.error('Failed to prepare profile picture:', error)
+      Alert.alert('Error', error instanceof Error ? error.message : 'This photo could not be used.')
+    }
+  }
+
+  const handleRemoveAvatar = () => {
+    setAvatarUri(null)
+    setRemoveAvatar(true)
+  }
+
+  const handleSave = async () => {
+    if (!user) return
+    const name = displayName.trim()
+    if (!name) {
+      Alert.alert('Error', 'Please enter a display name')
+      return
+    }
+
+    const changes: ProfileChanges = { display_name: name, bio: bio.trim() || null }
+    if (removeAvatar) changes.avatar_file_id = null
+
+    setSaving(true)
+    try {
+      await ProfileService.save(user.id, changes, avatarUri ?? undefined)
+      close()
+    } catch (error) {
+      console.error('Failed to save profile:', error)
+      Alert.alert(
+        'Error',
+        error instanceof NetworkError
+          ? 'You are offline. Your profile can be saved once you are back online.'
+          : 'Failed to save your profile. Please try again.'
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!user) {
+    return (
+      <View className="flex-1 justify-center items-center bg-gray-100 dark:bg-gray-900 px-5">
+        <Text className="text-gray-600 dark:text-gray-300 text-center">Log in to edit your profile.</Text>
+      </View>
+    )
+  }
+
+  const hasAvatar = !!avatarUri || (!removeAvatar && !!profile?.avatar_file_id)
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      className="flex-1 bg-gray-100 dark:bg-gray-900"
+    >
+      {/* Header */}
+      <View className="flex-row items-center justify-between px-5 pb-2 border-b border-gray-200 dark:border-gray-700">
+        <TouchableOpacity
+          className="p-2 rounded-full justify-center items-center w-10 h-10"
+          onPress={close}
+          disabled={saving}
+        >
+          <Ionicons name="close" size={22} color="#007AFF" />
+        </TouchableOpacity>
+        <Text className="text-lg font-semibold text-gray-800 dark:text-gray-100">Edit profile</Text>
+        <View className="w-10" />
+      </View>
+
+      {profile === undefined ? (
+        <View className="py-10">
+          <ActivityIndicator size="small" color="#007AFF" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={{ padding: 20 }} keyboardShouldPersistTaps="handled">
+          <View className="items-center mb-6">
+            <Avatar
+              profile={removeAvatar ? null : profile}
+              name={displayName || defaultDisplayName(user.id)}
+              size={96}
+              previewUri={avatarUri ?? undefined}
+            />
+            <View className="flex-row gap-4 mt-3">
+              <TouchableOpacity onPress={handlePickAvatar} disabled={saving}>
+                <Text className="text-primary-500 font-medium">{hasAvatar ? 'Change photo' : 'Add photo'}</Text>
+              </TouchableOpacity>
+              {hasAvatar && (
+                <TouchableOpacity onPress={handleRemoveAvatar} disabled={saving}>
+                  <Text className="text-red-500 font-medium">Remove</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
+          <Text className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Display name</Text>
+          <Input
+            placeholder="How others see you"
+            value={displayName}
+            onChangeText={setDisplayName}
+            maxLength={MAX_DISPLAY_NAME_LENGTH}
+            autoCorrect={false}
+            className="mb-4"
+          />
+
+          <Text className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Bio</Text>
+          <Input
+            placeholder="A few words about yourself"
+            value={bio}
+            onChangeText={setBio}
+            maxLength={MAX_BIO_LENGTH}
+            multiline
+            numberOfLines={4}
+            textAlignVertical="top"
+            className="mb-1 min-h-[100px]"
+          />
+          <Text className="text-xs text-gray-400 text-right mb-6">{bio.length}/{MAX_BIO_LENGTH}</Text>
+
+          {saving ? (
+            <View className="bg-primary-500 rounded-lg py-4 items-center opacity-60">
+              <ActivityIndicator color="white" />
+            </View>
+          ) : (
+            <Button title="Save" onPress={handleSave} />
+          )}
+        </ScrollView>
+      )}
+    </KeyboardAvoidingView>
+  )
+}
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { ActivityIndicator, FlatList, Text, TouchableOpacity, View } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { router } from 'expo-router'
+import { Pagination } from '@/constants/Pagination'
+import { useAuth } from '@/contexts/AuthContext'
+import { useProfile } from '@/hooks/useProfile'
+import { authorDisplayName, MEMBER_AUTHOR_NAME } from '@/lib/profiles'
+import { NetworkError } from '@/services/errors'
+import { SearchRepository } from '@/services/searchRepository'
+import { SearchCursor, SearchResult } from '@/types'
+import { SearchResultCard } from '../search/SearchResultCard'
+import { Avatar } from './Avatar'
+
+interface ProfileViewProps {
+  userId: string
+  /** number of posts fetched per page */
+  pageSize?: number
+}
+
+/**
+ * A user's profile with their topics and comments, newest first. The
+ * signed-in user can edit their own from here.
+ */
+export const ProfileView: React.FC<ProfileViewProps> = ({ userId, pageSize = Pagination.searchPageSize }) => {
+  const { user } = useAuth()
+  const profile = useProfile(userId)
+  const [posts, setPosts] = useState<SearchResult[]>([])
+  const [nextCursor, setNextCursor] = useState<SearchCursor | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  // Only the latest user's posts may update the list
+  const requestId = useRef(0)
+
+  const isOwn = user?.id === userId
+  const name = authorDisplayName(profile, MEMBER_AUTHOR_NAME)
+
+  useEffect(() => {
+    const id = ++requestId.current
+    setLoading(true)
+    setErrorMessage(null)
+    SearchRepository.listByAuthor(userId, null, pageSize)
+      .then(page => {
+        if (id !== requestId.current) return
+        setPosts(page.results)
+        setNextCursor(page.nextCursor)
+      })
+      .catch(error => {
+        if (id !== requestId.current) return
+        console.error('Failed to load posts:', error)
+        setPosts([])
+        setNextCursor(null)
+        setErrorMessage(error instanceof NetworkError ? 'You are offline' : 'Failed to load posts')
+      })
+      .finally(() => {
+        if (id === requestId.current) setLoading(false)
+      })
+  }, [userId, pageSize])
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore || loading) return
+    const id = requestId.current
+
+    setLoadingMore(true)
+    try {
+      const page = await SearchRepository.listByAuthor(userId, nextCursor, pageSize)
+      if (id !== requestId.current) return
+      setPosts(current => [
+        ...current,
+        ...page.results.filter(result => !current.some(existing => existing.key === result.key)),
+      ])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error('Failed to load more posts:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const handlePostPress = (result: SearchResult) => {
+    router.push({
+      pathname: '/topic/[topicId]',
+      params: result.comment_id
+        ? { topicId: result.topic_id, commentId: result.comment_id }
+        : { topicId: result.topic_id },
+    })
+  }
+
+  const header = (
+    <View className="items-center mb-4">
+      <Avatar profile={profile} name={name} size={88} />
+      <Text className="mt-3 text-xl font-semibold text-gray-900 dark:text-white">
+        {name}
+      </Text>
+      {profile?.bio ? (
+        <Text className="mt-2 text-sm text-gray-600 dark:text-gray-300 text-center leading-5">{profile.bio}</Text>
+      ) : null}
+      {isOwn && (
+        <TouchableOpacity
+          className="flex-row items-center mt-4 px-4 py-2 rounded-full border border-primary-500"
+          onPress={() => router.push('/profile/edit')}
+        >
+          <Ionicons name="create-outline" size={16} color="#007AFF" />
+          <Text className="ml-1 text-primary-500 font-medium">Edit profile</Text>
+        </TouchableOpacity>
+      )}
+      <Text className="self-start mt-6 text-sm font-semibold text-gray-800 dark:text-gray-100">Posts</Text>
+      {loading && (
+        <View className="py-4">
+          <ActivityIndicator size="small" color="#007AFF" />
+        </View>
+      )}
+    </View>
+  )
+
+  return (
+    <View className="flex-1 bg-gray-100 dark:bg-gray-900">
+      {/* Header */}
+      <View className="flex-row items-center px-5 pb-2 border-b border-gray-200 dark:border-gray-700">
+        <TouchableOpacity
+          className="p-2 rounded-full justify-center items-center w-10 h-10"
+          onPress={() => router.canGoBack() ? router.back() : router.replace('/')}
+        >
+          <Ionicons name="arrow-back" size={20} color="#007AFF" />
+        </TouchableOpacity>
+        <Text className="ml-2 text-lg font-semibold text-gray-800 dark:text-gray-100">Profile</Text>
+      </View>
+
+      <FlatList
+        data={posts}
+        keyExtractor={(item) => item.key}
+        renderItem={({ item }) => (
+          <SearchResultCard result={item} query="" onPress={handlePostPress} />
+        )}
+        contentContainerStyle={{ padding: 16 }}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={header}
+        ListEmptyComponent={
+          !loading ? (
+            <View className="items-center py-10">
+              <Ionicons name="chatbubbles-outline" size={40} color="#9ca3af" />
+              <Text className="mt-3 text-gray-600 dark:text-gray-300 text-base">
+                {errorMessage ?? 'No posts yet'}
+              </Text>
+            </View>
+          ) : null
+        }
+        ListFooterComponent={
+          loadingMore ? (
+            <View className="py-4">
+              <ActivityIndicator size="small" color="#007AFF" />
+            </View>
+          ) : null
+        }
+      />
+    </View>
+  )
+}
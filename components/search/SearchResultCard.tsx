@@ -0,0 +1,79 @@
+import React from 'react'
+import { View, Text, TouchableOpacity } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { SearchResult } from '@/types'
+import { formatDate } from '@/lib/utils'
+import { snippetAround, splitHighlights } from '@/lib/search'
+import { AuthorBadge } from '../profile/AuthorBadge'
+
+interface HighlightedTextProps {
+  text: string
+  query: string
+  className?: string
+  numberOfLines?: number
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query, className, numberOfLines }) => (
+  <Text className={className} numberOfLines={numberOfLines}>
+    {splitHighlights(text, query).map((segment, index) =>
+      segment.match ? (
+        <Text key={index} className="bg-yellow-200 dark:bg-yellow-700 font-semibold">
+          {segment.text}
+        </Text>
+      ) : (
+        segment.text
+      )
+    )}
+  </Text>
+)
+
+interface SearchResultCardProps {
+  result: SearchResult
+  query: string
+  onPress: (result: SearchResult) => void
+}
+
+export const SearchResultCard: React.FC<SearchResultCardProps> = ({ result, query, onPress }) => {
+  const isComment = result.kind === 'comment'
+
+  return (
+    <TouchableOpacity
+      className="bg-white rounded-lg p-4 mb-3 shadow-sm border border-gray-200
+                 dark:bg-gray-800 dark:border-gray-700"
+      onPress={() => onPress(result)}
+      activeOpacity={0.8}
+    >
+      <View className="flex-row items-center mb-1">
+        <Ionicons
+          name={isComment ? 'chatbubble-outline' : 'document-text-outline'}
+          size={14}
+          color="#6b7280"
+        />
+        <Text className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+          {isComment ? 'Comment in' : 'Topic'}
+        </Text>
+      </View>
+
+      {result.title ? (
+        <HighlightedText
+          text={result.title}
+          query={isComment ? '' : query}
+          className="text-base font-semibold text-gray-800 dark:text-gray-100 mb-1"
+          numberOfLines={2}
+        />
+      ) : null}
+
+      <HighlightedText
+        text={snippetAround(result.content, query)}
+        query={query}
+        className="text-sm text-gray-600 dark:text-gray-300 leading-5 mb-2"
+        numberOfLines={3}
+      />
+
+      <View className="flex-row justify-between items-center">
+        <AuthorBadge userId={result.user_id} authorName={result.author_name} />
+        <Text className="text-xs text-gray-400 dark:text-gray-500">{formatDate(result.created_at)}</Text>
+      </View>
+    </TouchableOpacity>
+  )
+}
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react'
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Keyboard,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { router } from 'expo-router'
+import { SearchRepository } from '@/services/searchRepository'
+import { RecentSearches } from '@/services/recentSearches'
+import { NetworkError } from '@/services/errors'
+import { SearchCursor, SearchResult } from '@/types'
+import { Pagination } from '@/constants/Pagination'
+import { Input } from '@/components/ui/Input'
+import { SearchResultCard } from './SearchResultCard'
+
+// Wait for typing to pause before querying
+const SEARCH_DEBOUNCE_MS = 300
+const MIN_QUERY_LENGTH = 2
+
+interface SearchViewProps {
+  /** number of results fetched per page */
+  pageSize?: number
+}
+
+export const SearchView: React.FC<SearchViewProps> = ({ pageSize = Pagination.searchPageSize }) => {
+  const [query, setQuery] = useState('')
+  // Query the shown results belong to
+  const [activeQuery, setActiveQuery] = useState('')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [nextCursor, setNextCursor] = useState<SearchCursor | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [recentSearches, setRecentSearches] = useState<string[]>([])
+  // Only the latest request may update the results
+  const requestId = useRef(0)
+
+  useEffect(() => {
+    RecentSearches.list().then(setRecentSearches)
+  }, [])
+
+  const runSearch = useCallback(async (text: string) => {
+    const trimmed = text.trim()
+    const id = ++requestId.current
+
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setActiveQuery('')
+      setResults([])
+      setNextCursor(null)
+      setErrorMessage(null)
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    setErrorMessage(null)
+    try {
+      const page = await SearchRepository.search(trimmed, null, pageSize)
+      if (id !== requestId.current) return
+      setActiveQuery(trimmed)
+      setResults(page.results)
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      if (id !== requestId.current) return
+      console.error('Search failed:', error)
+      setResults([])
+      setNextCursor(null)
+      setErrorMessage(error instanceof NetworkError ? 'You are offline' : 'Search failed')
+    } finally {
+      if (id === requestId.current) setLoading(false)
+    }
+  }, [pageSize])
+
+  useEffect(() => {
+    const timer = setTimeout(() => runSearch(query), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [query, runSearch])
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore || loading) return
+    const id = requestId.current
+
+    setLoadingMore(true)
+    try {
+      const page = await SearchRepository.search(activeQuery, nextCursor, pageSize)
+      if (id !== requestId.current) return
+      setResults(current => [
+        ...current,
+        ...page.results.filter(result => !current.some(existing => existing.key === result.key)),
+      ])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error('Failed to load more search results:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const rememberQuery = async (text: string) => {
+    if (text.trim().length >= MIN_QUERY_LENGTH) {
+      setRecentSearches(await RecentSearches.add(text))
+    }
+  }
+
+  const handleResultPress = (result: SearchResult) => {
+    Keyboard.dismiss()
+    rememberQuery(activeQuery)
+    router.push({
+      pathname: '/topic/[topicId]',
+      params: result.comment_id
+        ? { topicId: result.topic_id, commentId: result.comment_id }
+        : { topicId: result.topic_id },
+    })
+  }
+
+  const handleRecentPress = (text: string) => {
+    setQuery(text)
+    rememberQuery(text)
+  }
+
+  const handleRemoveRecent = async (text: string) => {
+    setRecentSearches(await RecentSearches.remove(text))
+  }
+
+  const handleClearRecent = async () => {
+    await RecentSearches.clear()
+    setRecentSearches([])
+  }
+
+  const showRecent = query.trim().length < MIN_QUERY_LENGTH
+
+  return (
+    <View className="flex-1 bg-gray-100 dark:bg-gray-900">
+      {/* Header */}
+      <View className="flex-row items-center gap-2 px-5 pb-2 border-b border-gray-200 dark:border-gray-700">
+        <TouchableOpacity
+          className="p-2 rounded-full justify-center items-center w-10 h-10"
+          onPress={() => router.canGoBack() ? router.back() : router.replace('/')}
+        >
+          <Ionicons name="arrow-back" size={20} color="#007AFF" />
+        </TouchableOpacity>
+        <Input
+          className="flex-1"
+          size="sm"
+          placeholder="Search topics and comments"
+          value={query}
+          onChangeText={setQuery}
+          onSubmitEditing={() => rememberQuery(query)}
+          returnKeyType="search"
+          autoFocus
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+      </View>
+
+      {showRecent ? (
+        <View className="px-5 pt-4">
+          {recentSearches.length > 0 && (
+            <>
+              <View className="flex-row justify-between items-center mb-2">
+                <Text className="text-sm font-semibold text-gray-800 dark:text-gray-100">Recent searches</Text>
+                <TouchableOpacity onPress={handleClearRecent}>
+                  <Text className="text-primary-500 text-sm">Clear</Text>
+                </TouchableOpacity>
+              </View>
+              {recentSearches.map(text => (
+                <View key={text} className="flex-row items-center py-2">
+                  <TouchableOpacity className="flex-1 flex-row items-center" onPress={() => handleRecentPress(text)}>
+                    <Ionicons name="time-outline" size={16} color="#6b7280" />
+                    <Text className="ml-2 text-base text-gray-700 dark:text-gray-200">{text}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleRemoveRecent(text)}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  >
+                    <Ionicons name="close" size={16} color="#6b7280" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </>
+          )}
+        </View>
+      ) : (
+        <FlatList
+          data={results}
+          keyExtractor={(item) => item.key}
+          renderItem={({ item }) => (
+            <SearchResultCard result={item} query={activeQuery} onPress={handleResultPress} />
+          )}
+          contentContainerStyle={{ padding: 16 }}
+          keyboardShouldPersistTaps="handled"
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListHeaderComponent={
+            loading ? (
+              <View className="flex-row justify-center items-center py-4">
+                <ActivityIndicator size="small" color="#007AFF" />
+              </View>
+            ) : null
+          }
+          ListEmptyComponent={
+            !loading ? (
+              <View className="items-center py-10">
+                <Ionicons name="search-outline" size={40} color="#9ca3af" />
+                <Text className="mt-3 text-gray-600 dark:text-gray-300 text-base">
+                  {errorMessage ?? 'No matches'}
+                </Text>
+              </View>
+            ) : null
+          }
+          ListFooterComponent={
+            loadingMore ? (
+              <View className="py-4">
+                <ActivityIndicator size="small" color="#007AFF" />
+              </View>
+            ) : null
+          }
+        />
+      )}
+    </View>
+  )
+}
@@ -0,0 +1,38 @@
+import React from 'react'
+import { Text, TouchableOpacity, View } from 'react-native'
+import { useTags } from '@/contexts/TagsContext'
+
+interface TagChipsProps {
+  tagIds?: string[]
+  /** filter the feed by a tag when it is tapped */
+  onTagPress?: (tagId: string) => void
+}
+
+/**
+ * Read-only tags of a topic. Ids whose tag is unknown (deleted, or the list
+ * is still loading) are skipped.
+ */
+export const TagChips: React.FC<TagChipsProps> = ({ tagIds, onTagPress }) => {
+  const { tagsById } = useTags()
+  const tags = (tagIds ?? [])
+    .map(id => tagsById.get(id))
+    .filter((tag): tag is NonNullable<typeof tag> => tag !== undefined)
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  if (tags.length === 0) return null
+
+  return (
+    <View className="flex-row flex-wrap gap-1.5 mb-3">
+      {tags.map(tag => (
+        <TouchableOpacity
+          key={tag.id}
+          className="px-2 py-0.5 rounded-full bg-primary-50 dark:bg-gray-700"
+          onPress={onTagPress ? () => onTagPress(tag.id) : undefined}
+          disabled={!onTagPress}
+        >
+          <Text className="text-xs text-primary-600 dark:text-primary-100">#{tag.name}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  )
+}
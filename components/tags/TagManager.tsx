@@ -0,0 +1,260 @@
+import React, { useState } from 'react'
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { router } from 'expo-router'
+import { Tag } from '@/types'
+import { useAuth } from '@/contexts/AuthContext'
+import { useTags } from '@/contexts/TagsContext'
+import { canManageTags } from '@/lib/permissions'
+import { TagRepository } from '@/services/tagRepository'
+import { ConflictError } from '@/services/errors'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+
+const MAX_TAG_NAME_LENGTH = 50
+
+/**
+ * Tag names are stored trimmed, lowercase and without a leading '#'
+ */
+function normalizeTagName(name: string): string {
+  return name.trim().replace(/^#+/, '').toLowerCase()
+}
+
+function describeFailure(error: unknown, action: string): string {
+  return error instanceof ConflictError
+    ? 'A tag with this name already exists.'
+    : `Failed to ${action}. Please try again.`
+}
+
+/**
+ * Admin screen for creating, renaming and merging tags
+ */
+export const TagManager: React.FC = () => {
+  const { user } = useAuth()
+  const { tags, loading, refresh } = useTags()
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+  const [mergeSource, setMergeSource] = useState<Tag | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const validName = (name: string): boolean => {
+    if (!name) {
+      Alert.alert('Error', 'Please enter a tag name')
+      return false
+    }
+    if (name.length > MAX_TAG_NAME_LENGTH) {
+      Alert.alert('Error', `Tag names can be at most ${MAX_TAG_NAME_LENGTH} characters`)
+      return false
+    }
+    return true
+  }
+
+  const handleCreate = async () => {
+    const name = normalizeTagName(newName)
+    if (!validName(name)) return
+
+    setSaving(true)
+    try {
+      await TagRepository.create(name)
+      setNewName('')
+      await refresh()
+    } catch (error) {
+      console.error('Failed to create tag:', error)
+      Alert.alert('Error', describeFailure(error, 'create tag'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRename = async (tag: Tag) => {
+    const name = normalizeTagName(editingName)
+    if (name === tag.name) {
+      setEditingId(null)
+      return
+    }
+    if (!validName(name)) return
+
+    setSaving(true)
+    try {
+      await TagRepository.rename(tag.id, name)
+      setEditingId(null)
+      await refresh()
+    } catch (error) {
+      console.error('Failed to rename tag:', error)
+      Alert.alert('Error', describeFailure(error, 'rename tag'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleMerge = (source: Tag, target: Tag) => {
+    setMergeSource(null)
+    Alert.alert(
+      'Merge tags?',
+      `Topics tagged #${source.name} will be tagged #${target.name}, and #${source.name} will be deleted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: async () => {
+            setSaving(true)
+            try {
+              await TagRepository.merge(source.id, target.id)
+            } catch (error) {
+              console.error('Failed to merge tags:', error)
+              Alert.alert('Error', describeFailure(error, 'merge tags'))
+            } finally {
+              await refresh()
+              setSaving(false)
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const startEditing = (tag: Tag) => {
+    setEditingId(tag.id)
+    setEditingName(tag.name)
+  }
+
+  const renderTag = ({ item }: { item: Tag }) => (
+    <View className="flex-row items-center py-3 border-b border-gray-200 dark:border-gray-700">
+      {editingId === item.id ? (
+        <>
+          <Input
+            className="flex-1"
+            size="sm"
+            value={editingName}
+            onChangeText={setEditingName}
+            onSubmitEditing={() => handleRename(item)}
+            autoFocus
+            autoCapitalize="none"
+            returnKeyType="done"
+          />
+          <TouchableOpacity className="ml-3" onPress={() => handleRename(item)} disabled={saving}>
+            <Ionicons name="checkmark" size={22} color="#10b981" />
+          </TouchableOpacity>
+          <TouchableOpacity className="ml-3" onPress={() => setEditingId(null)} disabled={saving}>
+            <Ionicons name="close" size={22} color="#6b7280" />
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <Text className="flex-1 text-base text-gray-800 dark:text-gray-100">#{item.name}</Text>
+          <TouchableOpacity className="ml-3" onPress={() => startEditing(item)} disabled={saving}>
+            <Ionicons name="create-outline" size={20} color="#007AFF" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            className="ml-4"
+            onPress={() => setMergeSource(item)}
+            disabled={saving || tags.length < 2}
+          >
+            <Ionicons name="git-merge-outline" size={20} color={tags.length < 2 ? '#9ca3af' : '#007AFF'} />
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  )
+
+  return (
+    <View className="flex-1 bg-gray-100 dark:bg-gray-900">
+      {/* Header */}
+      <View className="flex-row items-center gap-2 px-5 pb-2 border-b border-gray-200 dark:border-gray-700">
+        <TouchableOpacity
+          className="p-2 rounded-full justify-center items-center w-10 h-10"
+          onPress={() => router.canGoBack() ? router.back() : router.replace('/')}
+        >
+          <Ionicons name="arrow-back" size={20} color="#007AFF" />
+        </TouchableOpacity>
+        <Text className="flex-1 text-lg font-semibold text-gray-800 dark:text-gray-100">Manage tags</Text>
+        {saving && <ActivityIndicator size="small" color="#007AFF" />}
+      </View>
+
+      {!canManageTags(user) ? (
+        <View className="items-center py-10 px-5">
+          <Ionicons name="lock-closed-outline" size={40} color="#9ca3af" />
+          <Text className="mt-3 text-gray-600 dark:text-gray-300 text-base text-center">
+            Only admins can manage tags
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={tags}
+          keyExtractor={(item) => item.id}
+          renderItem={renderTag}
+          contentContainerStyle={{ padding: 16 }}
+          keyboardShouldPersistTaps="handled"
+          ListHeaderComponent={
+            <View className="flex-row items-center gap-2 mb-2">
+              <Input
+                className="flex-1"
+                size="sm"
+                placeholder="New tag"
+                value={newName}
+                onChangeText={setNewName}
+                onSubmitEditing={handleCreate}
+                autoCapitalize="none"
+                returnKeyType="done"
+              />
+              <Button title="Add" size="sm" onPress={handleCreate} disabled={saving} />
+            </View>
+          }
+          ListEmptyComponent={
+            loading ? (
+              <View className="py-4">
+                <ActivityIndicator size="small" color="#007AFF" />
+              </View>
+            ) : (
+              <Text className="text-center text-gray-600 dark:text-gray-300 py-6">No tags yet</Text>
+            )
+          }
+        />
+      )}
+
+      {/* Merge target picker */}
+      <Modal
+        visible={mergeSource !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setMergeSource(null)}
+      >
+        <View className="flex-1 bg-black/50 justify-center items-center">
+          <View className="bg-white dark:bg-gray-800 rounded-xl p-5 mx-5 w-80 max-h-[70%]">
+            <Text className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-3 text-center">
+              Merge #{mergeSource?.name} into…
+            </Text>
+            <FlatList
+              data={tags.filter(tag => tag.id !== mergeSource?.id)}
+              keyExtractor={(item) => item.id}
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  className="py-3 border-b border-gray-200 dark:border-gray-700"
+                  onPress={() => mergeSource && handleMerge(mergeSource, item)}
+                >
+                  <Text className="text-base text-gray-800 dark:text-gray-100">#{item.name}</Text>
+                </TouchableOpacity>
+              )}
+            />
+            <Button
+              title="Cancel"
+              variant="outline"
+              onPress={() => setMergeSource(null)}
+              className="mt-4"
+            />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  )
+}
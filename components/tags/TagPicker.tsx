@@ -0,0 +1,53 @@
+import React from 'react'
+import { Text, TouchableOpacity, View } from 'react-native'
+import { useTags } from '@/contexts/TagsContext'
+
+interface TagPickerProps {
+  selectedIds: string[]
+  onChange: (tagIds: string[]) => void
+  disabled?: boolean
+}
+
+/**
+ * Toggle chips for every existing tag. New tags are created by admins on
+ * the tag management screen.
+ */
+export const TagPicker: React.FC<TagPickerProps> = ({ selectedIds, onChange, disabled }) => {
+  const { tags } = useTags()
+
+  if (tags.length === 0) return null
+
+  const toggle = (tagId: string) =>
+    onChange(
+      selectedIds.includes(tagId)
+        ? selectedIds.filter(id => id !== tagId)
+        : [...selectedIds, tagId]
+    )
+
+  return (
+    <View className="mt-4">
+      <Text className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">Tags</Text>
+      <View className="flex-row flex-wrap gap-2">
+        {tags.map(tag => {
+          const selected = selectedIds.includes(tag.id)
+          return (
+            <TouchableOpacity
+              key={tag.id}
+              className={`px-3 py-1.5 rounded-full border ${
+                selected
+                  ? 'bg-primary-500 border-primary-500'
+                  : 'bg-white border-gray-300 dark:bg-gray-800 dark:border-gray-600'
+              } ${disabled ? 'opacity-60' : ''}`}
+              onPress={() => toggle(tag.id)}
+              disabled={disabled}
+            >
+              <Text className={`text-xs font-medium ${selected ? 'text-white' : 'text-gray-700 dark:text-gray-200'}`}>
+                #{tag.name}
+              </Text>
+            </TouchableOpacity>
+          )
+        })}
+      </View>
+    </View>
+  )
+}
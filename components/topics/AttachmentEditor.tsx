@@ -0,0 +1,113 @@
+import React from 'react'
+import { Text, TouchableOpacity, View } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { PendingAttachment } from '@/types'
+import { attachmentKey, isLocalAttachment, removedFileIds } from '@/lib/attachments'
+import { FilePreview } from '../FilePreview'
+
+interface AttachmentEditorProps {
+  attachments: PendingAttachment[]
+  onChange: (attachments: PendingAttachment[]) => void
+  /** files stored before editing; removing one shows an undo notice */
+  initialFileIds?: string[]
+  disabled?: boolean
+}
+
+/**
+ * Ordered attachment list of a composer: each attachment can be moved or
+ * removed. Stored files are only deleted once the post is saved.
+ */
+export const AttachmentEditor: React.FC<AttachmentEditorProps> = ({
+  attachments,
+  onChange,
+  initialFileIds = [],
+  disabled = false,
+}) => {
+  const removed = removedFileIds(initialFileIds, attachments)
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= attachments.length) return
+    const next = [...attachments]
+    const [item] = next.splice(from, 1)
+    next.splice(to, 0, item)
+    onChange(next)
+  }
+
+  const remove = (index: number) => onChange(attachments.filter((_, position) => position !== index))
+
+  const restoreRemoved = () => onChange([...attachments, ...removed.map(fileId => ({ file_id: fileId }))])
+
+  return (
+    <View className="gap-3">
+      {attachments.map((attachment, index) => (
+        <View
+          key={attachmentKey(attachment)}
+          className="bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg p-3"
+        >
+          <View className="w-full mb-3">
+            {isLocalAttachment(attachment) ? (
+              <FilePreview localUri={attachment.local_uri} style={{ width: '100%', height: 200 }} />
+            ) : (
+              <FilePreview fileId={attachment.file_id} style={{ width: '100%', height: 200 }} />
+            )}
+          </View>
+
+          <View className="flex-row items-center justify-between">
+            <View className="flex-row items-center gap-4">
+              {attachments.length > 1 && (
+                <>
+                  <TouchableOpacity
+                    onPress={() => move(index, index - 1)}
+                    disabled={disabled || index === 0}
+                    className={index === 0 ? 'opacity-30' : ''}
+                  >
+                    <Ionicons name="arrow-up" size={20} color="#007AFF" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => move(index, index + 1)}
+                    disabled={disabled || index === attachments.length - 1}
+                    className={index === attachments.length - 1 ? 'opacity-30' : ''}
+                  >
+                    <Ionicons name="arrow-down" size={20} color="#007AFF" />
+                  </TouchableOpacity>
+                  <Text className="text-xs text-gray-500 dark:text-gray-400">
+                    {index + 1} of {attachments.length}
+                  </Text>
+                </>
+              )}
+            </View>
+
+            <TouchableOpacity
+              className="bg-red-500 py-2 px-3 rounded-md"
+              onPress={() => remove(index)}
+              disabled={disabled}
+            >
+              <Text className="text-white text-sm font-medium">✕ Remove</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+
+      {/* Stored files marked for removal */}
+      {removed.length > 0 && (
+        <View className="bg-red-50 border border-red-500 rounded-lg p-4">
+          <View className="flex-row items-center justify-between">
+            <Ionicons name="warning" size={20} color="#ff4757" />
+            <Text className="text-red-500 text-sm font-medium flex-1 ml-2">
+              {removed.length === 1
+                ? 'Attachment will be removed when you update'
+                : `${removed.length} attachments will be removed when you update`}
+            </Text>
+            <TouchableOpacity
+              className="bg-primary-500 py-1.5 px-3 rounded-md"
+              onPress={restoreRemoved}
+              disabled={disabled}
+            >
+              <Text className="text-white text-xs font-medium">Undo</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  )
+}
@@ -1,25 +1,57 @@
 import React from 'react'
-import { View, Text } from 'react-native'
+import { View, Text, TouchableOpacity } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
 import { Comment } from '@/types'
 import { formatDate } from '@/lib/utils'
-import { FilePreview } from '../FilePreview'
+import { MAX_INDENT_DEPTH } from '@/lib/commentThreads'
+import { displayedAttachments } from '@/lib/attachments'
+import { AttachmentGallery } from '../AttachmentGallery'
+import { AuthorBadge } from '../profile/AuthorBadge'
 import { CommentActions } from './CommentActions'
+import { EditedBadge } from './EditedBadge'
+import { ReactionBar } from './ReactionBar'
+import { SyncStatusBadge } from './SyncStatusBadge'
 
 interface CommentCardProps {
   comment: Comment
   onCommentUpdated: (c: Comment) => void
   onCommentDeleted: (id: string) => void
+  /** nesting level in the thread, 0 for top-level comments */
+  depth?: number
+  replyCount?: number
+  /** whether the replies below this comment are hidden */
+  collapsed?: boolean
+  /** briefly emphasized, e.g. when opened from a search result */
+  highlighted?: boolean
+  onReply?: (c: Comment) => void
+  /** omitted when none of the replies are loaded */
+  onToggleReplies?: (id: string) => void
 }
 
+const INDENT_PER_LEVEL = 16
+
 export const CommentCard: React.FC<CommentCardProps> = ({
   comment,
   onCommentUpdated,
   onCommentDeleted,
+  depth = 0,
+  replyCount = 0,
+  collapsed = false,
+  highlighted = false,
+  onReply,
+  onToggleReplies,
 }) => (
-  <View className="bg-white rounded-lg p-4 mb-3 shadow-sm border border-gray-200
-                   dark:bg-gray-800 dark:border-gray-700">
+  <View
+    className={`bg-white rounded-lg p-4 mb-3 shadow-sm border border-gray-200
+                dark:bg-gray-800 dark:border-gray-700 ${depth > 0 ? 'border-l-2 border-l-primary-500' : ''}
+                ${highlighted ? 'bg-yellow-50 border-yellow-400 dark:bg-gray-700' : ''}`}
+    style={{ marginLeft: Math.min(depth, MAX_INDENT_DEPTH) * INDENT_PER_LEVEL }}
+  >
     <View className="flex-row justify-between items-start gap-3">
       <View className="flex-1">
+        {comment.sync_status && (
+          <SyncStatusBadge targetId={comment.id} status={comment.sync_status} />
+        )}
         <Text className="text-sm text-gray-600 dark:text-gray-300 leading-5 mb-3">
           {comment.content}
         </Text>
@@ -32,19 +64,69 @@ export const CommentCard: React.FC<CommentCardProps> = ({
       />
     </View>
 
-    {comment.file_id && (
+    {displayedAttachments(comment).length > 0 && (
       <View className="my-3">
-        <FilePreview fileId={comment.file_id} />
+        <AttachmentGallery attachments={displayedAttachments(comment)} />
       </View>
     )}
 
+    <View className="mb-3">
+      <ReactionBar
+        targetType="comment"
+        targetId={comment.id}
+        counts={comment.reaction_counts}
+        disabled={!!comment.sync_status}
+      />
+    </View>
+
     <View className="flex-row justify-between items-center">
-      <Text className="text-xs text-primary-500 font-medium">
-        {comment.author_name}
-      </Text>
-      <Text className="text-xs text-gray-400 dark:text-gray-500">
-        {formatDate(comment.created_at)}
-      </Text>
+      <AuthorBadge userId={comment.user_id} authorName={comment.author_name} />
+      <View className="flex-row items-center gap-2">
+        <EditedBadge kind="comment" row={comment} />
+        <Text className="text-xs text-gray-400 dark:text-gray-500">
+          {formatDate(comment.created_at)}
+        </Text>
+      </View>
     </View>
+
+    {(onReply || replyCount > 0) && (
+      <View className="flex-row items-center gap-4 mt-3">
+        {/* Replies attach to the server row, so wait until this one has synced */}
+        {onReply && !comment.sync_status && (
+          <TouchableOpacity
+            className="flex-row items-center"
+            onPress={() => onReply(comment)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="arrow-undo-outline" size={14} color="#007AFF" />
+            <Text className="ml-1 text-xs text-primary-500 font-medium">Reply</Text>
+          </TouchableOpacity>
+        )}
+
+        {replyCount > 0 && onToggleReplies && (
+          <TouchableOpacity
+            className="flex-row items-center"
+            onPress={() => onToggleReplies(comment.id)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons
+              name={collapsed ? 'chevron-forward' : 'chevron-down'}
+              size={14}
+              color="#6b7280"
+            />
+            <Text className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+              {collapsed ? 'Show' : 'Hide'} {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Replies outside the loaded pages can only be counted */}
+        {replyCount > 0 && !onToggleReplies && (
+          <Text className="text-xs text-gray-500 dark:text-gray-400">
+            {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+          </Text>
+        )}
+      </View>
+    )}
   </View>
 )
@@ -0,0 +1,24 @@
+import React from 'react'
+import { Text, View } from 'react-native'
+import { useRealtimeStatus } from '@/contexts/RealtimeContext'
+
+const STATUS_STYLES = {
+  live: { dot: 'bg-green-500', label: 'Live' },
+  reconnecting: { dot: 'bg-yellow-500', label: 'Reconnecting…' },
+  offline: { dot: 'bg-gray-400', label: 'Offline' },
+} as const
+
+/**
+ * Small indicator of the realtime connection state
+ */
+export const ConnectionStatus: React.FC = () => {
+  const status = useRealtimeStatus()
+  const { dot, label } = STATUS_STYLES[status]
+
+  return (
+    <View className="flex-row items-center gap-1" accessibilityLabel={`Updates: ${label}`}>
+      <View className={`w-2 h-2 rounded-full ${dot}`} />
+      <Text className="text-xs text-gray-500 dark:text-gray-400">{label}</Text>
+    </View>
+  )
+}
@@ -1,12 +1,19 @@
-import { FilePreview } from '@/components/FilePreview'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
 import { MediaPickerSelector } from '@/components/ui/MediaPickerSelector'
+import { Deletion } from '@/constants/Deletion'
 import { useAuth } from '@/contexts/AuthContext'
-import { db, files, storage } from '@/services/selfdb'
-import { Comment } from '@/types'
+import { useSnackbar } from '@/contexts/SnackbarContext'
+import { useAttachmentUploads } from '@/hooks/useAttachmentUploads'
+import { useComposerDraft } from '@/hooks/useComposerDraft'
+import { useProfile } from '@/hooks/useProfile'
+import { attachmentFileIds, attachmentsChanged, MAX_ATTACHMENTS } from '@/lib/attachments'
+import { authorDisplayName, MEMBER_AUTHOR_NAME } from '@/lib/profiles'
+import { CanceledError, NetworkError } from '@/services/errors'
+import { MutationService } from '@/services/mutationService'
+import { Comment, ComposerDraft, PendingAttachment } from '@/types'
 import { Ionicons } from '@expo/vector-icons'
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
 import {
   ActivityIndicator,
   Alert,
@@ -18,9 +25,13 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native'
+import { AttachmentEditor } from './AttachmentEditor'
+import { UploadProgressList } from './UploadProgressList'
 
 interface CreateCommentProps {
   topicId: string
+  /** comment being replied to, when posting a threaded reply */
+  parentComment?: Comment
   onCommentCreated: (comment: Comment) => void
   onCancel: () => void
   initialComment?: Comment
@@ -31,6 +42,7 @@ interface CreateCommentProps {
 
 export const CreateComment: React.FC<CreateCommentProps> = ({ 
   topicId,
+  parentComment,
   onCommentCreated, 
   onCancel,
   initialComment,
@@ -39,23 +51,50 @@ export const CreateComment: React.FC<CreateCommentProps> = ({
   onCommentUpdated
 }) => {
   const { user, isAuthenticated } = useAuth()
+  const snackbar = useSnackbar()
   const [content, setContent] = useState('')
   const [authorName, setAuthorName] = useState('')
   const [loading, setLoading] = useState(false)
-  const [selectedFile, setSelectedFile] = useState<string | null>(null)
-  const [uploadedFileId, setUploadedFileId] = useState<string | null>(null)
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([])
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
-  const [removeCurrentFile, setRemoveCurrentFile] = useState(false)
+  const { uploads, uploadAll, resolveUploaded, cancel: cancelUpload, markPosted } = useAttachmentUploads()
   const isEditMode = !!initialComment
+  const parentAuthor = useProfile(parentComment?.user_id)
+  // Comment the form was filled from; a replaced row of the same comment,
+  // e.g. after a reaction or sync, must not wipe an edit in progress
+  const seededCommentId = useRef<string | null>(null)
 
   useEffect(() => {
-    if (initialComment) {
+    if (initialComment && seededCommentId.current !== initialComment.id) {
+      seededCommentId.current = initialComment.id
       setContent(initialComment.content)
       setAuthorName(initialComment.author_name)
-      setUploadedFileId(initialComment.file_id || null)
+      setAttachments(attachmentFileIds(initialComment).map(fileId => ({ file_id: fileId })))
     }
   }, [initialComment])
 
+  const draft = useMemo<ComposerDraft | null>(() => {
+    const changed = initialComment
+      ? content !== initialComment.content ||
+        attachmentsChanged(attachmentFileIds(initialComment), attachments)
+      : !!(content.trim() || attachments.length > 0)
+    return changed ? { content, author_name: authorName, attachments } : null
+  }, [initialComment, content, authorName, attachments])
+
+  const draftKey = initialComment
+    ? `comment:${initialComment.id}`
+    : `comment:new:${topicId}:${parentComment?.id ?? 'root'}`
+  const { clear: clearDraft } = useComposerDraft(draftKey, draft, restored => {
+    setContent(restored.content)
+    setAuthorName(restored.author_name ?? '')
+    setAttachments(restored.attachments)
+  })
+
+  const handleCancel = () => {
+    clearDraft()
+    onCancel()
+  }
+
   const handleSubmit = async () => {
     if (!content.trim()) {
       Alert.alert('Error', 'Please enter a comment')
@@ -70,111 +109,80 @@ export const CreateComment: React.FC<CreateCommentProps> = ({
     setLoading(true)
 
     try {
-      let fileId = uploadedFileId
-
-      // Upload new file if one is selected but not yet uploaded
-      if (selectedFile && !uploadedFileId) {
-        try {
-          // Create a File object from the URI
-          const fileInfo = await fetch(selectedFile)
-          const blob = await fileInfo.blob()
-          const fileName = selectedFile.split('/').pop() || 'file'
-          
-          const file = new File([blob], fileName, {
-            type: blob.type || 'application/octet-stream'
-          })
-          
-          const uploadResult = await storage.upload('discussion', file)
-          fileId = uploadResult.file.id.toString()
-        } catch (uploadError) {
-          console.error('Failed to upload file:', uploadError)
-          Alert.alert('Error', 'Failed to upload file. Please try again.')
-          setLoading(false)
+      // Newly picked files are uploaded first, with progress; offline, the
+      // ones left are uploaded by the queued mutation
+      let stored = attachments
+      try {
+        stored = await uploadAll(attachments)
+      } catch (error) {
+        if (error instanceof CanceledError) return
+        if (!(error instanceof NetworkError)) {
+          console.error('Failed to upload attachments:', error)
+          Alert.alert('Upload failed', error instanceof Error ? error.message : 'Failed to upload attachments.', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Retry', onPress: handleSubmit },
+          ])
           return
         }
+        stored = resolveUploaded(attachments)
       }
 
+      let queued = false
+
       if (isEditMode && initialComment) {
         // Update comment
-        let finalFileId = fileId
-
-        // Handle file removal if user marked current file for removal
-        if (removeCurrentFile && !selectedFile) {
-          finalFileId = null
-        }
+        const attachmentsEdited = attachmentsChanged(attachmentFileIds(initialComment), attachments)
 
-        const updatedCommentData = {
+        const changes = {
           content: content.trim(),
-          file_id: finalFileId
         }
 
-        try {
-          await db
-            .from('comments')
-            .where('id', initialComment.id)
-            .update(updatedCommentData)
-
-          // Delete old file only after successful update and if we're replacing with a new file OR removing it
-          if (initialComment.file_id && (
-            (selectedFile && fileId !== initialComment.file_id) || // Replacing with new file
-            (removeCurrentFile && !selectedFile) // Removing current file
-          )) {
-            try {
-              await files.deleteFile(initialComment.file_id)
-            } catch (deleteError) {
-              console.warn('Could not delete old file:', deleteError)
-              // Continue even if old file deletion fails
-            }
-          }
-
-          const updatedComment: Comment = {
-            ...initialComment,
-            ...updatedCommentData,
-            file_id: updatedCommentData.file_id || undefined
-          }
+        const result = await MutationService.updateComment(
+          initialComment,
+          changes,
+          attachmentsEdited ? stored : undefined
+        )
+        queued = result.queued
+        markPosted(attachmentsEdited ? stored : [])
 
-          onCommentCreated(updatedComment)
-          
-          // Call onCommentUpdated to trigger refetch in parent component  
-          if (onCommentUpdated) {
-            onCommentUpdated()
-          }
-          
-          if (onEditComplete) {
-            onEditComplete()
-          }
-        } catch (updateError) {
-          console.error('Failed to update comment in database:', updateError)
-          throw new Error('Database update failed')
+        onCommentCreated(result.value)
+        
+        // Call onCommentUpdated to trigger refetch in parent component  
+        if (onCommentUpdated) {
+          onCommentUpdated()
+        }
+        
+        if (onEditComplete) {
+          onEditComplete()
         }
       } else {
         // Create new comment
         const commentData = {
           topic_id: topicId,
+          parent_id: parentComment?.id,
           content: content.trim(),
-          author_name: isAuthenticated ? user!.email : authorName.trim(),
+          author_name: isAuthenticated ? MEMBER_AUTHOR_NAME : authorName.trim(),
           user_id: isAuthenticated ? user!.id : undefined,
-          file_id: fileId || null
         }
 
         console.log('Creating comment with data:', commentData)
-        try {
-          const newComment = await db.from('comments').insert(commentData) as unknown as Comment
-          console.log('Comment created:', newComment)
-          
-          onCommentCreated(newComment)
-        } catch (createError) {
-          console.error('Failed to create comment in database:', createError)
-          throw new Error('Failed to create comment')
-        }
+        const result = await MutationService.createComment(commentData, stored)
+        queued = result.queued
+        markPosted(stored)
+        console.log('Comment created:', result.value)
+        
+        onCommentCreated(result.value)
+      }
+
+      if (queued) {
+        Alert.alert('Saved offline', `Your comment will be ${isEditMode ? 'updated' : 'posted'} when you are back online.`)
       }
       
       // Reset form
+      await clearDraft()
       setContent('')
       setAuthorName('')
-      setSelectedFile(null)
-      setUploadedFileId(null)
-      setRemoveCurrentFile(false)
+      setAttachments([])
       onCancel()
     } catch (error) {
       console.error(`Failed to ${isEditMode ? 'update' : 'create'} comment:`, error)
@@ -184,39 +192,21 @@ export const CreateComment: React.FC<CreateCommentProps> = ({
     }
   }
 
-  const removeFile = () => {
-    setSelectedFile(null)
-    setUploadedFileId(null)
-  }
-
-  const handleRemoveCurrentFile = () => {
-    setRemoveCurrentFile(true)
-    setUploadedFileId(null)
-  }
-
   const handleDeleteComment = async () => {
     if (!initialComment) return
 
     try {
       setLoading(true)
 
-      // Delete attached file if it exists
-      if (initialComment.file_id) {
-        try {
-          await files.deleteFile(initialComment.file_id)
-        } catch (deleteError) {
-          console.warn('Could not delete comment file:', deleteError)
-          // Continue with comment deletion even if file deletion fails
-        }
-      }
-
-      // Delete comment using query builder API
-      await db
-        .from('comments')
-        .where('id', initialComment.id)
-        .delete()
+      // Moves the comment to the recently deleted list; its attachments stay until it is purged
+      const { queued, value: deleted } = await MutationService.deleteComment(initialComment)
 
-      Alert.alert('Success', 'Comment deleted successfully')
+      snackbar.show({
+        message: queued ? 'Comment will be deleted when you are back online' : 'Comment deleted',
+        actionLabel: 'Undo',
+        onAction: () => handleUndoDelete(deleted),
+        duration: Deletion.undoSeconds,
+      })
 
       // Call onCommentDeleted to update parent component
       if (onCommentDeleted) {
@@ -234,6 +224,15 @@ export const CreateComment: React.FC<CreateCommentProps> = ({
     }
   }
 
+  const handleUndoDelete = async (deleted: Comment) => {
+    try {
+      await MutationService.restoreComment(deleted)
+    } catch (error) {
+      console.error('Failed to restore comment:', error)
+      Alert.alert('Error', 'Failed to restore comment. You can still restore it from Recently deleted.')
+    }
+  }
+
   return (
     <KeyboardAvoidingView
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -244,14 +243,14 @@ export const CreateComment: React.FC<CreateCommentProps> = ({
           <View className="flex-row justify-between items-center mb-5">
             <TouchableOpacity
               className="p-2 rounded-md bg-gray-50 dark:bg-gray-800"
-              onPress={onCancel}
+              onPress={handleCancel}
               disabled={loading}
             >
               <Ionicons name="close" size={24} color="#007AFF" />
             </TouchableOpacity>
 
             <Text className="text-2xl font-bold text-gray-800 dark:text-gray-100 text-center">
-              {isEditMode ? 'Edit Comment' : 'Add Comment'}
+              {isEditMode ? 'Edit Comment' : parentComment ? 'Reply' : 'Add Comment'}
             </Text>
 
             <TouchableOpacity
@@ -263,10 +262,22 @@ export const CreateComment: React.FC<CreateCommentProps> = ({
             </TouchableOpacity>
           </View>
           
+          {/* Comment being replied to */}
+          {parentComment && !isEditMode && (
+            <View className="border-l-2 border-primary-500 pl-3 mb-4">
+              <Text className="text-xs text-primary-500 font-medium mb-1">
+                Replying to {authorDisplayName(parentAuthor, parentComment.author_name)}
+              </Text>
+              <Text className="text-sm text-gray-600 dark:text-gray-300" numberOfLines={3}>
+                {parentComment.content}
+              </Text>
+            </View>
+          )}
+
           <View className="mb-8">
             <Input
               className="h-30 pt-3"
-              placeholder="Write your comment..."
+              placeholder={parentComment && !isEditMode ? 'Write your reply...' : 'Write your comment...'}
               placeholderTextColor="#666"
               value={content}
               onChangeText={setContent}
@@ -289,73 +300,33 @@ export const CreateComment: React.FC<CreateCommentProps> = ({
               />
             )}
 
-            {/* File Upload Section */}
-            <View className="mt-4">
-              {selectedFile && (
-                <View className="bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg p-3 items-center">
-                  <View className="w-full mb-3">
-                    <FilePreview 
-                      localUri={selectedFile}
-                      style={{ width: '100%', height: 250 }}
-                    />
-                  </View>
-                  <TouchableOpacity
-                    className="bg-red-500 py-2 px-3 rounded-md"
-                    onPress={removeFile}
-                  >
-                    <Text className="text-white text-sm font-medium">✕ Remove</Text>
-                  </TouchableOpacity>
-                </View>
-              )}
-              
-              {/* Show current file if editing and no new file selected */}
-              {isEditMode && initialComment?.file_id && !selectedFile && !removeCurrentFile && (
-                <View className="bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg p-3 mt-3">
-                  <View className="w-full mb-3">
-                    <FilePreview 
-                      fileId={initialComment.file_id} 
-                      style={{ width: '100%', height: 250 }}
-                    />
-                  </View>
-                  <TouchableOpacity
-                    className="bg-red-500 py-2 px-3 rounded-md"
-                    onPress={handleRemoveCurrentFile}
-                    disabled={loading}
-                  >
-                    <Text className="text-white text-sm font-medium">✕ Remove</Text>
-                  </TouchableOpacity>
-                </View>
-              )}
+            {/* Attachments, in display order; stays visible while removals can be undone */}
+            {(attachments.length > 0 || (initialComment && attachmentFileIds(initialComment).length > 0)) && (
+              <View className="mt-4">
+                <AttachmentEditor
+                  attachments={attachments}
+                  onChange={setAttachments}
+                  initialFileIds={initialComment ? attachmentFileIds(initialComment) : undefined}
+                  disabled={loading}
+                />
+              </View>
+            )}
 
-              {/* Show removal notice if file is marked for removal */}
-              {isEditMode && initialComment?.file_id && !selectedFile && removeCurrentFile && (
-                <View className="bg-red-50 border border-red-500 rounded-lg p-4 mt-3">
-                  <View className="flex-row items-center justify-between">
-                    <Ionicons name="warning" size={20} color="#ff4757" />
-                    <Text className="text-red-500 text-sm font-medium flex-1 ml-2">
-                      Attachment will be removed when you update
-                    </Text>
-                    <TouchableOpacity
-                      className="bg-primary-500 py-1.5 px-3 rounded-md"
-                      onPress={() => setRemoveCurrentFile(false)}
-                      disabled={loading}
-                    >
-                      <Text className="text-white text-xs font-medium">Undo</Text>
-                    </TouchableOpacity>
-                  </View>
-                </View>
-              )}
-            </View>
+            {uploads.length > 0 && (
+              <View className="mt-4">
+                <UploadProgressList uploads={uploads} onCancel={cancelUpload} />
+              </View>
+            )}
           </View>
           
           <View className="flex-row justify-between gap-4">
             <View className="flex-1">
               <MediaPickerSelector
-                onFileSelected={(uri) => {
-                  setSelectedFile(uri)
-                  setUploadedFileId(null)
-                }}
-                disabled={loading}
+                onFilesSelected={(uris) =>
+                  setAttachments(current => [...current, ...uris.map(uri => ({ local_uri: uri }))])
+                }
+                maxFiles={MAX_ATTACHMENTS - attachments.length}
+                disabled={loading || attachments.length >= MAX_ATTACHMENTS}
               />
             </View>
             
@@ -390,7 +361,7 @@ export const CreateComment: React.FC<CreateCommentProps> = ({
                 Delete Comment?
               </Text>
               <Text className="text-sm text-gray-600 dark:text-gray-300 text-center mb-5 leading-5">
-                This action cannot be undone. This will permanently delete this comment.
+                The comment will be hidden. You can restore it from Recently deleted for {Deletion.retentionDays} days.
               </Text>
               <View className="flex-row gap-3">
                 <Button
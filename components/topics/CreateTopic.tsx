@@ -1,13 +1,21 @@
-import { FilePreview } from '@/components/FilePreview'
+import { getCachedMediaType, getMediaTypeFromUrl } from '@/components/FilePreview'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
 import { MediaPickerSelector } from '@/components/ui/MediaPickerSelector'
+import { TagPicker } from '@/components/tags/TagPicker'
+import { Deletion } from '@/constants/Deletion'
 import { useAuth } from '@/contexts/AuthContext'
-import { db, files, storage } from '@/services/selfdb'
-import { Topic } from '@/types'
+import { useSnackbar } from '@/contexts/SnackbarContext'
+import { useAttachmentUploads } from '@/hooks/useAttachmentUploads'
+import { useComposerDraft } from '@/hooks/useComposerDraft'
+import { attachmentFileIds, attachmentsChanged, isLocalAttachment, MAX_ATTACHMENTS } from '@/lib/attachments'
+import { MEMBER_AUTHOR_NAME } from '@/lib/profiles'
+import { CanceledError, NetworkError } from '@/services/errors'
+import { MutationService } from '@/services/mutationService'
+import { AttachmentType, ComposerDraft, PendingAttachment, Topic } from '@/types'
 import { Ionicons } from '@expo/vector-icons'
 import { router } from 'expo-router'
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
 import {
   ActivityIndicator,
   Alert,
@@ -19,6 +27,24 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native'
+import { AttachmentEditor } from './AttachmentEditor'
+import { UploadProgressList } from './UploadProgressList'
+
+/**
+ * Media type stored for the feed filters: the kind of the first attachment.
+ * A stored file whose metadata isn't cached keeps the topic's current type
+ * if it was already first, and counts as 'other' otherwise.
+ */
+function firstAttachmentType(attachments: PendingAttachment[], topic?: Topic): AttachmentType {
+  const [first] = attachments
+  if (!first) return 'none'
+  if (isLocalAttachment(first)) return getMediaTypeFromUrl(first.local_uri)
+  const cached = getCachedMediaType(first.file_id)
+  if (cached) return cached
+  return topic && attachmentFileIds(topic)[0] === first.file_id && topic.media_type
+    ? topic.media_type
+    : 'other'
+}
 
 interface CreateTopicProps {
   onTopicCreated: (topic: Topic) => void
@@ -40,25 +66,53 @@ export const CreateTopic: React.FC<CreateTopicProps> = ({
   onTopicUpdated
 }) => {
   const { user, isAuthenticated } = useAuth()
+  const snackbar = useSnackbar()
   const [title, setTitle] = useState('')
   const [content, setContent] = useState('')
   const [authorName, setAuthorName] = useState('')
   const [loading, setLoading] = useState(false)
-  const [selectedFile, setSelectedFile] = useState<string | null>(null)
-  const [uploadedFileId, setUploadedFileId] = useState<string | null>(null)
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([])
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
-  const [removeCurrentFile, setRemoveCurrentFile] = useState(false)
+  const [tagIds, setTagIds] = useState<string[]>([])
+  const { uploads, uploadAll, resolveUploaded, cancel: cancelUpload, markPosted } = useAttachmentUploads()
   const isEditMode = !!initialTopic
+  // Topic the form was filled from. The topic row is replaced on every new
+  // comment, reaction or sync, which must not wipe an edit in progress.
+  const seededTopicId = useRef<string | null>(null)
 
   useEffect(() => {
-    if (initialTopic) {
+    if (initialTopic && seededTopicId.current !== initialTopic.id) {
+      seededTopicId.current = initialTopic.id
       setTitle(initialTopic.title)
       setContent(initialTopic.content)
       setAuthorName(initialTopic.author_name)
-      setUploadedFileId(initialTopic.file_id || null)
+      setAttachments(attachmentFileIds(initialTopic).map(fileId => ({ file_id: fileId })))
+      setTagIds(initialTopic.tag_ids ?? [])
     }
   }, [initialTopic])
 
+  const draft = useMemo<ComposerDraft | null>(() => {
+    const changed = initialTopic
+      ? title !== initialTopic.title ||
+        content !== initialTopic.content ||
+        attachmentsChanged(attachmentFileIds(initialTopic), attachments)
+      : !!(title.trim() || content.trim() || attachments.length > 0)
+    return changed ? { title, content, author_name: authorName, attachments, tag_ids: tagIds } : null
+  }, [initialTopic, title, content, authorName, attachments, tagIds])
+
+  const { clear: clearDraft } = useComposerDraft(`topic:${initialTopic?.id ?? 'new'}`, draft, restored => {
+    setTitle(restored.title ?? '')
+    setContent(restored.content)
+    setAuthorName(restored.author_name ?? '')
+    setAttachments(restored.attachments)
+    setTagIds(restored.tag_ids ?? [])
+  })
+
+  const handleCancel = () => {
+    clearDraft()
+    onCancel()
+  }
+
   const handleSubmit = async () => {
     if (!title.trim()) {
       Alert.alert('Error', 'Please enter a title')
@@ -78,113 +132,91 @@ export const CreateTopic: React.FC<CreateTopicProps> = ({
     setLoading(true)
 
     try {
-      let fileId = uploadedFileId
-
-      // Upload new file if one is selected but not yet uploaded
-      if (selectedFile && !uploadedFileId) {
-        try {
-          // Create a File object from the URI
-          const fileInfo = await fetch(selectedFile)
-          const blob = await fileInfo.blob()
-          const fileName = selectedFile.split('/').pop() || 'file'
-          
-          const file = new File([blob], fileName, {
-            type: blob.type || 'application/octet-stream'
-          })
-          
-          const uploadResult = await storage.upload('discussion', file)
-          fileId = uploadResult.file.id.toString()
-        } catch (uploadError) {
-          console.error('Failed to upload file:', uploadError)
-          Alert.alert('Error', 'Failed to upload file. Please try again.')
-          setLoading(false)
+      // Newly picked files are uploaded first, with progress; offline, the
+      // ones left are uploaded by the queued mutation
+      let stored = attachments
+      try {
+        stored = await uploadAll(attachments)
+      } catch (error) {
+        if (error instanceof CanceledError) return
+        if (!(error instanceof NetworkError)) {
+          console.error('Failed to upload attachments:', error)
+          Alert.alert('Upload failed', error instanceof Error ? error.message : 'Failed to upload attachments.', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Retry', onPress: handleSubmit },
+          ])
           return
         }
+        stored = resolveUploaded(attachments)
       }
 
+      let queued = false
+
       if (isEditMode && initialTopic) {
         // Update topic
-        let finalFileId = fileId
-
-        // Handle file removal if user marked current file for removal
-        if (removeCurrentFile && !selectedFile) {
-          finalFileId = null
-        }
+        const attachmentsEdited = attachmentsChanged(attachmentFileIds(initialTopic), attachments)
 
-        const updatedTopicData = {
+        const changes = {
           title: title.trim(),
           content: content.trim(),
-          file_id: finalFileId
+          // Kept in step with the attachments so the feed can filter on it
+          media_type: attachmentsEdited ? firstAttachmentType(attachments, initialTopic) : undefined,
         }
 
-        try {
-          await db
-            .from('topics')
-            .where('id', initialTopic.id)
-            .update(updatedTopicData)
-
-          // Delete old file only after successful update and if we're replacing with a new file OR removing it
-          if (initialTopic.file_id && (
-            (selectedFile && fileId !== initialTopic.file_id) || // Replacing with new file
-            (removeCurrentFile && !selectedFile) // Removing current file
-          )) {
-            try {
-              await files.deleteFile(initialTopic.file_id)
-            } catch (deleteError) {
-              console.warn('Could not delete old file:', deleteError)
-              // Continue even if old file deletion fails
-            }
-          }
-
-          const updatedTopic: Topic = {
-            ...initialTopic,
-            ...updatedTopicData,
-            file_id: updatedTopicData.file_id || undefined
-          }
-
-          onTopicCreated(updatedTopic)
-          
-          // Call onTopicUpdated to trigger refetch in parent component  
-          if (onTopicUpdated) {
-            onTopicUpdated()
-          }
-          
-          if (onEditComplete) {
-            onEditComplete()
-          }
-        } catch (updateError) {
-          console.error('Failed to update topic in database:', updateError)
-          throw new Error('Database update failed')
+        // Only rewrite the tag links when the selection changed
+        const currentTagIds = initialTopic.tag_ids ?? []
+        const tagsChanged = tagIds.length !== currentTagIds.length ||
+          tagIds.some(id => !currentTagIds.includes(id))
+
+        const result = await MutationService.updateTopic(
+          initialTopic,
+          changes,
+          attachmentsEdited ? stored : undefined,
+          tagsChanged ? tagIds : undefined
+        )
+        queued = result.queued
+        markPosted(attachmentsEdited ? stored : [])
+
+        onTopicCreated(result.value)
+        
+        // Call onTopicUpdated to trigger refetch in parent component  
+        if (onTopicUpdated) {
+          onTopicUpdated()
+        }
+        
+        if (onEditComplete) {
+          onEditComplete()
         }
       } else {
         // Create new topic
         const topicData = {
           title: title.trim(),
           content: content.trim(),
-          author_name: isAuthenticated ? user!.email : authorName.trim(),
+          author_name: isAuthenticated ? MEMBER_AUTHOR_NAME : authorName.trim(),
           user_id: isAuthenticated ? user!.id : undefined,
-          file_id: fileId || null
+          media_type: firstAttachmentType(attachments)
         }
 
         console.log('Creating topic with data:', topicData)
-        try {
-          const newTopic = await db.from('topics').insert(topicData) as unknown as Topic
-          console.log('Topic created:', newTopic)
-          
-          onTopicCreated(newTopic)
-        } catch (createError) {
-          console.error('Failed to create topic in database:', createError)
-          throw new Error('Failed to create topic')
-        }
+        const result = await MutationService.createTopic(topicData, stored, tagIds)
+        queued = result.queued
+        markPosted(stored)
+        console.log('Topic created:', result.value)
+        
+        onTopicCreated(result.value)
+      }
+
+      if (queued) {
+        Alert.alert('Saved offline', `Your topic will be ${isEditMode ? 'updated' : 'posted'} when you are back online.`)
       }
       
       // Reset form
+      await clearDraft()
       setTitle('')
       setContent('')
       setAuthorName('')
-      setSelectedFile(null)
-      setUploadedFileId(null)
-      setRemoveCurrentFile(false)
+      setAttachments([])
+      setTagIds([])
       onCancel()
     } catch (error) {
       console.error(`Failed to ${isEditMode ? 'update' : 'create'} topic:`, error)
@@ -194,75 +226,21 @@ export const CreateTopic: React.FC<CreateTopicProps> = ({
     }
   }
 
-  const removeFile = () => {
-    setSelectedFile(null)
-    setUploadedFileId(null)
-  }
-
-  const handleRemoveCurrentFile = () => {
-    setRemoveCurrentFile(true)
-    setUploadedFileId(null)
-  }
-
   const handleDeleteTopic = async () => {
     if (!initialTopic) return
 
     try {
       setLoading(true)
 
-      // Delete attached file if it exists
-      if (initialTopic.file_id) {
-        try {
-          await files.deleteFile(initialTopic.file_id)
-        } catch (deleteError) {
-          console.warn('Could not delete topic file:', deleteError)
-          // Continue with topic deletion even if file deletion fails
-        }
-      }
-
-      // Delete all comments associated with this topic one by one
-      try {
-        // First, fetch all comments for this topic
-        const comments = await db
-          .from('comments')
-          .where('topic_id', initialTopic.id)
-          .execute()
-
-        // Delete each comment individually
-        for (const comment of comments) {
-          try {
-            // Delete comment's file if it exists
-            if (comment.file_id && typeof comment.file_id === 'string') {
-              try {
-                await files.deleteFile(comment.file_id)
-              } catch (fileDeleteError) {
-                console.warn(`Could not delete file for comment ${comment.id}:`, fileDeleteError)
-                // Continue with comment deletion even if file deletion fails
-              }
-            }
-
-            // Delete the comment
-            await db
-              .from('comments')
-              .where('id', comment.id)
-              .delete()
-          } catch (commentDeleteError) {
-            console.warn(`Could not delete comment ${comment.id}:`, commentDeleteError)
-            // Continue deleting other comments even if one fails
-          }
-        }
-      } catch (commentsError) {
-        console.warn('Could not fetch or delete topic comments:', commentsError)
-        // Continue with topic deletion even if comments deletion fails
-      }
-
-      // Delete the topic itself
-      await db
-        .from('topics')
-        .where('id', initialTopic.id)
-        .delete()
+      // Moves the topic to the recently deleted list; comments and files stay until it is purged
+      const { queued, value: deleted } = await MutationService.deleteTopic(initialTopic)
 
-      Alert.alert('Success', 'Topic deleted successfully')
+      snackbar.show({
+        message: queued ? 'Topic will be deleted when you are back online' : 'Topic deleted',
+        actionLabel: 'Undo',
+        onAction: () => handleUndoDelete(deleted),
+        duration: Deletion.undoSeconds,
+      })
 
       // Call onTopicDeleted to trigger refetch in parent component
       if (onTopicDeleted) {
@@ -286,6 +264,15 @@ export const CreateTopic: React.FC<CreateTopicProps> = ({
     }
   }
 
+  const handleUndoDelete = async (deleted: Topic) => {
+    try {
+      await MutationService.restoreTopic(deleted)
+    } catch (error) {
+      console.error('Failed to restore topic:', error)
+      Alert.alert('Error', 'Failed to restore topic. You can still restore it from Recently deleted.')
+    }
+  }
+
   return (
     <KeyboardAvoidingView
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -296,7 +283,7 @@ export const CreateTopic: React.FC<CreateTopicProps> = ({
           <View className="flex-row justify-between items-center mb-5">
             <TouchableOpacity
               className="p-2 rounded-md bg-gray-50 dark:bg-gray-800"
-              onPress={onCancel}
+              onPress={handleCancel}
               disabled={loading}>
               <Ionicons name="close" size={24} color="#007AFF" />
             </TouchableOpacity>
@@ -342,6 +329,8 @@ export const CreateTopic: React.FC<CreateTopicProps> = ({
               returnKeyType="default"
             />
             
+            <TagPicker selectedIds={tagIds} onChange={setTagIds} disabled={loading} />
+
             {!isAuthenticated && !isEditMode && (
               <Input
                 className="mt-4"
@@ -352,74 +341,33 @@ export const CreateTopic: React.FC<CreateTopicProps> = ({
               />
             )}
 
-          {/* File Upload Section */}
-          <View className="mt-4">
-
-              {selectedFile && (
-                <View className="bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg p-3 items-center">
-                  <View className="w-full mb-3">
-                    <FilePreview 
-                      localUri={selectedFile}
-                      style={{ width: '100%', height: 250 }}
-                    />
-                  </View>
-                  <TouchableOpacity
-                    className="bg-red-500 py-2 px-3 rounded-md"
-                    onPress={removeFile}
-                  >
-                    <Text className="text-white text-sm font-medium">✕ Remove</Text>
-                  </TouchableOpacity>
-                </View>
-              )}
-              
-              {/* Show current file if editing and no new file selected */}
-              {isEditMode && initialTopic?.file_id && !selectedFile && !removeCurrentFile && (
-                <View className="bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg p-3 mt-3">
-                  <View className="w-full mb-3">
-                    <FilePreview 
-                      fileId={initialTopic.file_id}
-                      style={{ width: '100%', height: 250 }}
-                    />
-                  </View>
-                  <TouchableOpacity
-                    className="bg-red-500 py-2 px-3 rounded-md"
-                    onPress={handleRemoveCurrentFile}
-                    disabled={loading}
-                  >
-                    <Text className="text-white text-sm font-medium">✕ Remove</Text>
-                  </TouchableOpacity>
-                </View>
-              )}
+            {/* Attachments, in display order; stays visible while removals can be undone */}
+            {(attachments.length > 0 || (initialTopic && attachmentFileIds(initialTopic).length > 0)) && (
+              <View className="mt-4">
+                <AttachmentEditor
+                  attachments={attachments}
+                  onChange={setAttachments}
+                  initialFileIds={initialTopic ? attachmentFileIds(initialTopic) : undefined}
+                  disabled={loading}
+                />
+              </View>
+            )}
 
-              {/* Show removal notice if file is marked for removal */}
-              {isEditMode && initialTopic?.file_id && !selectedFile && removeCurrentFile && (
-                <View className="bg-red-50 border border-red-500 rounded-lg p-4 mt-3">
-                  <View className="flex-row items-center justify-between">
-                    <Ionicons name="warning" size={20} color="#ff4757" />
-                    <Text className="text-red-500 text-sm font-medium flex-1 ml-2">
-                      Attachment will be removed when you update
-                    </Text>
-                    <TouchableOpacity
-                      className="bg-primary-500 py-1.5 px-3 rounded-md"
-                      onPress={() => setRemoveCurrentFile(false)}
-                      disabled={loading}
-                    >
-                      <Text className="text-white text-xs font-medium">Undo</Text>
-                    </TouchableOpacity>
-                  </View>
-                </View>
-              )}
-            </View>
+            {uploads.length > 0 && (
+              <View className="mt-4">
+                <UploadProgressList uploads={uploads} onCancel={cancelUpload} />
+              </View>
+            )}
           </View>
           
           <View className="flex-row justify-between gap-4">
             <View className="flex-1">
               <MediaPickerSelector
-                onFileSelected={(uri) => {
-                  setSelectedFile(uri)
-                  setUploadedFileId(null)
-                }}
-                disabled={loading}
+                onFilesSelected={(uris) =>
+                  setAttachments(current => [...current, ...uris.map(uri => ({ local_uri: uri }))])
+                }
+                maxFiles={MAX_ATTACHMENTS - attachments.length}
+                disabled={loading || attachments.length >= MAX_ATTACHMENTS}
               />
             </View>
             
@@ -454,7 +402,7 @@ export const CreateTopic: React.FC<CreateTopicProps> = ({
                 Delete Topic?
               </Text>
               <Text className="text-sm text-gray-600 dark:text-gray-300 text-center mb-5 leading-5">
-                This action cannot be undone. This will permanently delete the topic and all its comments.
+                The topic and its comments will be hidden. You can restore it from Recently deleted for {Deletion.retentionDays} days.
               </Text>
               <View className="flex-row gap-3">
                 <Button
@@ -0,0 +1,45 @@
+import React, { useState } from 'react'
+import { Text, TouchableOpacity } from 'react-native'
+import { Comment, Topic } from '@/types'
+import { useAuth } from '@/contexts/AuthContext'
+import { canViewRevisions } from '@/lib/permissions'
+import { formatDate } from '@/lib/utils'
+import { RevisionHistory } from './RevisionHistory'
+
+interface EditedBadgeProps {
+  kind: 'topic' | 'comment'
+  row: Topic | Comment
+}
+
+/**
+ * "edited 5 minutes ago" on an edited topic or comment. The author and
+ * admins can tap it to see the edit history.
+ */
+export const EditedBadge: React.FC<EditedBadgeProps> = ({ kind, row }) => {
+  const { user } = useAuth()
+  const [showHistory, setShowHistory] = useState(false)
+
+  if (!row.edited_at) return null
+
+  const label = (
+    <Text className="text-xs text-gray-400 dark:text-gray-500 italic">
+      edited {formatDate(row.edited_at)}
+    </Text>
+  )
+
+  if (!canViewRevisions(row.user_id, user)) return label
+
+  return (
+    <>
+      <TouchableOpacity
+        onPress={() => setShowHistory(true)}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        accessibilityRole="button"
+        accessibilityLabel="Show edit history"
+      >
+        {label}
+      </TouchableOpacity>
+      <RevisionHistory visible={showHistory} onClose={() => setShowHistory(false)} kind={kind} row={row} />
+    </>
+  )
+}
@@ -0,0 +1,129 @@
+import React from 'react'
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { FeedOptions, MediaType, TopicSort } from '@/types'
+import { useTags } from '@/contexts/TagsContext'
+
+const SORT_OPTIONS: { value: TopicSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'active', label: 'Active' },
+  { value: 'most_commented', label: 'Most commented' },
+  { value: 'top', label: 'Top' },
+  { value: 'mine', label: 'Mine' },
+]
+
+const MEDIA_OPTIONS: { value: MediaType; label: string }[] = [
+  { value: 'image', label: 'Images' },
+  { value: 'video', label: 'Videos' },
+  { value: 'audio', label: 'Audio' },
+  { value: 'pdf', label: 'PDFs' },
+  { value: 'other', label: 'Other files' },
+]
+
+interface ChipProps {
+  label: string
+  selected: boolean
+  disabled?: boolean
+  onPress: () => void
+}
+
+const Chip: React.FC<ChipProps> = ({ label, selected, disabled, onPress }) => (
+  <TouchableOpacity
+    className={`px-3 py-1.5 rounded-full border ${
+      selected
+        ? 'bg-primary-500 border-primary-500'
+        : 'bg-white border-gray-300 dark:bg-gray-800 dark:border-gray-600'
+    } ${disabled ? 'opacity-40' : ''}`}
+    onPress={onPress}
+    disabled={disabled}
+  >
+    <Text className={`text-xs font-medium ${selected ? 'text-white' : 'text-gray-700 dark:text-gray-200'}`}>
+      {label}
+    </Text>
+  </TouchableOpacity>
+)
+
+interface FeedControlsProps {
+  options: FeedOptions
+  onChange: (options: FeedOptions) => void
+  /** 'mine' needs a signed-in user */
+  canShowMine: boolean
+}
+
+export const FeedControls: React.FC<FeedControlsProps> = ({ options, onChange, canShowMine }) => {
+  const { sort, filters } = options
+  const { tags } = useTags()
+
+  const setSort = (value: TopicSort) => onChange({ ...options, sort: value })
+
+  const toggleAttachment = () =>
+    onChange({ ...options, filters: { ...filters, hasAttachment: !filters.hasAttachment, mediaType: null } })
+
+  const toggleMediaType = (value: MediaType) =>
+    onChange({
+      ...options,
+      filters: { ...filters, hasAttachment: true, mediaType: filters.mediaType === value ? null : value },
+    })
+
+  const toggleTag = (tagId: string) =>
+    onChange({ ...options, filters: { ...filters, tagId: filters.tagId === tagId ? null : tagId } })
+
+  return (
+    <View className="py-2 border-b border-gray-200 dark:border-gray-700">
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ paddingHorizontal: 16, gap: 8 }}>
+        {SORT_OPTIONS.map(option => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            selected={sort === option.value}
+            disabled={option.value === 'mine' && !canShowMine}
+            onPress={() => setSort(option.value)}
+          />
+        ))}
+
+        <View className="w-px bg-gray-300 dark:bg-gray-600 mx-1" />
+
+        <TouchableOpacity
+          className={`flex-row items-center px-3 py-1.5 rounded-full border ${
+            filters.hasAttachment
+              ? 'bg-primary-500 border-primary-500'
+              : 'bg-white border-gray-300 dark:bg-gray-800 dark:border-gray-600'
+          }`}
+          onPress={toggleAttachment}
+        >
+          <Ionicons name="attach" size={14} color={filters.hasAttachment ? 'white' : '#6b7280'} />
+          <Text className={`ml-1 text-xs font-medium ${filters.hasAttachment ? 'text-white' : 'text-gray-700 dark:text-gray-200'}`}>
+            Attachments
+          </Text>
+        </TouchableOpacity>
+
+        {filters.hasAttachment && MEDIA_OPTIONS.map(option => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            selected={filters.mediaType === option.value}
+            onPress={() => toggleMediaType(option.value)}
+          />
+        ))}
+      </ScrollView>
+
+      {tags.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          className="mt-2"
+          contentContainerStyle={{ paddingHorizontal: 16, gap: 8 }}
+        >
+          {tags.map(tag => (
+            <Chip
+              key={tag.id}
+              label={`#${tag.name}`}
+              selected={filters.tagId === tag.id}
+              onPress={() => toggleTag(tag.id)}
+            />
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  )
+}
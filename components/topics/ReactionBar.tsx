@@ -0,0 +1,83 @@
+import React, { useState } from 'react'
+import { Alert, Text, TouchableOpacity, View } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { Reactions } from '@/constants/Reactions'
+import { useReactions } from '@/hooks/useReactions'
+import { ReactionCounts, ReactionTargetType } from '@/types'
+
+interface ReactionBarProps {
+  targetType: ReactionTargetType
+  targetId: string
+  counts?: ReactionCounts
+  /** rows still waiting in the outbox can't be reacted to yet */
+  disabled?: boolean
+}
+
+/**
+ * Reaction counts of a topic or comment. Tapping a reaction toggles the
+ * user's own; the smiley opens the other reactions. The upvote is always shown.
+ */
+export const ReactionBar: React.FC<ReactionBarProps> = ({ targetType, targetId, counts, disabled = false }) => {
+  const { counts: displayed, mine, canReact, toggle } = useReactions(targetType, targetId, counts)
+  const [picking, setPicking] = useState(false)
+
+  const handleToggle = async (emoji: string) => {
+    setPicking(false)
+    if (!canReact) {
+      Alert.alert('Sign in to react', 'Reactions are only available to signed-in users.')
+      return
+    }
+    try {
+      await toggle(emoji)
+    } catch (error) {
+      console.error('Failed to toggle reaction:', error)
+      Alert.alert('Error', 'Failed to update your reaction. Please try again.')
+    }
+  }
+
+  const shown = Reactions.emojis.filter(emoji =>
+    emoji === Reactions.upvote || (displayed[emoji] ?? 0) > 0 || mine.has(emoji)
+  )
+
+  return (
+    <View className={`flex-row flex-wrap items-center gap-2 ${disabled ? 'opacity-40' : ''}`}>
+      {(picking ? Reactions.emojis : shown).map(emoji => {
+        const count = displayed[emoji] ?? 0
+        const selected = mine.has(emoji)
+        return (
+          <TouchableOpacity
+            key={emoji}
+            className={`flex-row items-center px-2 py-1 rounded-full border ${
+              selected
+                ? 'bg-primary-50 border-primary-500 dark:bg-gray-700'
+                : 'bg-gray-50 border-gray-200 dark:bg-gray-800 dark:border-gray-600'
+            }`}
+            onPress={() => handleToggle(emoji)}
+            disabled={disabled}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+            accessibilityLabel={`${emoji} ${count}`}
+          >
+            <Text className="text-sm">{emoji}</Text>
+            {count > 0 && (
+              <Text className={`ml-1 text-xs ${selected ? 'text-primary-500 font-semibold' : 'text-gray-600 dark:text-gray-300'}`}>
+                {count}
+              </Text>
+            )}
+          </TouchableOpacity>
+        )
+      })}
+
+      {shown.length < Reactions.emojis.length && (
+        <TouchableOpacity
+          onPress={() => setPicking(current => !current)}
+          disabled={disabled}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          accessibilityLabel={picking ? 'Hide reactions' : 'Add reaction'}
+        >
+          <Ionicons name={picking ? 'close-circle-outline' : 'happy-outline'} size={20} color="#6b7280" />
+        </TouchableOpacity>
+      )}
+    </View>
+  )
+}
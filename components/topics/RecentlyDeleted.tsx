@@ -0,0 +1,302 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  RefreshControl,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { router } from 'expo-router'
+import { Comment, Topic, TopicDeletionProgress } from '@/types'
+import { Deletion } from '@/constants/Deletion'
+import { useAuth } from '@/contexts/AuthContext'
+import { canReviewAllDeleted } from '@/lib/permissions'
+import { formatDate } from '@/lib/utils'
+import { CommentRepository } from '@/services/commentRepository'
+import { ForbiddenError, NetworkError } from '@/services/errors'
+import { MutationService } from '@/services/mutationService'
+import { TopicRepository } from '@/services/topicRepository'
+import { AuthorBadge } from '../profile/AuthorBadge'
+
+// Most recent deletions listed per kind
+const MAX_DELETED_ITEMS = 100
+
+type DeletedItem =
+  | { kind: 'topic'; key: string; deleted_at: string; topic: Topic }
+  | { kind: 'comment'; key: string; deleted_at: string; comment: Comment }
+
+function deletionProgressLabel(progress: TopicDeletionProgress): string {
+  switch (progress.stage) {
+    case 'collecting':
+      return 'Finding comments and attachments…'
+    case 'deleting':
+      return progress.total > 1
+        ? `Deleting comments (${progress.done} of ${progress.total - 1})…`
+        : 'Deleting topic and comments…'
+    case 'files':
+      return `Deleting attachments (${progress.done} of ${progress.total})…`
+  }
+}
+
+/**
+ * Days until a deleted item is purged by the retention job
+ */
+function daysLeft(deletedAt: string): number {
+  const purgeAt = new Date(deletedAt).getTime() + Deletion.retentionDays * 24 * 60 * 60 * 1000
+  return Math.max(Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)), 0)
+}
+
+function describeFailure(error: unknown, action: string): string {
+  if (error instanceof NetworkError) {
+    return `Could not ${action} while offline. Please try again when you are back online.`
+  }
+  if (error instanceof ForbiddenError) {
+    return `You are not allowed to ${action}.`
+  }
+  return `Failed to ${action}. Please try again.`
+}
+
+/**
+ * Topics and comments deleted within the retention window: authors see
+ * their own, admins see everyone's. Items can be restored or deleted for good.
+ */
+export const RecentlyDeleted: React.FC = () => {
+  const { user } = useAuth()
+  const [items, setItems] = useState<DeletedItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [purgeProgress, setPurgeProgress] = useState<TopicDeletionProgress | null>(null)
+
+  const reviewAll = canReviewAllDeleted(user)
+
+  const load = useCallback(async () => {
+    if (!user) {
+      setItems([])
+      setLoading(false)
+      return
+    }
+    const userId = reviewAll ? null : user.id
+    try {
+      const [topics, comments] = await Promise.all([
+        TopicRepository.listDeleted(userId, MAX_DELETED_ITEMS),
+        CommentRepository.listDeleted(userId, MAX_DELETED_ITEMS),
+      ])
+      setItems(
+        [
+          ...topics.map(topic => ({
+            kind: 'topic' as const,
+            key: `topic:${topic.id}`,
+            deleted_at: topic.deleted_at ?? topic.updated_at,
+            topic,
+          })),
+          ...comments.map(comment => ({
+            kind: 'comment' as const,
+            key: `comment:${comment.id}`,
+            deleted_at: comment.deleted_at ?? comment.updated_at,
+            comment,
+          })),
+        ].sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+      )
+    } catch (error) {
+      console.error('Failed to load deleted items:', error)
+      Alert.alert('Error', describeFailure(error, 'load recently deleted items'))
+    } finally {
+      setLoading(false)
+      setRefreshing(false)
+    }
+  }, [user, reviewAll])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const removeItem = (key: string) => {
+    setItems(current => current.filter(item => item.key !== key))
+  }
+
+  const handleRestore = async (item: DeletedItem) => {
+    setBusyKey(item.key)
+    try {
+      const { queued } = item.kind === 'topic'
+        ? await MutationService.restoreTopic(item.topic)
+        : await MutationService.restoreComment(item.comment)
+      removeItem(item.key)
+      if (queued) {
+        Alert.alert('Success', `${item.kind === 'topic' ? 'Topic' : 'Comment'} will be restored when you are back online`)
+      }
+    } catch (error) {
+      console.error('Failed to restore item:', error)
+      Alert.alert('Error', describeFailure(error, `restore ${item.kind}`))
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const purge = async (item: DeletedItem) => {
+    setBusyKey(item.key)
+    try {
+      let failedFiles: number
+      if (item.kind === 'topic') {
+        const summary = await MutationService.purgeTopic(item.topic, setPurgeProgress)
+        failedFiles = summary.failed_file_ids.length
+      } else {
+        failedFiles = (await MutationService.purgeComment(item.comment)).length
+      }
+      removeItem(item.key)
+      if (failedFiles > 0) {
+        Alert.alert(
+          'Deleted',
+          `${failedFiles} ${failedFiles === 1 ? 'attachment' : 'attachments'} could not be deleted yet and will be removed later.`
+        )
+      }
+    } catch (error) {
+      console.error('Failed to purge item:', error)
+      Alert.alert('Error', describeFailure(error, `delete ${item.kind}`))
+    } finally {
+      setBusyKey(null)
+      setPurgeProgress(null)
+    }
+  }
+
+  const handlePurge = (item: DeletedItem) => {
+    Alert.alert(
+      'Delete permanently?',
+      item.kind === 'topic'
+        ? 'This action cannot be undone. The topic, all its comments and their attachments will be deleted.'
+        : 'This action cannot be undone. The comment and its attachments will be deleted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => purge(item) },
+      ]
+    )
+  }
+
+  const renderItem = ({ item }: { item: DeletedItem }) => {
+    const busy = busyKey === item.key
+    const days = daysLeft(item.deleted_at)
+
+    return (
+      <View className="bg-white dark:bg-gray-800 rounded-lg p-4 mb-3 border border-gray-200 dark:border-gray-700">
+        <View className="flex-row items-center mb-1">
+          <Ionicons
+            name={item.kind === 'topic' ? 'document-text-outline' : 'chatbubble-outline'}
+            size={16}
+            color="#6b7280"
+          />
+          <Text className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+            {item.kind === 'topic' ? 'Topic' : 'Comment'} · deleted {formatDate(item.deleted_at)}
+          </Text>
+        </View>
+        {item.kind === 'topic' && (
+          <Text className="text-base font-semibold text-gray-900 dark:text-white" numberOfLines={1}>
+            {item.topic.title}
+          </Text>
+        )}
+        <Text className="text-sm text-gray-700 dark:text-gray-300 mt-1" numberOfLines={2}>
+          {item.kind === 'topic' ? item.topic.content : item.comment.content}
+        </Text>
+        {reviewAll && (
+          <View className="mt-1">
+            <AuthorBadge
+              userId={item.kind === 'topic' ? item.topic.user_id : item.comment.user_id}
+              authorName={item.kind === 'topic' ? item.topic.author_name : item.comment.author_name}
+              prefix="by"
+            />
+          </View>
+        )}
+        <Text className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          {days > 0 ? `Deleted for good in ${days} day${days > 1 ? 's' : ''}` : 'Will be deleted for good soon'}
+        </Text>
+
+        {busy && purgeProgress && (
+          <Text className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            {deletionProgressLabel(purgeProgress)}
+          </Text>
+        )}
+
+        <View className="flex-row justify-end items-center gap-5 mt-3">
+          {busy ? (
+            <ActivityIndicator size="small" color="#007AFF" />
+          ) : (
+            <>
+              <TouchableOpacity
+                className="flex-row items-center"
+                onPress={() => handleRestore(item)}
+                disabled={busyKey !== null}
+              >
+                <Ionicons name="arrow-undo-outline" size={18} color="#007AFF" />
+                <Text className="ml-1 text-primary-500 font-medium">Restore</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className="flex-row items-center"
+                onPress={() => handlePurge(item)}
+                disabled={busyKey !== null}
+              >
+                <Ionicons name="trash-outline" size={18} color="#ff4757" />
+                <Text className="ml-1 text-red-500 font-medium">Delete now</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    )
+  }
+
+  return (
+    <View className="flex-1 bg-gray-100 dark:bg-gray-900">
+      {/* Header */}
+      <View className="flex-row items-center gap-2 px-5 pb-2 border-b border-gray-200 dark:border-gray-700">
+        <TouchableOpacity
+          className="p-2 rounded-full justify-center items-center w-10 h-10"
+          onPress={() => router.canGoBack() ? router.back() : router.replace('/')}
+        >
+          <Ionicons name="arrow-back" size={20} color="#007AFF" />
+        </TouchableOpacity>
+        <Text className="flex-1 text-lg font-semibold text-gray-800 dark:text-gray-100">Recently deleted</Text>
+      </View>
+
+      {!user ? (
+        <View className="items-center py-10 px-5">
+          <Ionicons name="lock-closed-outline" size={40} color="#9ca3af" />
+          <Text className="mt-3 text-gray-600 dark:text-gray-300 text-base text-center">
+            Sign in to see the topics and comments you deleted
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={items}
+          keyExtractor={(item) => item.key}
+          renderItem={renderItem}
+          contentContainerStyle={{ padding: 16 }}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true)
+                load()
+              }}
+            />
+          }
+          ListHeaderComponent={
+            <Text className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+              Deleted topics and comments can be restored for {Deletion.retentionDays} days.
+            </Text>
+          }
+          ListEmptyComponent={
+            loading ? (
+              <View className="py-4">
+                <ActivityIndicator size="small" color="#007AFF" />
+              </View>
+            ) : (
+              <Text className="text-center text-gray-600 dark:text-gray-300 py-6">Nothing deleted recently</Text>
+            )
+          }
+        />
+      )}
+    </View>
+  )
+}
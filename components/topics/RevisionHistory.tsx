@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react'
+import { ActivityIndicator, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { Comment, Revision, Topic } from '@/types'
+import { attachmentFileIds } from '@/lib/attachments'
+import { diffWords } from '@/lib/diff'
+import { formatDate } from '@/lib/utils'
+import { RevisionRepository } from '@/services/revisionRepository'
+
+type Version = Pick<Revision, 'title' | 'content' | 'file_ids'>
+
+interface RevisionHistoryProps {
+  visible: boolean
+  onClose: () => void
+  kind: 'topic' | 'comment'
+  row: Topic | Comment
+}
+
+const DiffText: React.FC<{ before: string; after: string; className: string }> = ({ before, after, className }) => (
+  <Text className={className}>
+    {diffWords(before, after).map((segment, index) => (
+      <Text
+        key={index}
+        className={
+          segment.kind === 'added'
+            ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+            : segment.kind === 'removed'
+              ? 'bg-red-100 text-red-800 line-through dark:bg-red-900 dark:text-red-200'
+              : ''
+        }
+      >
+        {segment.text}
+      </Text>
+    ))}
+  </Text>
+)
+
+function attachmentChange(before: string[], after: string[]): string | null {
+  const added = after.filter(id => !before.includes(id)).length
+  const removed = before.filter(id => !after.includes(id)).length
+  const parts = [
+    added > 0 ? `${added} attachment${added > 1 ? 's' : ''} added` : null,
+    removed > 0 ? `${removed} attachment${removed > 1 ? 's' : ''} removed` : null,
+  ].filter(Boolean)
+  if (parts.length > 0) return parts.join(', ')
+  return before.some((id, index) => id !== after[index]) ? 'Attachments reordered' : null
+}
+
+/**
+ * Edit history of a topic or comment, newest edit first. Each edit shows
+ * what it changed against the version before it.
+ */
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ visible, onClose, kind, row }) => {
+  const [revisions, setRevisions] = useState<Revision[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!visible) return
+    let cancelled = false
+    setError(null)
+    const load = kind === 'topic'
+      ? RevisionRepository.listForTopic(row.id)
+      : RevisionRepository.listForComment(row.id)
+    load
+      .then(result => {
+        if (!cancelled) setRevisions(result)
+      })
+      .catch(loadError => {
+        console.error('Failed to load edit history:', loadError)
+        if (!cancelled) setError('Failed to load the edit history. Please try again.')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [visible, kind, row.id, row.edited_at])
+
+  const editorLabel = (editorId: string | undefined): string => {
+    if (!editorId) return ''
+    return editorId === row.user_id ? ' by the author' : ' by a moderator'
+  }
+
+  // Versions from the original to the current one
+  const versions: Version[] = [
+    ...(revisions ?? []),
+    {
+      title: 'title' in row ? row.title : undefined,
+      content: row.content,
+      file_ids: attachmentFileIds(row),
+    },
+  ]
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View className="flex-1 bg-gray-100 dark:bg-gray-900">
+        <View className="flex-row items-center justify-between px-5 pt-5 pb-3 border-b border-gray-200 dark:border-gray-700">
+          <Text className="text-lg font-semibold text-gray-800 dark:text-gray-100">Edit history</Text>
+          <TouchableOpacity onPress={onClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Ionicons name="close" size={24} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        {error ? (
+          <Text className="text-center text-red-500 py-6 px-5">{error}</Text>
+        ) : revisions === null ? (
+          <View className="py-6">
+            <ActivityIndicator size="small" color="#007AFF" />
+          </View>
+        ) : (
+          <ScrollView contentContainerStyle={{ padding: 16 }}>
+            {revisions.length === 0 && (
+              <Text className="text-center text-gray-600 dark:text-gray-300 py-6">
+                No earlier versions were recorded
+              </Text>
+            )}
+
+            {revisions
+              .map((revision, index) => ({ revision, before: versions[index], after: versions[index + 1] }))
+              .reverse()
+              .map(({ revision, before, after }) => {
+                const attachments = attachmentChange(before.file_ids, after.file_ids)
+                return (
+                  <View
+                    key={revision.id}
+                    className="bg-white dark:bg-gray-800 rounded-lg p-4 mb-3 border border-gray-200 dark:border-gray-700"
+                  >
+                    <Text className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                      Edited {formatDate(revision.created_at)}{editorLabel(revision.editor_id)}
+                    </Text>
+                    {before.title !== undefined && after.title !== undefined && before.title !== after.title && (
+                      <DiffText
+                        before={before.title}
+                        after={after.title}
+                        className="text-base font-semibold text-gray-900 dark:text-white mb-2"
+                      />
+                    )}
+                    {before.content !== after.content && (
+                      <DiffText
+                        before={before.content}
+                        after={after.content}
+                        className="text-sm text-gray-700 dark:text-gray-300 leading-5"
+                      />
+                    )}
+                    {attachments && (
+                      <View className="flex-row items-center mt-2">
+                        <Ionicons name="attach" size={14} color="#6b7280" />
+                        <Text className="ml-1 text-xs text-gray-500 dark:text-gray-400">{attachments}</Text>
+                      </View>
+                    )}
+                  </View>
+                )
+              })}
+
+            <Text className="text-xs text-gray-500 dark:text-gray-400 text-center mt-2">
+              Posted {formatDate(row.created_at)}
+            </Text>
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  )
+}
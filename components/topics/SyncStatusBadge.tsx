@@ -0,0 +1,58 @@
+import React from 'react'
+import { Alert, Text, TouchableOpacity } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { SyncStatus } from '@/types'
+import { Outbox } from '@/services/outbox'
+import { MutationService } from '@/services/mutationService'
+
+interface SyncStatusBadgeProps {
+  /** id of the topic or comment waiting in the outbox */
+  targetId: string
+  status: SyncStatus
+}
+
+export const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ targetId, status }) => {
+  const handlePress = () => {
+    if (status !== 'failed') return
+
+    Alert.alert(
+      'Not synced',
+      'This change could not be saved to the server.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => Outbox.discardFor(targetId),
+        },
+        {
+          text: 'Retry',
+          onPress: async () => {
+            await Outbox.retryFor(targetId)
+            MutationService.flushOutbox()
+          },
+        },
+      ]
+    )
+  }
+
+  const failed = status === 'failed'
+
+  return (
+    <TouchableOpacity
+      className={`flex-row items-center self-start rounded-full px-2 py-0.5 mb-2 ${failed ? 'bg-red-50' : 'bg-gray-100 dark:bg-gray-700'}`}
+      onPress={handlePress}
+      disabled={!failed}
+      activeOpacity={0.8}
+    >
+      <Ionicons
+        name={failed ? 'alert-circle-outline' : 'cloud-upload-outline'}
+        size={12}
+        color={failed ? '#dc2626' : '#6b7280'}
+      />
+      <Text className={`ml-1 text-xs ${failed ? 'text-red-600' : 'text-gray-500 dark:text-gray-300'}`}>
+        {failed ? 'Not synced · tap to retry' : 'Waiting to sync'}
+      </Text>
+    </TouchableOpacity>
+  )
+}
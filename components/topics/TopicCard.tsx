@@ -2,7 +2,13 @@ import React from 'react'
 import { TouchableOpacity, View, Text } from 'react-native'
 import { Topic } from '@/types'
 import { formatDate } from '@/lib/utils'
-import { FilePreview } from '../FilePreview'
+import { displayedAttachments } from '@/lib/attachments'
+import { AttachmentGallery } from '../AttachmentGallery'
+import { AuthorBadge } from '../profile/AuthorBadge'
+import { EditedBadge } from './EditedBadge'
+import { ReactionBar } from './ReactionBar'
+import { SyncStatusBadge } from './SyncStatusBadge'
+import { TagChips } from '../tags/TagChips'
 
 interface TopicCardProps {
   topic: Topic
@@ -10,6 +16,8 @@ interface TopicCardProps {
   commentsCount?: number
   /** truncate the content to x lines (omit for full text) */
   contentNumberOfLines?: number
+  /** make the tag chips filter the feed */
+  onTagPress?: (tagId: string) => void
 }
 
 export const TopicCard: React.FC<TopicCardProps> = ({
@@ -17,8 +25,10 @@ export const TopicCard: React.FC<TopicCardProps> = ({
   onPress,
   commentsCount,
   contentNumberOfLines,
+  onTagPress,
 }) => {
   const Container: any = onPress ? TouchableOpacity : View
+  const attachments = displayedAttachments(topic)
 
   return (
     <Container
@@ -31,10 +41,15 @@ export const TopicCard: React.FC<TopicCardProps> = ({
         {topic.title}
       </Text>
 
-      {/* File preview next (optional) */}
-      {topic.file_id && (
+      {/* Offline write still waiting for the server */}
+      {topic.sync_status && (
+        <SyncStatusBadge targetId={topic.id} status={topic.sync_status} />
+      )}
+
+      {/* Attachments next (optional); local until a queued upload syncs */}
+      {attachments.length > 0 && (
         <View className="mb-3">
-          <FilePreview fileId={topic.file_id} />
+          <AttachmentGallery attachments={attachments} />
         </View>
       )}
 
@@ -46,14 +61,26 @@ export const TopicCard: React.FC<TopicCardProps> = ({
         {topic.content}
       </Text>
 
+      <TagChips tagIds={topic.tag_ids} onTagPress={onTagPress} />
+
+      <View className="mb-3">
+        <ReactionBar
+          targetType="topic"
+          targetId={topic.id}
+          counts={topic.reaction_counts}
+          disabled={!!topic.sync_status}
+        />
+      </View>
+
       {/* Author & date */}
       <View className="flex-row justify-between items-center mb-1">
-        <Text className="text-xs text-primary-500 font-medium">
-          By {topic.author_name}
-        </Text>
-        <Text className="text-xs text-gray-400 dark:text-gray-500">
-          {formatDate(topic.created_at)}
-        </Text>
+        <AuthorBadge userId={topic.user_id} authorName={topic.author_name} prefix="By" />
+        <View className="flex-row items-center gap-2">
+          <EditedBadge kind="topic" row={topic} />
+          <Text className="text-xs text-gray-400 dark:text-gray-500">
+            {formatDate(topic.created_at)}
+          </Text>
+        </View>
       </View>
 
       {/* Comments count (when provided) */}
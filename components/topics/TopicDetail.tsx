@@ -1,39 +1,100 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react'
 import {
   View,
   Text,
-  ScrollView,
+  FlatList,
   TouchableOpacity,
   Alert,
   ActivityIndicator,
   Modal,
+  Share,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
 } from 'react-native'
 import { router } from 'expo-router'
 import { Ionicons } from '@expo/vector-icons'
 import { useAuth } from '@/contexts/AuthContext'
-import { db, realtime } from '@/services/selfdb'
+import { CommentRepository } from '@/services/commentRepository'
+import { TopicRepository } from '@/services/topicRepository'
+import { OfflineCache } from '@/services/offlineCache'
+import { applyPendingComments } from '@/services/outbox'
+import { NotFoundError } from '@/services/errors'
+import { payloadRowId, RealtimePayload } from '@/services/realtimeManager'
+import { useRealtimeChannel } from '@/contexts/RealtimeContext'
+import { useOutbox } from '@/hooks/useOutbox'
+import { parseComment, parseTopic } from '@/services/validation'
+import { KeysetDirection } from '@/services/pagination'
 import { Topic, Comment } from '@/types'
-import { formatDate } from '@/lib/utils'
+import { Pagination } from '@/constants/Pagination'
+import { formatDate, mergeById, upsertById } from '@/lib/utils'
+import { buildThread, ThreadItem } from '@/lib/commentThreads'
+import { attachmentFileIds } from '@/lib/attachments'
 import { FilePreview, preloadFileMetadata } from '../FilePreview'
 import { CreateComment } from './CreateComment'
 import { CreateTopic } from './CreateTopic'
 import { CommentCard } from './CommentCard'                  // added
 import { canModifyContent } from '@/lib/permissions'
+import { getTopicShareUrl } from '@/lib/links'
 import { TopicCard } from './TopicCard'   // ⬅️ new import
+import { ConnectionStatus } from './ConnectionStatus'
 
 interface TopicDetailProps {
   topicId: string
-  topic: Topic // Topic is now required since we always pass it from TopicsList
+  topic: Topic // Initial topic; the screen passes a fresh copy once it has fetched one
   onBack?: () => void
   onTopicDeleted?: () => void
+  /** comment to load and scroll into view, e.g. a search hit */
+  focusCommentId?: string
+  /** number of comments fetched per page */
+  pageSize?: number
 }
 
-export const TopicDetail: React.FC<TopicDetailProps> = ({ topicId, topic, onBack, onTopicDeleted }) => {
+// Distance from the bottom (in px) within which the list counts as scrolled to the end
+const NEAR_BOTTOM_THRESHOLD = 80
+// How long a focused comment stays highlighted
+const FOCUS_HIGHLIGHT_MS = 2500
+
+function preloadCommentFiles(list: Comment[]): void {
+  // Don't wait for preloading to complete, just start it
+  Promise.all(
+    list
+      .flatMap((comment) => attachmentFileIds(comment))
+      .map((fileId) => preloadFileMetadata(fileId))
+  ).catch(error => 
+    console.warn('Some files failed to preload:', error)
+  )
+}
+
+export const TopicDetail: React.FC<TopicDetailProps> = ({
+  topicId,
+  topic,
+  onBack,
+  onTopicDeleted,
+  focusCommentId,
+  pageSize = Pagination.commentsPageSize,
+}) => {
   const { user, isAuthenticated } = useAuth()
   const [currentTopic, setCurrentTopic] = useState<Topic>(topic)
   const [comments, setComments] = useState<Comment[]>([])
   const [commentsLoading, setCommentsLoading] = useState(true)
+  const [hasOlder, setHasOlder] = useState(false)
+  const [hasNewer, setHasNewer] = useState(false)
+  const [pageLoading, setPageLoading] = useState<KeysetDirection | null>(null)
+  const [isNearBottom, setIsNearBottom] = useState(true)
+  const listRef = useRef<FlatList<ThreadItem>>(null)
+  // Mirrors !hasNewer for the realtime handler, which is bound once per topic
+  const isAtTailRef = useRef(false)
+  // True while showing cached comments because SelfDB could not be reached
+  const [isOffline, setIsOffline] = useState(false)
+  const { entries: outboxEntries, lastSyncedAt } = useOutbox()
   const [showAddComment, setShowAddComment] = useState(false)
+  // Comment the composer replies to; null for a top-level comment
+  const [replyTo, setReplyTo] = useState<Comment | null>(null)
+  // Threads whose default collapsed state the user flipped
+  const [toggledThreads, setToggledThreads] = useState<Set<string>>(new Set())
+  // Comment to scroll to once it is rendered, and the one currently highlighted
+  const pendingFocusRef = useRef<string | null>(null)
+  const [highlightedCommentId, setHighlightedCommentId] = useState<string | null>(null)
   
   // Topic edit/delete state
   const [isEditingTopic, setIsEditingTopic] = useState(false)
@@ -41,6 +102,20 @@ export const TopicDetail: React.FC<TopicDetailProps> = ({ topicId, topic, onBack
   // Calculate canEdit directly without memoization to prevent header render delays
   const canEdit = canModifyContent(currentTopic?.user_id, user)
 
+  const handleShare = async () => {
+    const url = getTopicShareUrl(topicId)
+    try {
+      await Share.share({ message: `${currentTopic.title}\n${url}`, url })
+    } catch (error) {
+      console.warn('Failed to share topic:', error)
+    }
+  }
+
+  // Keep in sync when the screen supplies a fresher copy of the topic
+  useEffect(() => {
+    setCurrentTopic(topic)
+  }, [topic])
+
   // Header component - render directly without memoization to prevent delays
   const HeaderComponent = (
     <View className="flex-row justify-between items-center px-5 pb-2 border-b border-gray-200 dark:border-gray-700">
@@ -52,8 +127,18 @@ export const TopicDetail: React.FC<TopicDetailProps> = ({ topicId, topic, onBack
       </TouchableOpacity>
       
       {/* Always have a center element for layout consistency */}
-      <View className="flex-1" />
+      <View className="flex-1 items-center">
+        <ConnectionStatus />
+      </View>
       
+      {/* Share Button */}
+      <TouchableOpacity
+        className="p-2 rounded-full justify-center items-center w-10 h-10"
+        onPress={handleShare}
+      >
+        <Ionicons name="share-outline" size={20} color="#007AFF" />
+      </TouchableOpacity>
+
       {/* Edit Button - only show if user can modify content, otherwise show placeholder */}
       {canEdit ? (
         <TouchableOpacity
@@ -68,164 +153,317 @@ export const TopicDetail: React.FC<TopicDetailProps> = ({ topicId, topic, onBack
     </View>
   )
 
-  useEffect(() => {
-    if (topicId && topic) {
-      // We should always have a topic passed in, just load comments
-      loadComments()
-    }
 
-    // Store subscription references
-    let topicsSubscription: any = null
-    let commentsSubscription: any = null
-
-    // Set up realtime subscriptions
-    const setupRealtime = async () => {
-      try {
-        await realtime.connect()
-        
-        // Subscribe to topics changes
-        topicsSubscription = realtime.subscribe('topics', (payload: any) => {
-          console.log('Topic realtime update:', payload)
-          
-          if (payload.eventType === 'DELETE' && payload.old?.id?.toString() === topicId) {
-            // Topic was deleted, navigate back
-            console.log('Topic deleted, navigating back')
-            Alert.alert(
-              'Topic Deleted',
-              'This topic has been deleted.',
-              [
-                {
-                  text: 'OK',
-                  onPress: () => {
-                    if (onTopicDeleted) {
-                      onTopicDeleted()
-                    }
-                    if (onBack) {
-                      onBack()
-                    } else {
-                      router.back()
-                    }
-                  }
-                }
-              ]
-            )
-          } else if (payload.eventType === 'UPDATE' && payload.new?.id?.toString() === topicId) {
-            // Topic was updated
-            const updatedTopic = payload.new as Topic
-            console.log('Topic updated:', updatedTopic.id)
-            setCurrentTopic(updatedTopic)
-          }
-        })
-        
-        // Subscribe to comments changes
-        commentsSubscription = realtime.subscribe('comments', (payload: any) => {
-          console.log('Comments realtime update:', payload)
-          
-          if (payload.eventType === 'DELETE') {
-            // Remove deleted comment from the list
-            const deletedCommentId = payload.old?.id?.toString()
-            console.log('Removing deleted comment:', deletedCommentId)
-            
-            setComments(currentComments => 
-              currentComments.filter(comment => comment.id.toString() !== deletedCommentId)
-            )
-            
-            // If we're editing this comment, stop editing
-            // Note: This is now handled by the CommentActions component
-            
-            // If this comment is in delete dialog, close it
-            // Note: This is now handled by the CommentActions component
-          } else if (payload.eventType === 'INSERT') {
-            // Add new comment if it belongs to current topic
-            const newComment = payload.new as Comment
-            if (newComment.topic_id.toString() === topicId) {
-              console.log('Adding new comment:', newComment.id)
-              setComments(currentComments => [...currentComments, newComment])
+  const handleTopicRemoved = () => {
+    // Topic was deleted, navigate back
+    console.log('Topic deleted, navigating back')
+    Alert.alert(
+      'Topic Deleted',
+      'This topic has been deleted.',
+      [
+        {
+          text: 'OK',
+          onPress: () => {
+            if (onTopicDeleted) {
+              onTopicDeleted()
             }
-          } else if (payload.eventType === 'UPDATE') {
-            // Update existing comment if it belongs to current topic
-            const updatedComment = payload.new as Comment
-            if (updatedComment.topic_id.toString() === topicId) {
-              console.log('Updating comment:', updatedComment.id)
-              setComments(currentComments => 
-                currentComments.map(comment => 
-                  comment.id.toString() === updatedComment.id.toString() ? updatedComment : comment
-                )
-              )
+            if (onBack) {
+              onBack()
+            } else {
+              router.back()
             }
           }
+        }
+      ]
+    )
+  }
+
+  const handleTopicChange = (payload: RealtimePayload) => {
+    console.log('Topic realtime update:', payload)
+
+    if (payload.eventType === 'DELETE' && payloadRowId(payload.old) === topicId) {
+      handleTopicRemoved()
+    } else if (payload.eventType === 'UPDATE' && payloadRowId(payload.new) === topicId) {
+      // Topic was updated; a soft delete counts as removed
+      const updatedTopic = parseTopic(payload.new)
+      if (updatedTopic.deleted_at) {
+        handleTopicRemoved()
+        return
+      }
+      console.log('Topic updated:', updatedTopic.id)
+      setCurrentTopic(updatedTopic)
+    }
+  }
+
+  const handleCommentChange = (payload: RealtimePayload) => {
+    console.log('Comments realtime update:', payload)
+
+    if (payload.eventType === 'DELETE') {
+      // Remove deleted comment from the list
+      const deletedCommentId = payloadRowId(payload.old)
+      console.log('Removing deleted comment:', deletedCommentId)
+
+      setComments(currentComments =>
+        currentComments.filter(comment => comment.id.toString() !== deletedCommentId)
+      )
+    } else if (payload.eventType === 'INSERT') {
+      // Add new comment if it belongs to current topic and either replies
+      // to a loaded comment (it is shown under its parent) or the loaded
+      // window ends at the latest comment; otherwise paging picks it up.
+      // A comment synced from the outbox replaces its optimistic row.
+      const newComment = parseComment(payload.new)
+      if (newComment.topic_id.toString() === topicId) {
+        setComments(currentComments => {
+          const repliesToLoaded = !!newComment.parent_id &&
+            currentComments.some(comment => comment.id === newComment.parent_id)
+          if (!repliesToLoaded && !isAtTailRef.current) return currentComments
+          console.log('Adding new comment:', newComment.id)
+          return upsertById(currentComments, newComment)
+        })
+      }
+    } else if (payload.eventType === 'UPDATE') {
+      // Update existing comment if it belongs to current topic. Soft-deleted
+      // comments are removed; restored ones come back under the same rules
+      // as new comments, in their original place.
+      const updatedComment = parseComment(payload.new)
+      if (updatedComment.topic_id.toString() === topicId) {
+        console.log('Updating comment:', updatedComment.id)
+        setComments(currentComments => {
+          if (updatedComment.deleted_at) {
+            return currentComments.filter(comment => comment.id !== updatedComment.id)
+          }
+          if (currentComments.some(comment => comment.id === updatedComment.id)) {
+            return currentComments.map(comment => comment.id === updatedComment.id ? updatedComment : comment)
+          }
+          const repliesToLoaded = !!updatedComment.parent_id &&
+            currentComments.some(comment => comment.id === updatedComment.parent_id)
+          const [first] = currentComments
+          const inWindow = isAtTailRef.current && (!first || updatedComment.created_at >= first.created_at)
+          if (!repliesToLoaded && !inWindow) return currentComments
+          return [...currentComments, updatedComment].sort((a, b) => a.created_at.localeCompare(b.created_at))
         })
-        
-        console.log('✅ Realtime subscriptions established for topic detail')
-      } catch (error) {
-        console.warn('Realtime features disabled for topic detail:', error)
-        // Realtime is optional, continue without it
       }
     }
+  }
 
-    setupRealtime()
+  // Catch up on the topic itself after a reconnect; a missing row means it
+  // was deleted while the connection was down
+  const resyncTopic = async () => {
+    try {
+      setCurrentTopic(await TopicRepository.getById(topicId))
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        handleTopicRemoved()
+      } else {
+        console.warn('Failed to resync topic:', error)
+      }
+    }
+  }
 
-    return () => {
-      try {
-        // Unsubscribe from topics if subscription exists
-        if (topicsSubscription && typeof topicsSubscription.unsubscribe === 'function') {
-          topicsSubscription.unsubscribe()
-        }
-        // Unsubscribe from comments if subscription exists
-        if (commentsSubscription && typeof commentsSubscription.unsubscribe === 'function') {
-          commentsSubscription.unsubscribe()
-        }
-        // Note: We don't disconnect realtime here as other components might be using it
-      } catch (error) {
-        console.warn('Error cleaning up realtime subscriptions:', error)
+  // Catch up on comments changed while the connection was down, reloading
+  // instead when more changed than one page holds
+  const resyncComments = async (since: string) => {
+    try {
+      const changed = await CommentRepository.listUpdatedSince(topicId, since, pageSize)
+      if (changed.length === pageSize) {
+        loadComments()
+        return
       }
+
+      setComments(currentComments => {
+        const changedById = new Map(changed.map(comment => [comment.id, comment]))
+        const updated = currentComments
+          .map(comment => changedById.get(comment.id) ?? comment)
+          .filter(comment => !comment.deleted_at)
+        // New comments only belong in the window when it ends at the latest one
+        const created = isAtTailRef.current
+          ? changed.filter(comment =>
+              comment.created_at > since &&
+              !comment.deleted_at &&
+              !currentComments.some(current => current.id === comment.id)
+            )
+          : []
+        return [...updated, ...created.sort((a, b) => a.created_at.localeCompare(b.created_at))]
+      })
+    } catch (error) {
+      console.warn('Failed to resync comments:', error)
     }
-  }, [topicId]) // Simplified dependency array - only topicId needed
+  }
+
+  // Only this topic's row and comments are streamed to the screen
+  useRealtimeChannel('topics', handleTopicChange, resyncTopic, { column: 'id', value: topicId })
+  useRealtimeChannel('comments', handleCommentChange, resyncComments, { column: 'topic_id', value: topicId })
+
+  const updateHasNewer = useCallback((value: boolean) => {
+    isAtTailRef.current = !value
+    setHasNewer(value)
+  }, [])
 
-  const loadComments = async () => {
+  const loadComments = useCallback(async () => {
     try {
       setCommentsLoading(true)
       
-      if (!currentTopic) return
+      // Load the first page of comments for this topic
+      const page = await CommentRepository.listPage(topicId, 'newer', null, pageSize)
       
-      // Load comments for this topic using proper query builder API
-      const commentsData = await db
-        .from('comments')
-        .where('topic_id', currentTopic.id)
-        .order('created_at', 'asc')
-        .execute()
+      setComments(page.comments)
+      setHasOlder(false)
+      updateHasNewer(page.hasMore)
+      setIsOffline(false)
       
-      setComments(commentsData as unknown as Comment[])
-      
-      // Preload file metadata for topic and comments with files
-      const preloadPromises = []
-      
-      // Preload topic file if it exists (in case it wasn't preloaded already)
-      if (currentTopic.file_id) {
-        preloadPromises.push(preloadFileMetadata(currentTopic.file_id))
-      }
-      
-      // Preload comment files if they exist
-      preloadPromises.push(
-        ...commentsData
-          .filter((comment: any) => comment.file_id)
-          .map((comment: any) => preloadFileMetadata(comment.file_id))
-      )
-      
-      // Don't wait for preloading to complete, just start it
-      Promise.all(preloadPromises).catch(error => 
-        console.warn('Some files failed to preload:', error)
-      )
+      preloadCommentFiles(page.comments)
     } catch (error) {
       console.error('Failed to load comments:', error)
+
+      // Fall back to the comments saved the last time this topic was opened
+      setComments(await OfflineCache.getComments(topicId))
+      setHasOlder(false)
+      updateHasNewer(false)
+      setIsOffline(true)
+    } finally {
+      setCommentsLoading(false)
+    }
+  }, [topicId, pageSize, updateHasNewer])
+
+  // Load a window of comments centred on one comment and scroll to it
+  const loadCommentsAround = useCallback(async (commentId: string) => {
+    try {
+      setCommentsLoading(true)
+
+      const target = await CommentRepository.getById(commentId)
+      const cursor = { created_at: target.created_at, id: target.id }
+      const half = Math.max(Math.floor(pageSize / 2), 1)
+      const [older, newer] = await Promise.all([
+        CommentRepository.listPage(topicId, 'older', cursor, half),
+        CommentRepository.listPage(topicId, 'newer', cursor, half),
+      ])
+
+      const window = [...older.comments, target, ...newer.comments]
+      setComments(window)
+      setHasOlder(older.hasMore)
+      updateHasNewer(newer.hasMore)
+      setIsOffline(false)
+      pendingFocusRef.current = target.id
+      preloadCommentFiles(window)
+    } catch (error) {
+      // The comment may have been deleted since it was found; show the thread instead
+      console.warn(`Failed to load comment ${commentId}, loading thread start:`, error)
+      await loadComments()
     } finally {
       setCommentsLoading(false)
     }
+  }, [topicId, pageSize, updateHasNewer, loadComments])
+
+  useEffect(() => {
+    if (focusCommentId) {
+      loadCommentsAround(focusCommentId)
+    } else {
+      loadComments()
+    }
+  }, [focusCommentId, loadComments, loadCommentsAround])
+
+  // Preload topic files (in case they weren't preloaded already)
+  useEffect(() => {
+    Promise.all(attachmentFileIds(topic).map((fileId) => preloadFileMetadata(fileId))).catch(error =>
+      console.warn('Topic file failed to preload:', error)
+    )
+  }, [topic])
+
+  const loadOlderComments = async () => {
+    const oldest = comments[0]
+    if (!hasOlder || !oldest || pageLoading) return
+
+    try {
+      setPageLoading('older')
+      const page = await CommentRepository.listPage(topicId, 'older', oldest, pageSize)
+      setComments(currentComments => {
+        const loadedIds = new Set(currentComments.map(comment => comment.id))
+        return [...page.comments.filter(comment => !loadedIds.has(comment.id)), ...currentComments]
+      })
+      setHasOlder(page.hasMore)
+      preloadCommentFiles(page.comments)
+    } catch (error) {
+      console.error('Failed to load older comments:', error)
+    } finally {
+      setPageLoading(null)
+    }
+  }
+
+  const loadNewerComments = async () => {
+    const newest = comments[comments.length - 1]
+    if (!hasNewer || !newest || pageLoading) return
+
+    try {
+      setPageLoading('newer')
+      const page = await CommentRepository.listPage(topicId, 'newer', newest, pageSize)
+      setComments(currentComments => mergeById(currentComments, page.comments))
+      updateHasNewer(page.hasMore)
+      preloadCommentFiles(page.comments)
+    } catch (error) {
+      console.error('Failed to load newer comments:', error)
+    } finally {
+      setPageLoading(null)
+    }
+  }
+
+  const scrollToLatest = () => {
+    // Give the list a moment to lay out freshly loaded rows
+    setTimeout(() => listRef.current?.scrollToEnd({ animated: true }), 100)
+  }
+
+  const jumpToLatest = async () => {
+    if (!hasNewer) {
+      scrollToLatest()
+      return
+    }
+
+    try {
+      setPageLoading('newer')
+      // Replace the window with the latest page
+      const page = await CommentRepository.listPage(topicId, 'older', null, pageSize)
+      setComments(page.comments)
+      setHasOlder(page.hasMore)
+      updateHasNewer(false)
+      preloadCommentFiles(page.comments)
+      scrollToLatest()
+    } catch (error) {
+      console.error('Failed to load latest comments:', error)
+    } finally {
+      setPageLoading(null)
+    }
+  }
+
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent
+    setIsNearBottom(
+      layoutMeasurement.height + contentOffset.y >= contentSize.height - NEAR_BOTTOM_THRESHOLD
+    )
   }
 
   const handleCommentCreated = (newComment: Comment) => {
-    setComments(prev => [...prev, newComment])
+    setCurrentTopic(prev => ({ ...prev, comment_count: (prev.comment_count ?? comments.length) + 1 }))
+    setShowAddComment(false)
+    setReplyTo(null)
+
+    if (newComment.parent_id) {
+      // Replies are shown under their parent, which is already loaded
+      setComments(prev => upsertById(prev, newComment))
+      const parent = threadItems.find(item => item.comment.id === newComment.parent_id)
+      if (parent?.collapsed) {
+        handleToggleReplies(parent.comment.id)
+      }
+    } else if (isAtTailRef.current) {
+      setComments(prev => upsertById(prev, newComment))
+      scrollToLatest()
+    } else {
+      // The new comment is the latest one, so show that end of the thread
+      jumpToLatest()
+    }
+  }
+
+  const closeComposer = () => {
     setShowAddComment(false)
+    setReplyTo(null)
   }
 
   const handleTopicEdited = (updatedTopic: Topic) => {
@@ -234,15 +472,46 @@ export const TopicDetail: React.FC<TopicDetailProps> = ({ topicId, topic, onBack
   }
 
   const handleCommentUpdated = (updatedComment: Comment) => {
-    setComments(comments.map(comment => 
+    setComments(currentComments => currentComments.map(comment => 
       comment.id === updatedComment.id ? updatedComment : comment
     ))
   }
 
+  const handleToggleReplies = (commentId: string) => {
+    setToggledThreads(current => {
+      const next = new Set(current)
+      if (next.has(commentId)) {
+        next.delete(commentId)
+      } else {
+        next.add(commentId)
+      }
+      return next
+    })
+  }
+
+  // Replies left behind by a deleted parent move to the top level on the
+  // server (ON DELETE SET NULL), which buildThread already does for them
   const handleCommentDeleted = (commentId: string) => {
-    setComments(comments.filter(comment => comment.id.toString() !== commentId))
+    setComments(currentComments => currentComments.filter(comment => comment.id.toString() !== commentId))
+    setCurrentTopic(prev => ({ ...prev, comment_count: Math.max((prev.comment_count ?? 1) - 1, 0) }))
   }
 
+  // Reload once queued writes have reached the server
+  useEffect(() => {
+    if (!lastSyncedAt) return
+    loadComments()
+    TopicRepository.getById(topicId)
+      .then(setCurrentTopic)
+      .catch(error => console.warn('Failed to refresh topic:', error))
+  }, [lastSyncedAt, loadComments, topicId])
+
+  // Keep the offline snapshot of this thread current
+  useEffect(() => {
+    if (!commentsLoading && !isOffline) {
+      OfflineCache.saveComments(topicId, comments)
+    }
+  }, [comments, commentsLoading, isOffline, topicId])
+
   const handleBack = () => {
     // Use router.back() to ensure proper back navigation
     if (router.canGoBack()) {
@@ -253,6 +522,39 @@ export const TopicDetail: React.FC<TopicDetailProps> = ({ topicId, topic, onBack
     }
   };
 
+  // Loaded comments are a window of the thread, so prefer the server count
+  const commentCount = currentTopic?.comment_count ?? comments.length
+
+  const threadItems: ThreadItem[] = useMemo(
+    () => commentsLoading
+      ? []
+      : buildThread(
+          applyPendingComments(comments, outboxEntries, topicId),
+          toggledThreads,
+          highlightedCommentId ?? pendingFocusRef.current ?? undefined
+        ),
+    [commentsLoading, comments, outboxEntries, topicId, toggledThreads, highlightedCommentId]
+  )
+
+  // Scroll to the focused comment once it is part of the rendered thread
+  useEffect(() => {
+    const focusId = pendingFocusRef.current
+    if (!focusId || commentsLoading) return
+
+    const index = threadItems.findIndex(item => item.comment.id === focusId)
+    if (index < 0) return
+
+    pendingFocusRef.current = null
+    setHighlightedCommentId(focusId)
+    setTimeout(() => listRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.3 }), 100)
+  }, [threadItems, commentsLoading])
+
+  useEffect(() => {
+    if (!highlightedCommentId) return
+    const timer = setTimeout(() => setHighlightedCommentId(null), FOCUS_HIGHLIGHT_MS)
+    return () => clearTimeout(timer)
+  }, [highlightedCommentId])
+
   if (!currentTopic) {
     return (
       <View className="flex-1 justify-center items-center">
@@ -272,39 +574,115 @@ export const TopicDetail: React.FC<TopicDetailProps> = ({ topicId, topic, onBack
       {/* Back Button Header */}
       {HeaderComponent}
       
-      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
-        {/* Topic Content Area */}
-        <View className="px-4 pt-4 pb-0">
-          {/* Topic card */}
-          <TopicCard
-            topic={currentTopic}
-            commentsCount={comments.length}
-          />
-        </View>
+      <FlatList
+        ref={listRef}
+        data={threadItems}
+        keyExtractor={(item) => item.comment.id.toString()}
+        renderItem={({ item }) => (
+          <View className="px-4">
+            <CommentCard
+              comment={item.comment}
+              onCommentUpdated={handleCommentUpdated}
+              onCommentDeleted={handleCommentDeleted}
+              depth={item.depth}
+              replyCount={item.replyCount}
+              collapsed={item.collapsed}
+              highlighted={item.comment.id === highlightedCommentId}
+              onReply={setReplyTo}
+              onToggleReplies={item.hasLoadedReplies ? handleToggleReplies : undefined}
+            />
+          </View>
+        )}
+        ListHeaderComponent={
+          <>
+            {/* Topic Content Area */}
+            <View className="px-4 pt-4 pb-0">
+              {/* Topic card */}
+              <TopicCard
+                topic={currentTopic}
+                commentsCount={commentCount}
+              />
+            </View>
+
+            {/* Comments */}
+            <View className="px-4">
+              <Text className="text font-semibold text-gray-800 mb-1">
+                Comments ({commentCount})
+              </Text>
+
+              {commentsLoading && (
+                <View className="flex-row justify-center items-center py-8">
+                  <ActivityIndicator size="small" color="#007AFF" />
+                  <Text className="ml-2 text-gray-600">Loading comments...</Text>
+                </View>
+              )}
 
-        {/* Comments */}
-        <View className="px-4 mb-4">
-          <Text className="text font-semibold text-gray-800 mb-1">
-            Comments ({comments.length})
-          </Text>
+              {!commentsLoading && isOffline && (
+                <View className="flex-row items-center gap-2 py-2">
+                  <Ionicons name="cloud-offline-outline" size={14} color="#6b7280" />
+                  <Text className="text-xs text-gray-500 dark:text-gray-400">
+                    Offline – showing saved comments
+                  </Text>
+                </View>
+              )}
 
-          {commentsLoading ? (
-            <View className="flex-row justify-center items-center py-8">
-              <ActivityIndicator size="small" color="#007AFF" />
-              <Text className="ml-2 text-gray-600">Loading comments...</Text>
+              {!commentsLoading && hasOlder && (
+                <TouchableOpacity
+                  className="py-3 items-center"
+                  onPress={loadOlderComments}
+                  disabled={pageLoading !== null}
+                >
+                  {pageLoading === 'older' ? (
+                    <ActivityIndicator size="small" color="#007AFF" />
+                  ) : (
+                    <Text className="text-primary-500 text-sm font-medium">Load older comments</Text>
+                  )}
+                </TouchableOpacity>
+              )}
             </View>
-          ) : (
-            comments.map(comment => (
-              <CommentCard
-                key={comment.id}
-                comment={comment}
-                onCommentUpdated={handleCommentUpdated}
-                onCommentDeleted={handleCommentDeleted}
-              />
-            ))
-          )}
-        </View>
-      </ScrollView>
+          </>
+        }
+        ListFooterComponent={
+          <View className="px-4 mb-4">
+            {pageLoading === 'newer' ? (
+              <View className="py-3 items-center">
+                <ActivityIndicator size="small" color="#007AFF" />
+              </View>
+            ) : hasNewer && !commentsLoading ? (
+              <TouchableOpacity className="py-3 items-center" onPress={loadNewerComments}>
+                <Text className="text-primary-500 text-sm font-medium">Load newer comments</Text>
+              </TouchableOpacity>
+            ) : null}
+          </View>
+        }
+        onScrollToIndexFailed={({ index, averageItemLength }) => {
+          // Rows are measured lazily; jump close, then retry once they render
+          listRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false })
+          setTimeout(() => listRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.3 }), 100)
+        }}
+        onEndReached={loadNewerComments}
+        onEndReachedThreshold={0.5}
+        onScroll={handleScroll}
+        scrollEventThrottle={100}
+        maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+        showsVerticalScrollIndicator={false}
+        initialNumToRender={10}
+        maxToRenderPerBatch={10}
+        windowSize={10}
+      />
+
+      {/* Jump to latest comment */}
+      {!commentsLoading && comments.length > 0 && (hasNewer || !isNearBottom) && (
+        <TouchableOpacity
+          className="absolute right-5 bottom-24 flex-row items-center bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-full px-3 py-2 shadow-sm"
+          onPress={jumpToLatest}
+          disabled={pageLoading !== null}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="arrow-down" size={16} color="#007AFF" />
+          <Text className="ml-1 text-primary-500 text-sm font-medium">Latest</Text>
+        </TouchableOpacity>
+      )}
 
       {/* Floating Add Comment Button */}
       <TouchableOpacity
@@ -317,16 +695,17 @@ export const TopicDetail: React.FC<TopicDetailProps> = ({ topicId, topic, onBack
 
       {/* Add Comment Modal */}
       <Modal
-        visible={showAddComment}
+        visible={showAddComment || replyTo !== null}
         animationType="slide"
         presentationStyle="pageSheet"
-        onRequestClose={() => setShowAddComment(false)}
+        onRequestClose={closeComposer}
       >
         <View className="flex-1 bg-gray-100">
           <CreateComment
             topicId={topicId}
+            parentComment={replyTo ?? undefined}
             onCommentCreated={handleCommentCreated}
-            onCancel={() => setShowAddComment(false)}
+            onCancel={closeComposer}
           />
         </View>
       </Modal>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import {
   View,
   Text,
@@ -9,11 +9,29 @@ import {
 } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
 import { router } from 'expo-router'
-import { db, realtime } from '@/services/selfdb'
-import { Topic } from '@/types'
+import { TopicRepository } from '@/services/topicRepository'
+import { parseTopic } from '@/services/validation'
+import { FeedOptions, Topic, TopicCursor } from '@/types'
+import { Pagination } from '@/constants/Pagination'
+import { mergeById } from '@/lib/utils'
+import { attachmentFileIds } from '@/lib/attachments'
+import { compareTopics, DEFAULT_FEED_OPTIONS, matchesFeed } from '@/lib/feed'
+import { FeedPreferences } from '@/services/feedPreferences'
+import { OfflineCache } from '@/services/offlineCache'
+import { applyPendingTopics } from '@/services/outbox'
+import { payloadRowId, RealtimePayload } from '@/services/realtimeManager'
+import { useRealtimeChannel } from '@/contexts/RealtimeContext'
+import { useTags } from '@/contexts/TagsContext'
+import { canManageTags } from '@/lib/permissions'
+import { useOutbox } from '@/hooks/useOutbox'
+import { useProfile } from '@/hooks/useProfile'
+import { authorDisplayName, MEMBER_AUTHOR_NAME } from '@/lib/profiles'
 import { FilePreview, preloadFileMetadata } from '../FilePreview'
 import SvgComponent from '@/assets/images/logo'
 import { TopicCard } from './TopicCard'
+import { ConnectionStatus } from './ConnectionStatus'
+import { FeedControls } from './FeedControls'
+import { Avatar } from '../profile/Avatar'
 
 interface TopicsListProps {
   onCreateTopic?: () => void
@@ -22,6 +40,8 @@ interface TopicsListProps {
   onLogout?: () => void
   user?: any
   isAuthenticated?: boolean
+  /** number of topics fetched per page */
+  pageSize?: number
 }
 
 export const TopicsList: React.FC<TopicsListProps> = ({ 
@@ -30,51 +50,50 @@ export const TopicsList: React.FC<TopicsListProps> = ({
   onShowAuthModal,
   onLogout,
   user,
-  isAuthenticated
+  isAuthenticated,
+  pageSize = Pagination.topicsPageSize,
 }) => {
   const [topics, setTopics] = useState<Topic[]>([])
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
   const [visibleTopics, setVisibleTopics] = useState<Set<string>>(new Set())
+  const [nextCursor, setNextCursor] = useState<TopicCursor | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  // True while showing the cached feed because SelfDB could not be reached
+  const [isOffline, setIsOffline] = useState(false)
+  const { entries: outboxEntries, lastSyncedAt } = useOutbox()
+  const ownProfile = useProfile(user?.id)
+  // Sort mode and filters; null until the saved preferences are read
+  const [feedOptions, setFeedOptions] = useState<FeedOptions | null>(null)
+  const { tagsById, loading: tagsLoading } = useTags()
+  // Guards against onEndReached firing again before the current page resolves
+  const isFetchingPage = useRef(false)
 
-  // Move declaration up so it’s visible in cleanup
-  let topicsSubscription: any = null
-  let commentsSubscription: any = null
+  // 'mine' needs a signed-in user; fall back to the newest topics without one
+  const userId: string | undefined = user?.id
+  const feed: FeedOptions = useMemo(() => (feedOptions
+    ? feedOptions.sort === 'mine' && !userId
+      ? { ...feedOptions, sort: 'newest' }
+      : feedOptions
+    : DEFAULT_FEED_OPTIONS), [feedOptions, userId])
 
-  const loadTopics = async () => {
+  const loadTopics = useCallback(async () => {
     try {
       console.log('Loading topics...')
+      isFetchingPage.current = true
       
-      // 1) fetch all topics
-      const topicsData = await db
-        .from('topics')
-        .select('*')
-        .order('created_at', 'desc')
-        .execute()
-
-      // 2) For each topic, fetch its comment count using the exact same method as TopicDetail
-      const topicsWithCounts = await Promise.all(
-        (topicsData as any[]).map(async (topic) => {
-          // Load comments for this topic using proper query builder API (same as TopicDetail)
-          const commentsData = await db
-            .from('comments')
-            .where('topic_id', topic.id)
-            .order('created_at', 'asc')
-            .execute()
-          
-          return {
-            ...topic,
-            comment_count: (commentsData as any[]).length
-          }
-        })
-      )
+      // First page; comment counts come back with each topic (denormalized column)
+      const page = await TopicRepository.listPage(null, pageSize, feed, userId)
+      const firstPage = page.topics
 
-      setTopics(topicsWithCounts as Topic[])
+      setTopics(firstPage)
+      setNextCursor(page.nextCursor)
+      setIsOffline(false)
       
       // Preload file metadata for all topics with files
-      const preloadPromises = topicsWithCounts
-        .filter((topic: any) => topic.file_id)
-        .map((topic: any) => preloadFileMetadata(topic.file_id))
+      const preloadPromises = firstPage
+        .flatMap((topic) => attachmentFileIds(topic))
+        .map((fileId) => preloadFileMetadata(fileId))
       
       // Don't wait for preloading to complete, just start it
       Promise.all(preloadPromises).catch(error => 
@@ -86,131 +105,215 @@ export const TopicsList: React.FC<TopicsListProps> = ({
       
       // Add 100ms delay to ensure media loads with text content, then hide loading
       setTimeout(() => {
-        const topicIds = new Set(topicsWithCounts.map((topic: any) => topic.id.toString()))
+        const topicIds = new Set(firstPage.map((topic) => topic.id.toString()))
         setVisibleTopics(topicIds)
         setLoading(false)
         setRefreshing(false)
       }, 100)
     } catch (error) {
       console.error('Failed to load topics:', error)
+
+      // Fall back to the topics saved the last time the feed loaded
+      const cachedTopics = await OfflineCache.getTopics()
+      setTopics(cachedTopics)
+      setNextCursor(null)
+      setIsOffline(true)
+      setVisibleTopics(new Set(cachedTopics.map((topic) => topic.id.toString())))
       setLoading(false)
       setRefreshing(false)
+    } finally {
+      isFetchingPage.current = false
+    }
+  }, [feed, pageSize, userId])
+  // Reloads after a sync use the current feed without rerunning on feed changes
+  const loadTopicsRef = useRef(loadTopics)
+  loadTopicsRef.current = loadTopics
+
+  const loadMoreTopics = async () => {
+    if (!nextCursor || isFetchingPage.current || loading || refreshing) return
+
+    try {
+      isFetchingPage.current = true
+      setLoadingMore(true)
+
+      const page = await TopicRepository.listPage(nextCursor, pageSize, feed, userId)
+
+      // Realtime inserts may already have added some of these topics
+      setTopics(currentTopics => mergeById(currentTopics, page.topics))
+      setNextCursor(page.nextCursor)
+      setVisibleTopics(currentVisible => {
+        const newVisible = new Set(currentVisible)
+        page.topics.forEach(topic => newVisible.add(topic.id.toString()))
+        return newVisible
+      })
+
+      Promise.all(
+        page.topics
+          .flatMap((topic) => attachmentFileIds(topic))
+          .map((fileId) => preloadFileMetadata(fileId))
+      ).catch(error => 
+        console.warn('Some files failed to preload:', error)
+      )
+    } catch (error) {
+      console.error('Failed to load more topics:', error)
+    } finally {
+      isFetchingPage.current = false
+      setLoadingMore(false)
     }
   }
 
   useEffect(() => {
-    loadTopics()
+    FeedPreferences.load().then(setFeedOptions)
+  }, [])
 
-    const setupRealtime = async () => {
-      try {
-        await realtime.connect()
-        
-        // Subscribe to topics changes
-        topicsSubscription = realtime.subscribe('topics', async (payload: any) => {
-          console.log('Topics realtime update:', payload)
-          
-          // Handle different types of realtime events
-          if (payload.eventType === 'DELETE') {
-            // Remove deleted topic from the list
-            const deletedTopicId = payload.old?.id?.toString()
-            console.log('Removing deleted topic:', deletedTopicId)
-            
-            setTopics(currentTopics => 
-              currentTopics.filter(topic => topic.id.toString() !== deletedTopicId)
-            )
-            setVisibleTopics(currentVisible => {
-              const newVisible = new Set(currentVisible)
-              newVisible.delete(deletedTopicId)
-              return newVisible
-            })
-          } else if (payload.eventType === 'INSERT') {
-            // Add new topic to the beginning of the list
-            const newTopic = {
-              ...(payload.new as Topic),
-              comment_count: 0,          // new topics start with zero comments
-            }
-            console.log('Adding new topic:', newTopic.id)
-            
-            setTopics(currentTopics => [newTopic, ...currentTopics])
-            setVisibleTopics(currentVisible => {
-              const newVisible = new Set(currentVisible)
-              newVisible.add(newTopic.id.toString())
-              return newVisible
-            })
-          } else if (payload.eventType === 'UPDATE') {
-            // Update existing topic and refetch comment count
-            const updatedTopic = payload.new as Topic
-            console.log('Updating topic:', updatedTopic.id)
-            
-            // Fetch comments for this specific topic to get accurate count
-            const topicComments = await db
-              .from('comments')
-              .where('topic_id', updatedTopic.id)
-              .execute()
-            
-            const commentCount = (topicComments as any[]).length
-            
-            setTopics(currentTopics => 
-              currentTopics.map(topic => 
-                topic.id.toString() === updatedTopic.id.toString()
-                  ? { ...updatedTopic, comment_count: commentCount }
-                  : topic
-              )
-            )
-          } else {
-            // For any other changes, reload all topics
-            console.log('Unknown event type, reloading topics:', payload.eventType)
-            loadTopics()
-          }
-        })
-        
-        // keep comment_count up-to-date
-        commentsSubscription = realtime.subscribe('comments', (payload: any) => {
-          if (payload.eventType === 'INSERT') {
-            const topicId = payload.new.topic_id.toString()
-            setTopics(t =>
-              t.map(tp =>
-                tp.id.toString() === topicId
-                  ? { ...tp, comment_count: (tp.comment_count ?? 0) + 1 }
-                  : tp
-              )
-            )
-          } else if (payload.eventType === 'DELETE') {
-            const topicId = payload.old.topic_id.toString()
-            setTopics(t =>
-              t.map(tp =>
-                tp.id.toString() === topicId
-                  ? {
-                      ...tp,
-                      comment_count: Math.max((tp.comment_count ?? 1) - 1, 0),
-                    }
-                  : tp
-              )
-            )
-          }
+  // Load the first page once preferences are known and whenever the
+  // effective sort or filters change
+  const feedLoaded = feedOptions !== null
+  useEffect(() => {
+    if (feedLoaded) {
+      loadTopics()
+    }
+  }, [feedLoaded, loadTopics])
+
+  const handleFeedChange = useCallback((options: FeedOptions) => {
+    setFeedOptions(options)
+    FeedPreferences.save(options)
+    setRefreshing(true)
+  }, [])
+
+  const handleTagPress = (tagId: string) => {
+    if (feedOptions && feedOptions.filters.tagId !== tagId) {
+      handleFeedChange({ ...feedOptions, filters: { ...feedOptions.filters, tagId } })
+    }
+  }
+
+  // Drop a tag filter whose tag was deleted or merged away
+  const staleTagId = feedOptions?.filters.tagId && !tagsLoading && !tagsById.has(feedOptions.filters.tagId)
+    ? feedOptions.filters.tagId
+    : null
+  useEffect(() => {
+    if (staleTagId && feedOptions) {
+      handleFeedChange({ ...feedOptions, filters: { ...feedOptions.filters, tagId: null } })
+    }
+  }, [staleTagId, feedOptions, handleFeedChange])
+
+  /**
+   * Put a topic where it belongs in the loaded feed. Topics that now sort
+   * after the last loaded one are left to paging, and topics that no
+   * longer match the filters are dropped.
+   */
+  const placeInFeed = (currentTopics: Topic[], topic: Topic): Topic[] => {
+    const others = currentTopics.filter(current => current.id !== topic.id)
+    if (!matchesFeed(topic, feed, userId)) return others
+
+    const last = others[others.length - 1]
+    if (nextCursor && last && compareTopics(topic, last, feed.sort) > 0) return others
+
+    return [...others, topic].sort((a, b) => compareTopics(a, b, feed.sort))
+  }
+
+  const handleTopicChange = (payload: RealtimePayload) => {
+    console.log('Topics realtime update:', payload)
+
+    // Handle different types of realtime events
+    if (payload.eventType === 'DELETE') {
+      // Remove deleted topic from the list
+      const deletedTopicId = payloadRowId(payload.old)
+      if (!deletedTopicId) return
+      console.log('Removing deleted topic:', deletedTopicId)
+
+      setTopics(currentTopics =>
+        currentTopics.filter(topic => topic.id.toString() !== deletedTopicId)
+      )
+      setVisibleTopics(currentVisible => {
+        const newVisible = new Set(currentVisible)
+        newVisible.delete(deletedTopicId)
+        return newVisible
+      })
+    } else if (payload.eventType === 'INSERT') {
+      // Add new topic to the beginning of the list
+      const newTopic = {
+        ...parseTopic(payload.new),
+        comment_count: 0,          // new topics start with zero comments
+      }
+      console.log('Adding new topic:', newTopic.id)
+
+      // A topic synced from the outbox replaces its optimistic row; the
+      // cursor tracks the last loaded topic, so it is unaffected
+      setTopics(currentTopics => placeInFeed(currentTopics, newTopic))
+      setVisibleTopics(currentVisible => {
+        const newVisible = new Set(currentVisible)
+        newVisible.add(newTopic.id.toString())
+        return newVisible
+      })
+    } else if (payload.eventType === 'UPDATE') {
+      // Update existing topic; the row carries its current comment count
+      const updatedTopic = parseTopic(payload.new)
+      console.log('Updating topic:', updatedTopic.id)
+
+      // Counts and activity move topics in the sorted modes, and edits
+      // (e.g. a removed attachment) or a soft delete can take them out of
+      // the feed; a restored topic comes back in its place
+      setTopics(currentTopics => {
+        const current = currentTopics.find(topic => topic.id === updatedTopic.id)
+        return placeInFeed(currentTopics, {
+          ...updatedTopic,
+          comment_count: updatedTopic.comment_count ?? current?.comment_count ?? 0,
         })
+      })
+    } else {
+      // For any other changes, reload all topics
+      console.log('Unknown event type, reloading topics:', payload.eventType)
+      loadTopics()
+    }
+  }
 
-        console.log('✅ Realtime subscription established for topics')
-      } catch (error) {
-        console.warn('Realtime features disabled for topics:', error)
+  // Catch up on topics changed while the connection was down, reloading
+  // instead when more changed than one page holds. Soft-deleted topics are
+  // among the changes; purged rows leave nothing to fetch, so those
+  // disappear on the next refresh.
+  const resyncTopics = async (since: string) => {
+    try {
+      const changed = await TopicRepository.listUpdatedSince(since, pageSize)
+      if (changed.length === pageSize) {
+        loadTopics()
+        return
       }
+
+      setTopics(currentTopics => {
+        // Changed topics are re-placed: deleted ones drop out, and created or
+        // restored ones come in when they sort within the loaded pages
+        return changed.reduce(placeInFeed, currentTopics)
+      })
+      setVisibleTopics(currentVisible => {
+        const newVisible = new Set(currentVisible)
+        changed.forEach(topic => newVisible.add(topic.id.toString()))
+        return newVisible
+      })
+    } catch (error) {
+      console.warn('Failed to resync topics:', error)
     }
+  }
 
-    setupRealtime()
+  useRealtimeChannel('topics', handleTopicChange, resyncTopics)
 
-    return () => {
-      try {
-        if (topicsSubscription?.unsubscribe) topicsSubscription.unsubscribe()
-        if (commentsSubscription?.unsubscribe) commentsSubscription.unsubscribe()   // ← no TS error
-      } catch (error) {
-        console.warn('Error cleaning up realtime subscriptions:', error)
-      }
+  // Reload once queued writes have reached the server
+  useEffect(() => {
+    if (lastSyncedAt) {
+      loadTopicsRef.current()
     }
-  }, [])
+  }, [lastSyncedAt])
+
+  // Keep the offline snapshot current; never overwrite it with the cached copy
+  useEffect(() => {
+    if (!loading && !isOffline) {
+      OfflineCache.saveTopics(topics)
+    }
+  }, [topics, loading, isOffline])
 
   const handleRefresh = () => {
     setRefreshing(true)
-    // loadTopics() will fetch fresh topics AND count comments properly
+    // loadTopics() restarts from the first page
     loadTopics()
   }
 
@@ -225,7 +328,8 @@ export const TopicsList: React.FC<TopicsListProps> = ({
   }
 
   const renderTopic = ({ item }: { item: Topic }) => {
-    const isVisible = visibleTopics.has(item.id.toString())
+    // Rows from the outbox are local, so there is no media to wait for
+    const isVisible = visibleTopics.has(item.id.toString()) || item.sync_status !== undefined
 
     if (!isVisible) {
       return (
@@ -233,7 +337,7 @@ export const TopicsList: React.FC<TopicsListProps> = ({
           <View className="h-5 bg-gray-300 dark:bg-gray-600 rounded mb-2 w-3/4" />
           <View className="h-4 bg-gray-300 dark:bg-gray-600 rounded mb-1.5 w-full" />
           <View className="h-4 bg-gray-300 dark:bg-gray-600 rounded mb-1.5 w-full" />
-          {item.file_id && <View className="h-50 bg-gray-300 dark:bg-gray-600 rounded mb-3" />}
+          {attachmentFileIds(item).length > 0 && <View className="h-50 bg-gray-300 dark:bg-gray-600 rounded mb-3" />}
           <View className="flex-row justify-between items-center mb-1">
             <View className="h-3 bg-gray-300 dark:bg-gray-600 rounded w-15" />
             <View className="h-3 bg-gray-300 dark:bg-gray-600 rounded w-20" />
@@ -248,6 +352,7 @@ export const TopicsList: React.FC<TopicsListProps> = ({
         commentsCount={item.comment_count}
         contentNumberOfLines={2}
         onPress={() => handleTopicPress(item)}
+        onTagPress={handleTagPress}
       />
     )
   }
@@ -268,19 +373,49 @@ export const TopicsList: React.FC<TopicsListProps> = ({
         <View className="flex-row justify-between items-center px-5 pb-2 border-b border-gray-200 dark:border-gray-700">
           <View className="flex-row items-center gap-3">
             <SvgComponent width={40} height={40} />
-            <Text className="text-black dark:text-gray-100 text-lg font-semibold">
-              Open Discussion Board
-            </Text>
+            <View>
+              <Text className="text-black dark:text-gray-100 text-lg font-semibold">
+                Open Discussion Board
+              </Text>
+              <ConnectionStatus />
+            </View>
           </View>
-          <View className="flex-row items-center">
+          <View className="flex-row items-center gap-3">
+            <TouchableOpacity
+              onPress={() => router.push('/search')}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="search" size={22} color="#007AFF" />
+            </TouchableOpacity>
+
+            {canManageTags(user ?? null) && (
+              <TouchableOpacity
+                onPress={() => router.push('/tags')}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons name="pricetags-outline" size={22} color="#007AFF" />
+              </TouchableOpacity>
+            )}
+
+            {isAuthenticated && (
+              <TouchableOpacity
+                onPress={() => router.push('/deleted')}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons name="trash-outline" size={22} color="#007AFF" />
+              </TouchableOpacity>
+            )}
+
             {isAuthenticated ? (
               <View className="flex-row items-center gap-2">
-                {/* subtle bordered avatar */}
-                <View className="w-9 h-9 rounded-full border border-primary-500 justify-center items-center">
-                  <Text className="text-primary-500 font-semibold">
-                    {user?.email?.charAt(0).toUpperCase()}
-                  </Text>
-                </View>
+                {/* own avatar, opens the profile */}
+                <TouchableOpacity
+                  onPress={() => user && router.push({ pathname: '/profile/[userId]', params: { userId: user.id } })}
+                  accessibilityRole="button"
+                  accessibilityLabel="Your profile"
+                >
+                  <Avatar profile={ownProfile} name={authorDisplayName(ownProfile, MEMBER_AUTHOR_NAME)} size={36} />
+                </TouchableOpacity>
 
                 {/* lightweight logout icon */}
                 <TouchableOpacity
@@ -309,14 +444,41 @@ export const TopicsList: React.FC<TopicsListProps> = ({
         </View>
       )}
       
+      {feedOptions && (
+        <FeedControls
+          options={feedOptions}
+          onChange={handleFeedChange}
+          canShowMine={!!user?.id}
+        />
+      )}
+
+      {/* Offline notice */}
+      {isOffline && (
+        <View className="flex-row items-center justify-center gap-2 py-2 bg-gray-200 dark:bg-gray-800">
+          <Ionicons name="cloud-offline-outline" size={16} color="#6b7280" />
+          <Text className="text-xs text-gray-600 dark:text-gray-300">
+            Offline – showing saved topics
+          </Text>
+        </View>
+      )}
+
       {/* Topics List */}
       <FlatList
-        data={topics}
+        data={applyPendingTopics(topics, outboxEntries)}
         keyExtractor={(item) => item.id.toString()}
         renderItem={renderTopic}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
         }
+        onEndReached={loadMoreTopics}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? (
+            <View className="py-4 items-center">
+              <ActivityIndicator size="small" color="#007AFF" />
+            </View>
+          ) : null
+        }
         contentContainerStyle={{ padding: 15 }}
         showsVerticalScrollIndicator={false}
         removeClippedSubviews={true}
@@ -0,0 +1,77 @@
+import React from 'react'
+import { Text, TouchableOpacity, View } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { AttachmentUpload } from '@/hooks/useAttachmentUploads'
+import { formatFileSize } from '@/lib/utils'
+
+interface UploadProgressListProps {
+  uploads: AttachmentUpload[]
+  onCancel: () => void
+}
+
+const statusLabel = (upload: AttachmentUpload): string => {
+  switch (upload.status) {
+    case 'waiting':
+      return 'Waiting'
+    case 'done':
+      return 'Uploaded'
+    case 'failed':
+      return upload.error ?? 'Upload failed'
+    case 'canceled':
+      return 'Canceled'
+    default:
+      return upload.totalBytes > 0
+        ? `${formatFileSize(upload.sentBytes)} of ${formatFileSize(upload.totalBytes)}`
+        : 'Preparing…'
+  }
+}
+
+/**
+ * Progress of a composer's uploads: one bar per file, and a cancel button
+ * while a file is uploading
+ */
+export const UploadProgressList: React.FC<UploadProgressListProps> = ({ uploads, onCancel }) => {
+  if (uploads.length === 0) return null
+
+  const uploading = uploads.some(upload => upload.status === 'uploading')
+
+  return (
+    <View className="bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg p-3 gap-3">
+      {uploads.map(upload => {
+        const percent = upload.status === 'done'
+          ? 100
+          : upload.totalBytes > 0 ? Math.floor((upload.sentBytes / upload.totalBytes) * 100) : 0
+
+        return (
+          <View key={upload.uri}>
+            <View className="flex-row items-center justify-between mb-1">
+              <Text className="text-sm text-gray-900 dark:text-white flex-1 mr-2" numberOfLines={1}>
+                {upload.fileName}
+              </Text>
+              <Text className="text-xs text-gray-500 dark:text-gray-400">{percent}%</Text>
+            </View>
+            <View className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+              <View
+                className={`h-full rounded-full ${upload.status === 'failed' ? 'bg-red-500' : 'bg-primary-500'}`}
+                style={{ width: `${percent}%` }}
+              />
+            </View>
+            <Text
+              className={`text-xs mt-1 ${upload.status === 'failed' ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}
+              numberOfLines={2}
+            >
+              {statusLabel(upload)}
+            </Text>
+          </View>
+        )
+      })}
+
+      {uploading && (
+        <TouchableOpacity className="flex-row items-center justify-center py-2" onPress={onCancel}>
+          <Ionicons name="close-circle-outline" size={18} color="#ff4757" />
+          <Text className="text-red-500 text-sm font-medium ml-1">Cancel upload</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  )
+}
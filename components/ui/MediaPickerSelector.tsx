@@ -1,18 +1,42 @@
-import React from 'react'
-import { View, TouchableOpacity, Text, Alert } from 'react-native'
+import React, { useState } from 'react'
+import { View, TouchableOpacity, Text, Alert, ActivityIndicator } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
+import { ImagePickerAsset } from 'expo-image-picker'
 import { useImagePicker } from '@/lib/deviceUtils'
+import { MediaPipeline } from '@/services/mediaPipeline'
 
 interface MediaPickerSelectorProps {
-  onFileSelected: (uri: string) => void
+  /** picked files, compressed and within the size limits, in the order they were selected */
+  onFilesSelected: (uris: string[]) => void
+  /** most files that can still be added (omit for no limit) */
+  maxFiles?: number
   disabled?: boolean
 }
 
 export const MediaPickerSelector: React.FC<MediaPickerSelectorProps> = ({
-  onFileSelected,
-  disabled = false,
+  onFilesSelected,
+  maxFiles,
+  disabled: disabledProp = false,
 }) => {
   const { launchCamera, launchImageLibrary } = useImagePicker()
+  const [processing, setProcessing] = useState(false)
+  const disabled = disabledProp || processing
+
+  // Files over a limit are left out, with the reason for each
+  const addAssets = async (assets: ImagePickerAsset[]) => {
+    setProcessing(true)
+    try {
+      const { uris, errors } = await MediaPipeline.prepareAll(assets)
+      if (uris.length > 0) {
+        onFilesSelected(uris)
+      }
+      if (errors.length > 0) {
+        Alert.alert(errors.length === 1 ? 'File not added' : 'Files not added', errors.join('\n\n'))
+      }
+    } finally {
+      setProcessing(false)
+    }
+  }
 
   const pickFromCamera = async () => {
     if (disabled) return
@@ -20,7 +44,7 @@ export const MediaPickerSelector: React.FC<MediaPickerSelectorProps> = ({
     try {
       const result = await launchCamera()
       if (result && !result.canceled && result.assets[0]) {
-        onFileSelected(result.assets[0].uri)
+        await addAssets([result.assets[0]])
       }
     } catch (error) {
       console.error('Camera error:', error)
@@ -32,9 +56,10 @@ export const MediaPickerSelector: React.FC<MediaPickerSelectorProps> = ({
     if (disabled) return
     
     try {
-      const result = await launchImageLibrary()
-      if (result && !result.canceled && result.assets[0]) {
-        onFileSelected(result.assets[0].uri)
+      const result = await launchImageLibrary(maxFiles ?? 0)
+      if (result && !result.canceled && result.assets.length > 0) {
+        // Not every platform honours the selection limit
+        await addAssets(maxFiles === undefined ? result.assets : result.assets.slice(0, maxFiles))
       }
     } catch (error) {
       console.error('Image library error:', error)
@@ -44,25 +69,32 @@ export const MediaPickerSelector: React.FC<MediaPickerSelectorProps> = ({
 
   return (
     <View className="border border-gray-300 bg-transparent active:bg-gray-50 dark:border-gray-600 dark:active:bg-gray-700 rounded-lg px-4 py-2.5">
-      <View className="flex-row justify-center items-center gap-6">
-        <TouchableOpacity
-          onPress={pickFromCamera}
-          disabled={disabled}
-          className={`items-center ${disabled ? 'opacity-60' : ''}`}
-        >
-          <Ionicons name="camera" size={20} color="#007AFF" />
-          <Text className="text-gray-900 dark:text-gray-100 text-base font-medium mt-1">Camera</Text>
-        </TouchableOpacity>
+      {processing ? (
+        <View className="flex-row justify-center items-center py-2.5">
+          <ActivityIndicator size="small" color="#007AFF" />
+          <Text className="text-gray-500 dark:text-gray-400 text-sm ml-2">Preparing files…</Text>
+        </View>
+      ) : (
+        <View className="flex-row justify-center items-center gap-6">
+          <TouchableOpacity
+            onPress={pickFromCamera}
+            disabled={disabled}
+            className={`items-center ${disabled ? 'opacity-60' : ''}`}
+          >
+            <Ionicons name="camera" size={20} color="#007AFF" />
+            <Text className="text-gray-900 dark:text-gray-100 text-base font-medium mt-1">Camera</Text>
+          </TouchableOpacity>
         
-        <TouchableOpacity
-          onPress={pickFromLibrary}
-          disabled={disabled}
-          className={`items-center ${disabled ? 'opacity-60' : ''}`}
-        >
-          <Ionicons name="image" size={20} color="#007AFF" />
-          <Text className="text-gray-900 dark:text-gray-100 text-base font-medium mt-1">Photos</Text>
-        </TouchableOpacity>
-      </View>
+          <TouchableOpacity
+            onPress={pickFromLibrary}
+            disabled={disabled}
+            className={`items-center ${disabled ? 'opacity-60' : ''}`}
+          >
+            <Ionicons name="image" size={20} color="#007AFF" />
+            <Text className="text-gray-900 dark:text-gray-100 text-base font-medium mt-1">Photos</Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </View>
   )
 }
@@ -0,0 +1,10 @@
+/**
+ * Account rules shared by the sign-up and password reset forms. The minimum length must not be below the server's.
+ */
+
+export const AuthRules = {
+  // Shortest password accepted when registering or resetting it
+  minPasswordLength: 6,
+  // Seconds before another verification email can be requested
+  resendCooldownSeconds: 60,
+};
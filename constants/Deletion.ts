@@ -0,0 +1,10 @@
+/**
+ * Timing of soft deletes. The retention window must match the --retention-days the purge job runs with.
+ */
+
+export const Deletion = {
+  // How long the undo snackbar stays up after a delete, in seconds
+  undoSeconds: 5,
+  // Days deleted topics and comments stay restorable before they are purged
+  retentionDays: 30,
+};
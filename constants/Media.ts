@@ -0,0 +1,24 @@
+/**
+ * Limits for attachments, applied on the device before anything is uploaded. Sizes are in bytes.
+ */
+
+const MB = 1024 * 1024;
+
+export const MediaLimits = {
+  // Photos are scaled down so their longest side is at most this many pixels
+  imageMaxDimension: 2048,
+  // JPEG/WebP quality photos are re-encoded with (0-1)
+  imageQuality: 0.8,
+  // Profile pictures are cropped square and scaled to this many pixels
+  avatarDimension: 512,
+  // Longest video that can be attached, in seconds
+  videoMaxDurationSeconds: 180,
+  // Largest file per media type, after compression
+  maxBytes: {
+    image: 10 * MB,
+    video: 100 * MB,
+    audio: 25 * MB,
+    pdf: 25 * MB,
+    other: 25 * MB,
+  },
+};
@@ -0,0 +1,9 @@
+/**
+ * Page sizes for the paginated lists in the app. Lists accept a `pageSize` prop to override these defaults.
+ */
+
+export const Pagination = {
+  topicsPageSize: 20,
+  commentsPageSize: 30,
+  searchPageSize: 20,
+};
@@ -0,0 +1,9 @@
+/**
+ * Reactions offered on topics and comments. Reacting requires signing in.
+ */
+
+export const Reactions = {
+  // Offered in this order; the first one is the upvote that drives the 'top' sort
+  emojis: ['👍', '❤️', '😂', '😮', '😢'],
+  upvote: '👍',
+};
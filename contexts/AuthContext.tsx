@@ -1,6 +1,34 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
+import React, { createContext, useCallback, useContext, useState, useEffect, ReactNode } from 'react'
+import { AppState } from 'react-native'
 import { User, AuthContextType } from '@/types'
+import { NetworkError, toDataAccessError, UnauthorizedError } from '@/services/errors'
 import { auth } from '@/services/selfdb'
+import { DataScope } from '@/services/dataScope'
+import { Drafts } from '@/services/drafts'
+import { OfflineCache } from '@/services/offlineCache'
+import { Outbox } from '@/services/outbox'
+import { ProfileService } from '@/services/profileService'
+import { Session } from '@/services/session'
+import { TokenStore } from '@/services/tokenStore'
+
+// How often to check a user restored offline once more, besides whenever
+// the app comes back to the foreground
+const USER_RECHECK_INTERVAL_MS = 30_000
+
+/**
+ * Load the signed-in user from SelfDB, refreshing the session first when
+ * the restored access token has expired
+ */
+async function fetchSessionUser(): Promise<User> {
+  try {
+    return await auth.getUser()
+  } catch (error) {
+    // The restored access token may have expired while the app was closed
+    if (!(toDataAccessError(error, 'load the user') instanceof UnauthorizedError)) throw error
+    await Session.refresh()
+    return await auth.getUser()
+  }
+}
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
@@ -19,12 +47,72 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
+  const [sessionExpired, setSessionExpired] = useState(false)
+  // Signed in as the user stored with the tokens, because SelfDB couldn't
+  // be reached on boot
+  const [userUnverified, setUserUnverified] = useState(false)
+
+  // A session whose refresh token is rejected is signed out locally; the
+  // prompt (SessionExpiredPrompt) offers to sign in again
+  useEffect(() => Session.onExpired(() => {
+    console.log('Session expired, signing out')
+    setUser(null)
+    setUserUnverified(false)
+    setSessionExpired(true)
+    auth.logout().catch((error: unknown) => {
+      console.warn('Failed to clear the expired session:', error)
+    })
+  }), [])
+
+  const dismissSessionExpired = useCallback(() => setSessionExpired(false), [])
+
+  // Every signed-in user gets a profile, with a generated name at first
+  useEffect(() => {
+    if (user) ProfileService.ensureOwn(user)
+  }, [user])
+
+  // Kept next to the tokens, so the app can start offline as this user
+  useEffect(() => {
+    if (user) TokenStore.saveUser(user)
+  }, [user])
+
+  // Check a user restored offline once SelfDB can be reached again. A
+  // rejected session expires through Session and signs the user out.
+  useEffect(() => {
+    if (!userUnverified) return
+    let checking = false
+    const recheck = async () => {
+      if (checking) return
+      checking = true
+      try {
+        const fetchedUser = await fetchSessionUser()
+        console.log('Stored user confirmed:', fetchedUser.id)
+        setUser(fetchedUser)
+        setUserUnverified(false)
+      } catch (error) {
+        console.warn('Failed to confirm the stored user:', error)
+      } finally {
+        checking = false
+      }
+    }
+    const timer = setInterval(recheck, USER_RECHECK_INTERVAL_MS)
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') recheck()
+    })
+    return () => {
+      clearInterval(timer)
+      subscription.remove()
+    }
+  }, [userUnverified])
 
   useEffect(() => {
     // Check if user is already logged in
     const checkAuth = async () => {
       try {
         console.log('Checking auth state...')
+        // Tokens persisted by the last run, see Session
+        const restored = await Session.restore()
+        console.log('Session restored from storage:', restored)
         const isAuthenticated = auth.isAuthenticated()
         console.log('Auth.isAuthenticated():', isAuthenticated)
         
@@ -33,13 +121,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           console.log('Current user from memory:', currentUser)
           
           if (currentUser) {
+            DataScope.set(currentUser.id)
             setUser(currentUser)
+            Session.start()
             console.log('User set from memory:', currentUser.email)
           } else {
             // Try to fetch user info if not available in memory
             console.log('Fetching user from API...')
-            const fetchedUser = await auth.getUser()
+            Session.start()
+            const fetchedUser = await fetchSessionUser()
             console.log('User fetched from API:', fetchedUser)
+            DataScope.set(fetchedUser.id)
             setUser(fetchedUser)
           }
         } else {
@@ -48,8 +140,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         }
       } catch (error) {
         console.error('Auth check failed:', error)
-        // Clear any invalid auth state
+        // An expired session was already signed out
+        if (Session.isExpired()) return
+        // Offline: carry on as the user stored with the tokens, and check
+        // again once SelfDB can be reached. Without a stored user the
+        // session is kept for the next start.
+        if (toDataAccessError(error, 'check the session') instanceof NetworkError) {
+          const storedUser = await TokenStore.loadUser()
+          if (storedUser) {
+            console.log('Offline, using the stored user:', storedUser.id)
+            DataScope.set(storedUser.id)
+            setUser(storedUser)
+            setUserUnverified(true)
+            return
+          }
+          setUser(null)
+          Session.stop({ keepTokens: true })
+          return
+        }
         setUser(null)
+        // Clear any invalid auth state
+        Session.stop()
         try {
           await auth.logout()
         } catch (logoutError) {
@@ -75,7 +186,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       console.log('User after login:', currentUser)
       
       // Use the user object from the response (now added by the SDK)
+      DataScope.set(response.user.id)
       setUser(response.user)
+      setUserUnverified(false)
+      setSessionExpired(false)
+      Session.start()
       console.log('User set in context:', response.user.email)
     } catch (error) {
       console.error('Login failed:', error)
@@ -105,10 +220,31 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }
 
+  // Reload the user after the account changed, e.g. its email was verified
+  const refreshUser = async () => {
+    if (!user) return
+    try {
+      const fetchedUser = await auth.getUser()
+      setUser(fetchedUser)
+    } catch (error) {
+      console.error('Failed to refresh the user:', error)
+    }
+  }
+
+  // Forget what the signed-out user left on the device: their queued
+  // writes, cached posts and drafts. An expired session keeps them.
+  const clearUserData = async () => {
+    await Promise.all([Outbox.clear(), OfflineCache.clear(), Drafts.clearAll()])
+    DataScope.set(null)
+  }
+
   const logout = async () => {
     try {
       setLoading(true)
       console.log('Attempting logout...')
+      Session.stop()
+      setUserUnverified(false)
+      await clearUserData()
       await auth.logout()
       console.log('Logout successful')
       setUser(null)
@@ -129,7 +265,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     login,
     register,
     logout,
-    loading
+    refreshUser,
+    loading,
+    sessionExpired,
+    dismissSessionExpired
   }
 
   return (
@@ -0,0 +1,91 @@
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react'
+import {
+  RealtimeFilter,
+  RealtimeManager,
+  RealtimePayload,
+  RealtimeStatus,
+  RealtimeTable,
+  ResyncHandler,
+} from '@/services/realtimeManager'
+import { MutationService } from '@/services/mutationService'
+
+interface RealtimeContextType {
+  status: RealtimeStatus
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined)
+
+export const useRealtime = () => {
+  const context = useContext(RealtimeContext)
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider')
+  }
+  return context
+}
+
+/**
+ * Connection status for a "live / reconnecting / offline" indicator
+ */
+export const useRealtimeStatus = (): RealtimeStatus => useRealtime().status
+
+/**
+ * Listen to realtime changes of a table while the component is mounted.
+ * Handlers may change between renders; the latest ones are always called
+ * without re-subscribing the channel.
+ *
+ * @param onResync Called after a reconnect to fetch changes missed meanwhile
+ * @param filter Only receive changes to matching rows, e.g. one topic's comments
+ */
+export function useRealtimeChannel(
+  table: RealtimeTable,
+  onChange: (payload: RealtimePayload) => void,
+  onResync?: ResyncHandler,
+  filter?: RealtimeFilter
+) {
+  const handlers = useRef({ onChange, onResync })
+  handlers.current = { onChange, onResync }
+  // Compare the filter by value so an inline object doesn't re-subscribe
+  const filterColumn = filter?.column
+  const filterValue = filter?.value
+
+  useEffect(() => {
+    return RealtimeManager.subscribe(
+      table,
+      payload => handlers.current.onChange(payload),
+      since => handlers.current.onResync?.(since),
+      filterColumn && filterValue !== undefined
+        ? { column: filterColumn, value: filterValue }
+        : undefined
+    )
+  }, [table, filterColumn, filterValue])
+}
+
+interface RealtimeProviderProps {
+  children: ReactNode
+}
+
+export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({ children }) => {
+  const [status, setStatus] = useState<RealtimeStatus>(RealtimeManager.getStatus())
+
+  useEffect(() => {
+    const stopWatching = RealtimeManager.onStatusChange(setStatus)
+    const stop = RealtimeManager.start()
+    return () => {
+      stopWatching()
+      stop()
+    }
+  }, [])
+
+  // Connection is back: push writes queued while offline
+  useEffect(() => {
+    if (status === 'live') {
+      MutationService.flushOutbox()
+    }
+  }, [status])
+
+  return (
+    <RealtimeContext.Provider value={{ status }}>
+      {children}
+    </RealtimeContext.Provider>
+  )
+}
@@ -0,0 +1,85 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react'
+import { Text, TouchableOpacity, View } from 'react-native'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+
+export interface SnackbarOptions {
+  message: string
+  actionLabel?: string
+  onAction?: () => void
+  /** seconds the snackbar stays up; defaults to 4 */
+  duration?: number
+}
+
+interface SnackbarContextType {
+  /** Show a snackbar, replacing the one currently shown */
+  show: (options: SnackbarOptions) => void
+  hide: () => void
+}
+
+const DEFAULT_DURATION_SECONDS = 4
+
+const SnackbarContext = createContext<SnackbarContextType | undefined>(undefined)
+
+export const useSnackbar = () => {
+  const context = useContext(SnackbarContext)
+  if (context === undefined) {
+    throw new Error('useSnackbar must be used within a SnackbarProvider')
+  }
+  return context
+}
+
+interface SnackbarProviderProps {
+  children: ReactNode
+}
+
+/**
+ * Short messages at the bottom of the screen, with an optional action such
+ * as undoing a delete. One snackbar is shown at a time.
+ */
+export const SnackbarProvider: React.FC<SnackbarProviderProps> = ({ children }) => {
+  const insets = useSafeAreaInsets()
+  const [snackbar, setSnackbar] = useState<SnackbarOptions | null>(null)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const hide = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+    timerRef.current = null
+    setSnackbar(null)
+  }, [])
+
+  const show = useCallback((options: SnackbarOptions) => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+    setSnackbar(options)
+    timerRef.current = setTimeout(hide, (options.duration ?? DEFAULT_DURATION_SECONDS) * 1000)
+  }, [hide])
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+  }, [])
+
+  const handleAction = () => {
+    const action = snackbar?.onAction
+    hide()
+    action?.()
+  }
+
+  return (
+    <SnackbarContext.Provider value={{ show, hide }}>
+      {children}
+      {snackbar && (
+        <View
+          className="absolute left-4 right-4 flex-row items-center bg-gray-900 dark:bg-gray-700 rounded-lg px-4 py-3 shadow-lg"
+          style={{ bottom: insets.bottom + 16 }}
+          accessibilityLiveRegion="polite"
+        >
+          <Text className="flex-1 text-white text-sm">{snackbar.message}</Text>
+          {snackbar.actionLabel && (
+            <TouchableOpacity className="ml-4" onPress={handleAction}>
+              <Text className="text-primary-300 font-semibold text-sm uppercase">{snackbar.actionLabel}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </SnackbarContext.Provider>
+  )
+}
@@ -0,0 +1,59 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react'
+import { Tag } from '@/types'
+import { TagRepository } from '@/services/tagRepository'
+import { useRealtimeChannel } from './RealtimeContext'
+
+interface TagsContextType {
+  tags: Tag[]
+  /** tags by id, for resolving a topic's tag_ids */
+  tagsById: Map<string, Tag>
+  loading: boolean
+  refresh: () => Promise<void>
+}
+
+const TagsContext = createContext<TagsContextType | undefined>(undefined)
+
+export const useTags = () => {
+  const context = useContext(TagsContext)
+  if (context === undefined) {
+    throw new Error('useTags must be used within a TagsProvider')
+  }
+  return context
+}
+
+interface TagsProviderProps {
+  children: ReactNode
+}
+
+/**
+ * Loads the tag list once and keeps it current: the list is small, so any
+ * change to the tags table simply reloads it.
+ */
+export const TagsProvider: React.FC<TagsProviderProps> = ({ children }) => {
+  const [tags, setTags] = useState<Tag[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      setTags(await TagRepository.list())
+    } catch (error) {
+      console.warn('Failed to load tags:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  useRealtimeChannel('tags', () => refresh(), () => refresh())
+
+  const tagsById = useMemo(() => new Map(tags.map(tag => [tag.id, tag])), [tags])
+
+  return (
+    <TagsContext.Provider value={{ tags, tagsById, loading, refresh }}>
+      {children}
+    </TagsContext.Provider>
+  )
+}
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { PendingAttachment } from '@/types';
+import { isLocalAttachment } from '@/lib/attachments';
+import { CanceledError } from '@/services/errors';
+import { deleteStoredFiles, localFileName } from '@/services/fileStorage';
+import { UploadHandle, UploadManager } from '@/services/uploadManager';
+
+export type AttachmentUploadStatus = 'waiting' | 'uploading' | 'done' | 'failed' | 'canceled';
+
+export interface AttachmentUpload {
+  uri: string;
+  fileName: string;
+  sentBytes: number;
+  totalBytes: number;
+  status: AttachmentUploadStatus;
+  error?: string;
+}
+
+/**
+ * Upload a composer's picked files before posting, one at a time, with
+ * byte progress per file and a way to cancel.
+ *
+ * Files already uploaded are reused when posting is retried. Files that
+ * were uploaded but never posted (the composer closed, or the attachment
+ * removed) are deleted when the composer unmounts.
+ */
+export function useAttachmentUploads() {
+  const [uploads, setUploads] = useState<AttachmentUpload[]>([]);
+  // Local URI → stored file id, for uploads not yet part of a post
+  const uploaded = useRef(new Map<string, string>());
+  const active = useRef<UploadHandle | null>(null);
+
+  const update = (uri: string, changes: Partial<AttachmentUpload>) =>
+    setUploads(current => current.map(upload => (upload.uri === uri ? { ...upload, ...changes } : upload)));
+
+  /**
+   * Replace local attachments that are already uploaded by their stored file
+   */
+  const resolveUploaded = useCallback(
+    (attachments: PendingAttachment[]): PendingAttachment[] =>
+      attachments.map(attachment => {
+        if (!isLocalAttachment(attachment)) return attachment;
+        const fileId = uploaded.current.get(attachment.local_uri);
+        return fileId ? { file_id: fileId } : attachment;
+      }),
+    []
+  );
+
+  /**
+   * Upload every local attachment that isn't uploaded yet
+   *
+   * @returns The list with all attachments stored
+   * @throws The first upload error (CanceledError when canceled); files
+   *   uploaded before it are kept for the next attempt
+   */
+  const uploadAll = useCallback(
+    async (attachments: PendingAttachment[]): Promise<PendingAttachment[]> => {
+      setUploads(
+        attachments.filter(isLocalAttachment).map(({ local_uri: uri }) => ({
+          uri,
+          fileName: localFileName(uri),
+          sentBytes: 0,
+          totalBytes: 0,
+          status: uploaded.current.has(uri) ? 'done' : 'waiting',
+        }))
+      );
+
+      for (const attachment of attachments) {
+        if (!isLocalAttachment(attachment) || uploaded.current.has(attachment.local_uri)) continue;
+        const uri = attachment.local_uri;
+
+        update(uri, { status: 'uploading', error: undefined });
+        const handle = UploadManager.upload(uri, (sentBytes, totalBytes) => update(uri, { sentBytes, totalBytes }));
+        active.current = handle;
+        try {
+          uploaded.current.set(uri, await handle.promise);
+          update(uri, { status: 'done' });
+        } catch (error) {
+          update(
+            uri,
+            error instanceof CanceledError
+              ? { status: 'canceled' }
+              : { status: 'failed', error: error instanceof Error ? error.message : String(error) }
+          );
+          throw error;
+        } finally {
+          active.current = null;
+        }
+      }
+
+      return resolveUploaded(attachments);
+    },
+    [resolveUploaded]
+  );
+
+  /**
+   * Cancel the upload in progress
+   */
+  const cancel = useCallback(() => {
+    active.current?.cancel();
+  }, []);
+
+  /**
+   * Hand the uploaded files over to a saved post. Uploads the post doesn't
+   * use are deleted.
+   */
+  const markPosted = useCallback((posted: PendingAttachment[]) => {
+    const postedIds = new Set(posted.flatMap(attachment => (isLocalAttachment(attachment) ? [] : [attachment.file_id])));
+    const unused = [...uploaded.current.values()].filter(fileId => !postedIds.has(fileId));
+    uploaded.current.clear();
+    setUploads([]);
+    deleteStoredFiles(unused, 'unused upload');
+  }, []);
+
+  // Leaving the composer abandons its uploads
+  useEffect(() => {
+    const pending = uploaded.current;
+    return () => {
+      active.current?.cancel();
+      deleteStoredFiles([...pending.values()], 'unposted upload');
+    };
+  }, []);
+
+  return { uploads, uploadAll, resolveUploaded, cancel, markPosted };
+}
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { Drafts } from '@/services/drafts';
+import { ComposerDraft } from '@/types';
+
+// Typing is saved once it pauses this long
+const SAVE_DELAY = 500;
+
+/**
+ * Keep a composer's unsent contents as a draft on the device.
+ *
+ * The stored draft is handed to `restore` once on mount, after which every
+ * change is saved. Pending changes are saved right away when the composer
+ * unmounts, e.g. when a forced sign-out replaces the screen.
+ *
+ * @param key Identifies the composer, see `Drafts`
+ * @param draft Current contents, or null when there is nothing worth keeping
+ * @returns `clear` discards the draft, after posting or an explicit cancel
+ */
+export function useComposerDraft(
+  key: string,
+  draft: ComposerDraft | null,
+  restore: (draft: ComposerDraft) => void
+): { clear: () => Promise<void> } {
+  const [restored, setRestored] = useState(false);
+  const pending = useRef<{ draft: ComposerDraft | null } | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const restoreRef = useRef(restore);
+  restoreRef.current = restore;
+
+  const flush = useCallback(() => {
+    if (timer.current) {
+      clearTimeout(timer.current);
+      timer.current = null;
+    }
+    const next = pending.current;
+    pending.current = null;
+    if (!next) return;
+    if (next.draft) Drafts.save(key, next.draft);
+    else Drafts.clear(key);
+  }, [key]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRestored(false);
+    Drafts.load(key).then(stored => {
+      if (cancelled) return;
+      if (stored) restoreRef.current(stored);
+      setRestored(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  // Compared serialized so callers can build the draft inline
+  const serialized = draft ? JSON.stringify(draft) : null;
+  useEffect(() => {
+    // Saving before the stored draft is restored would overwrite it
+    if (!restored) return;
+    pending.current = { draft: serialized ? JSON.parse(serialized) : null };
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = setTimeout(flush, SAVE_DELAY);
+  }, [restored, serialized, flush]);
+
+  useEffect(() => flush, [flush]);
+
+  const clear = useCallback(async () => {
+    pending.current = null;
+    if (timer.current) {
+      clearTimeout(timer.current);
+      timer.current = null;
+    }
+    await Drafts.clear(key);
+  }, [key]);
+
+  return { clear };
+}
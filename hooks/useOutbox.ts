@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+
+import { Outbox, OutboxEntry } from '@/services/outbox';
+
+/**
+ * Subscribe to the offline outbox.
+ *
+ * `lastSyncedAt` changes whenever queued writes reach the server, so screens
+ * can reload from it after reconnecting.
+ */
+export function useOutbox(): { entries: OutboxEntry[]; lastSyncedAt: number } {
+  const [entries, setEntries] = useState<OutboxEntry[]>(Outbox.getEntries());
+  const [lastSyncedAt, setLastSyncedAt] = useState(Outbox.getLastSyncedAt());
+
+  useEffect(() => {
+    const unsubscribe = Outbox.subscribe(current => {
+      setEntries(current);
+      setLastSyncedAt(Outbox.getLastSyncedAt());
+    });
+    Outbox.load();
+    return unsubscribe;
+  }, []);
+
+  return { entries, lastSyncedAt };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+
+import { ProfileService } from '@/services/profileService';
+import { Profile } from '@/types';
+
+/**
+ * A user's profile, kept up to date when it changes.
+ *
+ * @param userId Omitted for anonymous authors
+ * @returns undefined while loading, null when the user has no profile
+ */
+export function useProfile(userId: string | undefined): Profile | null | undefined {
+  const [profile, setProfile] = useState<Profile | null | undefined>(() =>
+    userId ? ProfileService.peek(userId) : null
+  );
+
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null);
+      return;
+    }
+
+    let cancelled = false;
+    setProfile(ProfileService.peek(userId));
+    ProfileService.get(userId).then(loaded => {
+      if (!cancelled) setProfile(loaded);
+    });
+    const unsubscribe = ProfileService.subscribe((changedId, changed) => {
+      if (changedId === userId) setProfile(changed);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  return profile;
+}
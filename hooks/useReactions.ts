@@ -0,0 +1,91 @@
+import { useEffect, useMemo, useState } from 'react';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { ReactionService } from '@/services/reactionService';
+import { ReactionCounts, ReactionTargetType } from '@/types';
+
+// A toggle shown before the row's counts reflect it. It applies while the
+// row still carries the counts it was made against; the next counts the
+// server sends (through realtime) include it.
+interface PendingToggle {
+  emoji: string;
+  delta: 1 | -1;
+  baseCounts: ReactionCounts | undefined;
+}
+
+/**
+ * Reactions of one topic or comment with optimistic toggling.
+ *
+ * @param counts The row's `reaction_counts`, kept live by realtime updates
+ * @returns `canReact` is false while nobody is signed in
+ */
+export function useReactions(
+  targetType: ReactionTargetType,
+  targetId: string,
+  counts: ReactionCounts | undefined
+): {
+  counts: ReactionCounts;
+  mine: Set<string>;
+  canReact: boolean;
+  toggle: (emoji: string) => Promise<void>;
+} {
+  const { user } = useAuth();
+  const userId: string | undefined = user?.id;
+  const [mine, setMine] = useState<Set<string>>(new Set());
+  const [pending, setPending] = useState<PendingToggle[]>([]);
+
+  useEffect(() => {
+    setMine(new Set());
+    if (!userId) return;
+    let cancelled = false;
+    ReactionService.mineFor(targetType, targetId, userId)
+      .then(loaded => {
+        if (!cancelled) setMine(loaded);
+      })
+      .catch(error => console.warn(`Failed to load reactions on ${targetType} ${targetId}:`, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, targetType, targetId]);
+
+  // Fresh counts from the server supersede the optimistic toggles
+  useEffect(() => {
+    setPending(current => current.filter(toggle => toggle.baseCounts === counts));
+  }, [counts]);
+
+  const displayed = useMemo(() => {
+    const result: ReactionCounts = { ...counts };
+    for (const toggle of pending) {
+      if (toggle.baseCounts !== counts) continue;
+      const next = (result[toggle.emoji] ?? 0) + toggle.delta;
+      if (next > 0) result[toggle.emoji] = next;
+      else delete result[toggle.emoji];
+    }
+    return result;
+  }, [counts, pending]);
+
+  const toggle = async (emoji: string) => {
+    if (!userId) return;
+    const add = !mine.has(emoji);
+    const entry: PendingToggle = { emoji, delta: add ? 1 : -1, baseCounts: counts };
+
+    const flip = (current: Set<string>, on: boolean) => {
+      const next = new Set(current);
+      if (on) next.add(emoji);
+      else next.delete(emoji);
+      return next;
+    };
+    setMine(current => flip(current, add));
+    setPending(current => [...current, entry]);
+
+    try {
+      await ReactionService.toggle(targetType, targetId, emoji, userId, add);
+    } catch (error) {
+      setMine(current => flip(current, !add));
+      setPending(current => current.filter(toggle => toggle !== entry));
+      throw error;
+    }
+  };
+
+  return { counts: displayed, mine, canReact: !!userId, toggle };
+}
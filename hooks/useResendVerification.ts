@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { AccountService } from '@/services/accountService';
+
+/**
+ * Resend the signed-in user's verification email, at most once per
+ * cooldown period (shared by every caller).
+ *
+ * @returns `cooldown` is the number of seconds before `resend` may be
+ *   called again, counting down
+ */
+export function useResendVerification(): {
+  resend: () => Promise<void>;
+  sending: boolean;
+  cooldown: number;
+} {
+  const { user } = useAuth();
+  const [sending, setSending] = useState(false);
+  const [cooldown, setCooldown] = useState(() => AccountService.resendCooldown());
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(AccountService.resendCooldown()), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const resend = async () => {
+    if (!user?.email) return;
+    setSending(true);
+    try {
+      await AccountService.resendVerification(user.email);
+    } finally {
+      setSending(false);
+      setCooldown(AccountService.resendCooldown());
+    }
+  };
+
+  return { resend, sending, cooldown };
+}
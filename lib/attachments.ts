@@ -0,0 +1,65 @@
+import { PendingAttachment } from '@/types'
+
+// Ordered attachments of topics and comments. Rows store their files in
+// `file_ids`; `file_id` mirrors the first one for clients that predate the list.
+
+// Most files one topic or comment can carry
+export const MAX_ATTACHMENTS = 10
+
+interface WithAttachments {
+  file_id?: string
+  file_ids?: string[]
+  pending_attachments?: PendingAttachment[]
+}
+
+export function isLocalAttachment(attachment: PendingAttachment): attachment is { local_uri: string } {
+  return 'local_uri' in attachment
+}
+
+/**
+ * Stable key of an attachment, for lists
+ */
+export function attachmentKey(attachment: PendingAttachment): string {
+  return isLocalAttachment(attachment) ? `local:${attachment.local_uri}` : `file:${attachment.file_id}`
+}
+
+/**
+ * Stored attachment ids of a row, in display order
+ */
+export function attachmentFileIds(row: WithAttachments): string[] {
+  if (row.file_ids && row.file_ids.length > 0) return row.file_ids
+  return row.file_id ? [row.file_id] : []
+}
+
+/**
+ * What a card shows: the queued attachments of a row waiting in the
+ * outbox, otherwise its stored files
+ */
+export function displayedAttachments(row: WithAttachments): PendingAttachment[] {
+  return row.pending_attachments ?? attachmentFileIds(row).map(fileId => ({ file_id: fileId }))
+}
+
+/**
+ * Files of the current list that the new list no longer contains; they
+ * are deleted once the write succeeds
+ */
+export function removedFileIds(currentIds: string[], next: PendingAttachment[]): string[] {
+  const kept = new Set(next.filter(attachment => !isLocalAttachment(attachment)).map(attachmentKey))
+  return currentIds.filter(fileId => !kept.has(attachmentKey({ file_id: fileId })))
+}
+
+/**
+ * Column values for a stored list of attachments
+ */
+export function fileColumns(fileIds: string[]): { file_ids: string[]; file_id: string | null } {
+  return { file_ids: fileIds, file_id: fileIds[0] ?? null }
+}
+
+/**
+ * Whether an edited list differs from the stored one: files added,
+ * removed or reordered
+ */
+export function attachmentsChanged(currentIds: string[], next: PendingAttachment[]): boolean {
+  return next.length !== currentIds.length ||
+    next.some((attachment, index) => isLocalAttachment(attachment) || attachment.file_id !== currentIds[index])
+}
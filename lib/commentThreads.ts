@@ -0,0 +1,79 @@
+import { Comment } from '@/types'
+
+// Replies below this depth start collapsed so deep branches don't take over the thread
+export const AUTO_COLLAPSE_DEPTH = 3
+// Indentation stops growing past this depth to keep narrow screens readable
+export const MAX_INDENT_DEPTH = 4
+
+export interface ThreadItem {
+  comment: Comment
+  depth: number
+  /** Direct replies, from the server count when known */
+  replyCount: number
+  /** Whether any reply is loaded, so there is something to expand or collapse */
+  hasLoadedReplies: boolean
+  /** Whether this comment's replies are hidden */
+  collapsed: boolean
+}
+
+/**
+ * Flatten loaded comments into display order: each comment followed by its
+ * replies, depth first, with siblings oldest first. A reply whose parent is
+ * not loaded (it sits in another page) is shown at the top level.
+ *
+ * @param toggled Comments whose default collapsed state the user flipped
+ * @param revealId Comment whose ancestors are kept expanded so it stays visible
+ */
+export function buildThread(comments: Comment[], toggled: Set<string>, revealId?: string): ThreadItem[] {
+  const loadedIds = new Set(comments.map(comment => comment.id))
+  const children = new Map<string, Comment[]>()
+  const roots: Comment[] = []
+
+  for (const comment of comments) {
+    if (comment.parent_id && comment.parent_id !== comment.id && loadedIds.has(comment.parent_id)) {
+      const siblings = children.get(comment.parent_id) ?? []
+      siblings.push(comment)
+      children.set(comment.parent_id, siblings)
+    } else {
+      roots.push(comment)
+    }
+  }
+
+  const revealedAncestors = new Set<string>()
+  const parentOf = new Map(comments.map(comment => [comment.id, comment.parent_id]))
+  let ancestorId = revealId ? parentOf.get(revealId) : undefined
+  while (ancestorId && loadedIds.has(ancestorId) && !revealedAncestors.has(ancestorId)) {
+    revealedAncestors.add(ancestorId)
+    ancestorId = parentOf.get(ancestorId)
+  }
+
+  const items: ThreadItem[] = []
+  const visited = new Set<string>()
+
+  const visit = (comment: Comment, depth: number) => {
+    // Guards against parent cycles in malformed data
+    if (visited.has(comment.id)) return
+    visited.add(comment.id)
+
+    const replies = children.get(comment.id) ?? []
+    const collapsedByDefault = depth + 1 >= AUTO_COLLAPSE_DEPTH
+    const collapsed = replies.length > 0 &&
+      !revealedAncestors.has(comment.id) &&
+      collapsedByDefault !== toggled.has(comment.id)
+
+    items.push({
+      comment,
+      depth,
+      replyCount: Math.max(comment.reply_count ?? 0, replies.length),
+      hasLoadedReplies: replies.length > 0,
+      collapsed,
+    })
+
+    if (!collapsed) {
+      replies.forEach(reply => visit(reply, depth + 1))
+    }
+  }
+
+  roots.forEach(root => visit(root, 0))
+  return items
+}
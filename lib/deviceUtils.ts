@@ -1,6 +1,7 @@
 import { Platform } from 'react-native'
 import * as ImagePicker from 'expo-image-picker'
 import AsyncStorage from '@react-native-async-storage/async-storage'
+import { MediaLimits } from '@/constants/Media'
 
 // Storage keys for permissions
 const PERMISSION_KEYS = {
@@ -194,10 +195,13 @@ export const useCameraLauncher = () => {
       }
 
       // Launch camera
+      // Photos are compressed by the media pipeline, so they are taken at full quality
       const result = await ImagePicker.launchCameraAsync({
         mediaTypes: ['images', 'videos', 'livePhotos'],
         allowsEditing: false,
-        quality: 0.8,
+        quality: 1,
+        videoMaxDuration: MediaLimits.videoMaxDurationSeconds,
+        videoQuality: ImagePicker.UIImagePickerControllerQualityType.Medium,
       })
 
       return result
@@ -220,7 +224,14 @@ export const useCameraLauncher = () => {
 export const useImageLibraryLauncher = () => {
   const [mediaLibraryPermission, requestMediaLibraryPermission] = ImagePicker.useMediaLibraryPermissions()
 
-  const launchImageLibrary = async (): Promise<ImagePicker.ImagePickerResult | null> => {
+  /**
+   * @param selectionLimit Most files the user may pick at once (0 for no limit)
+   * @param squarePhoto Pick a single photo and crop it square, e.g. for a profile picture
+   */
+  const launchImageLibrary = async (
+    selectionLimit = 0,
+    squarePhoto = false
+  ): Promise<ImagePicker.ImagePickerResult | null> => {
     try {
       if (!mediaLibraryPermission) {
         throw new Error('Media library permission status not available')
@@ -254,12 +265,26 @@ export const useImageLibraryLauncher = () => {
         }
       }
 
+      if (squarePhoto) {
+        return await ImagePicker.launchImageLibraryAsync({
+          mediaTypes: ['images'],
+          allowsEditing: true,
+          aspect: [1, 1],
+          quality: 1,
+        })
+      }
+
       // Launch image picker
+      // Photos are compressed by the media pipeline; iOS transcodes videos
+      // to its most compatible format (H.264) while exporting them
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ['images', 'videos', 'livePhotos'],
         allowsEditing: false,
-        quality: 0.8,
-        allowsMultipleSelection: false,
+        quality: 1,
+        preferredAssetRepresentationMode: ImagePicker.UIImagePickerPreferredAssetRepresentationMode.Compatible,
+        allowsMultipleSelection: selectionLimit !== 1,
+        selectionLimit,
+        orderedSelection: true,
       })
 
       return result
@@ -0,0 +1,71 @@
+export type DiffKind = 'same' | 'added' | 'removed'
+
+export interface DiffSegment {
+  text: string
+  kind: DiffKind
+}
+
+// Above this many token pairs the texts are shown as fully replaced
+const MAX_DIFF_CELLS = 250_000
+
+/**
+ * Words and the whitespace between them, so joined segments reproduce the text
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token.length > 0)
+}
+
+function pushSegment(segments: DiffSegment[], text: string, kind: DiffKind): void {
+  const last = segments[segments.length - 1]
+  if (last && last.kind === kind) {
+    last.text += text
+  } else {
+    segments.push({ text, kind })
+  }
+}
+
+/**
+ * Word-level diff of two texts, via the longest common subsequence of their
+ * tokens. Adjacent tokens of the same kind are merged into one segment.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  if (before === after) return before ? [{ text: before, kind: 'same' }] : []
+
+  const a = tokenize(before)
+  const b = tokenize(after)
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ text: before, kind: 'removed' as const }] : []),
+      ...(after ? [{ text: after, kind: 'added' as const }] : []),
+    ]
+  }
+
+  // lengths[i][j]: LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const segments: DiffSegment[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, a[i], 'same')
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, a[i++], 'removed')
+    } else {
+      pushSegment(segments, b[j++], 'added')
+    }
+  }
+  while (i < a.length) pushSegment(segments, a[i++], 'removed')
+  while (j < b.length) pushSegment(segments, b[j++], 'added')
+
+  return segments
+}
@@ -0,0 +1,69 @@
+import { FeedOptions, Topic, TopicSort } from '@/types'
+
+// Ordering and filtering rules of the topics feed, shared by the query and
+// by the realtime handlers that keep a loaded feed in order
+
+export const DEFAULT_FEED_OPTIONS: FeedOptions = {
+  sort: 'newest',
+  filters: { hasAttachment: false, mediaType: null, tagId: null },
+}
+
+export type TopicSortColumn = 'created_at' | 'last_activity_at' | 'comment_count' | 'upvote_count'
+
+export function sortColumn(sort: TopicSort): TopicSortColumn {
+  switch (sort) {
+    case 'active':
+      return 'last_activity_at'
+    case 'most_commented':
+      return 'comment_count'
+    case 'top':
+      return 'upvote_count'
+    default:
+      return 'created_at'
+  }
+}
+
+/**
+ * Value of the topic's sort column; rows from before the activity column
+ * existed fall back to their creation time
+ */
+export function sortValue(topic: Topic, sort: TopicSort): string | number {
+  switch (sortColumn(sort)) {
+    case 'last_activity_at':
+      return topic.last_activity_at ?? topic.created_at
+    case 'comment_count':
+      return topic.comment_count ?? 0
+    case 'upvote_count':
+      return topic.upvote_count ?? 0
+    default:
+      return topic.created_at
+  }
+}
+
+/**
+ * Feed order: sort column descending, then id descending
+ */
+export function compareTopics(a: Topic, b: Topic, sort: TopicSort): number {
+  const valueA = sortValue(a, sort)
+  const valueB = sortValue(b, sort)
+  if (valueA !== valueB) return valueA < valueB ? 1 : -1
+  if (a.id === b.id) return 0
+  return a.id < b.id ? 1 : -1
+}
+
+/**
+ * Whether a topic belongs in the feed with these options. Soft-deleted
+ * topics never do.
+ *
+ * @param userId The signed-in user, required by the 'mine' mode
+ */
+export function matchesFeed(topic: Topic, feed: FeedOptions, userId?: string): boolean {
+  if (topic.deleted_at) return false
+  if (feed.sort === 'mine' && (!userId || topic.user_id !== userId)) return false
+  if (feed.filters.tagId && !topic.tag_ids?.includes(feed.filters.tagId)) return false
+
+  const mediaType = topic.media_type ?? (topic.file_id ? 'other' : 'none')
+  if (feed.filters.mediaType) return mediaType === feed.filters.mediaType
+  if (feed.filters.hasAttachment) return mediaType !== 'none'
+  return true
+}
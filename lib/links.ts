@@ -0,0 +1,14 @@
+import * as Linking from 'expo-linking'
+
+/**
+ * Build a shareable link to a topic.
+ *
+ * On native this uses the `selfdbexpo` scheme from app.json
+ * (selfdbexpo://topic/<id>); on web it resolves against the current origin.
+ *
+ * @param topicId The ID of the topic to link to
+ * @returns URL that opens the topic route directly
+ */
+export function getTopicShareUrl(topicId: string): string {
+  return Linking.createURL(`/topic/${topicId}`)
+}
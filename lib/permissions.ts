@@ -19,4 +19,28 @@ export function canModifyContent(userId: string | undefined, currentUser: User |
   
   // Regular users can only edit/delete their own content
   return userId !== undefined && currentUser.id === userId;
-}
\ No newline at end of file
+}
+
+/**
+ * Check if the current user may read the edit history of a topic or
+ * comment: its author and admins, who settle disputes about edits
+ */
+export function canViewRevisions(userId: string | undefined, currentUser: User | null): boolean {
+  return canModifyContent(userId, currentUser);
+}
+
+/**
+ * Check if the current user may create, rename and merge tags. Anyone who
+ * writes a topic can pick from the existing tags.
+ */
+export function canManageTags(currentUser: User | null): boolean {
+  return !!currentUser?.is_superuser;
+}
+
+/**
+ * Check if the current user sees everyone's recently deleted topics and
+ * comments, not only their own
+ */
+export function canReviewAllDeleted(currentUser: User | null): boolean {
+  return !!currentUser?.is_superuser;
+}
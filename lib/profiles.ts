@@ -0,0 +1,35 @@
+import { Profile } from '@/types'
+
+// Longest display name and bio the profiles table accepts
+export const MAX_DISPLAY_NAME_LENGTH = 50
+export const MAX_BIO_LENGTH = 500
+
+// Stored as the author name of posts by signed-in users, whose name is
+// looked up through their user id; also shown in place of any email
+export const MEMBER_AUTHOR_NAME = 'Member'
+
+/**
+ * Name for a new profile: a handle made from the user id, since anything
+ * derived from the email would identify the user
+ */
+export function defaultDisplayName(userId: string): string {
+  return `member-${userId.replace(/-/g, '').slice(0, 6)}`
+}
+
+/**
+ * Name shown for the author of a topic or comment: their profile's display
+ * name, or else the stored author name, never an email address
+ */
+export function authorDisplayName(profile: Profile | null | undefined, authorName: string): string {
+  if (profile) return profile.display_name
+  return authorName.includes('@') ? MEMBER_AUTHOR_NAME : authorName
+}
+
+/**
+ * Up to two initials for an avatar without a picture
+ */
+export function initialsOf(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean)
+  const initials = words.length > 1 ? words[0][0] + words[words.length - 1][0] : (words[0] ?? '?').slice(0, 1)
+  return initials.toUpperCase()
+}
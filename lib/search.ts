@@ -0,0 +1,40 @@
+// Helpers for displaying search hits
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Split text into matching and non-matching segments, ignoring case
+ */
+export function splitHighlights(text: string, query: string): HighlightSegment[] {
+  const needle = query.trim()
+  if (!needle) return [{ text, match: false }]
+
+  const matcher = new RegExp(`(${escapeRegExp(needle)})`, 'gi')
+  return text
+    .split(matcher)
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, match: part.toLowerCase() === needle.toLowerCase() }))
+}
+
+/**
+ * Cut long text down to the part around the first match
+ *
+ * @param radius Characters kept on each side of the match
+ */
+export function snippetAround(text: string, query: string, radius = 60): string {
+  const index = text.toLowerCase().indexOf(query.trim().toLowerCase())
+  if (index < 0 || text.length <= radius * 2) {
+    return text.length > radius * 2 ? `${text.slice(0, radius * 2)}…` : text
+  }
+
+  const start = Math.max(index - radius, 0)
+  const end = Math.min(index + query.trim().length + radius, text.length)
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+}
@@ -4,6 +4,47 @@ export function cn(...inputs: ClassValue[]) {
   return clsx(inputs)
 }
 
+/**
+ * Generate a random RFC 4122 version 4 UUID
+ */
+export function generateId(): string {
+  const cryptoApi = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto
+  if (cryptoApi?.randomUUID) {
+    return cryptoApi.randomUUID()
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0
+    const value = char === 'x' ? random : (random & 0x3) | 0x8
+    return value.toString(16)
+  })
+}
+
+/**
+ * Append the items whose id is not already present, keeping the existing order
+ */
+export function mergeById<T extends { id: string }>(current: T[], incoming: T[]): T[] {
+  const seen = new Set(current.map(item => item.id))
+  return [...current, ...incoming.filter(item => !seen.has(item.id))]
+}
+
+/**
+ * Replace the item with the same id, or append it when it is not present
+ */
+export function upsertById<T extends { id: string }>(current: T[], item: T): T[] {
+  return current.some(existing => existing.id === item.id)
+    ? current.map(existing => (existing.id === item.id ? item : existing))
+    : [...current, item]
+}
+
+/**
+ * Human-readable size of a file, e.g. "4.2 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
 export function formatDate(dateString: string): string {
   const date = new Date(dateString)
   const now = new Date()
@@ -0,0 +1,31 @@
+/**
+ * SelfDB client signed in as the admin from .env, shared by the maintenance
+ * scripts. SELFDB_ADMIN_EMAIL / SELFDB_ADMIN_PASSWORD must belong to a
+ * superuser that can read and delete every row and file.
+ */
+
+const requireEnv = (name, value) => {
+  if (!value) {
+    throw new Error(`${name} is required. Please check your .env file.`);
+  }
+  return value;
+};
+
+const createAdminClient = async () => {
+  const { createClient } = await import("@selfdb/js-sdk");
+  const selfdb = createClient({
+    baseUrl: requireEnv("EXPO_PUBLIC_SELFDB_URL", process.env.EXPO_PUBLIC_SELFDB_URL),
+    storageUrl: requireEnv("EXPO_PUBLIC_SELFDB_STORAGE_URL", process.env.EXPO_PUBLIC_SELFDB_STORAGE_URL),
+    anonKey: requireEnv("EXPO_PUBLIC_SELFDB_ANON_KEY", process.env.EXPO_PUBLIC_SELFDB_ANON_KEY),
+  });
+  await selfdb.auth.login({
+    email: requireEnv("SELFDB_ADMIN_EMAIL", process.env.SELFDB_ADMIN_EMAIL),
+    password: requireEnv("SELFDB_ADMIN_PASSWORD", process.env.SELFDB_ADMIN_PASSWORD),
+  });
+  return selfdb;
+};
+
+// Query results arrive as an array or wrapped in `data`
+const rowsOf = (result) => (Array.isArray(result) ? result : result?.data ?? []);
+
+module.exports = { createAdminClient, rowsOf };
@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+
+/**
+ * Permanently deletes topics and comments that were soft-deleted more than
+ * --retention-days ago, together with their attached files. A purged topic
+ * takes all its comments with it. Meant to run on a schedule, e.g. daily.
+ *
+ * Usage: npm run purge-deleted -- [--dry-run] [--retention-days=30]
+ *
+ * Signs in as the admin from .env (see admin-client.js). The retention must
+ * match Deletion.retentionDays in constants/Deletion.ts, which the app shows
+ * to users. Files that fail to delete are left for `npm run reconcile-files`.
+ */
+
+const { createAdminClient, rowsOf } = require("./admin-client");
+
+const BUCKET_NAME = "discussion";
+const PAGE_SIZE = 200;
+const DEFAULT_RETENTION_DAYS = 30;
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const retentionArg = args.find((arg) => arg.startsWith("--retention-days="));
+const retentionDays = retentionArg ? Number(retentionArg.split("=")[1]) : DEFAULT_RETENTION_DAYS;
+
+const fileIdsOf = (row) => {
+  const ids = new Set((row.file_ids ?? []).map(String));
+  if (row.file_id) ids.add(String(row.file_id));
+  return Array.from(ids);
+};
+
+/**
+ * Rows of the table soft-deleted before the cutoff, paged by id
+ */
+const collectExpired = async (db, table, cutoff) => {
+  const expired = [];
+  let lastId = null;
+  for (;;) {
+    let query = db.from(table).select("*").where("is_deleted", true).where("deleted_at", "<", cutoff);
+    if (lastId !== null) {
+      query = query.where("id", ">", lastId);
+    }
+    const list = rowsOf(await query.order("id", "asc").limit(PAGE_SIZE).execute());
+    expired.push(...list);
+
+    if (list.length < PAGE_SIZE) return expired;
+    lastId = list[list.length - 1].id;
+  }
+};
+
+/**
+ * Delete files, counting the ones that fail; a file that is already gone
+ * counts as deleted
+ */
+const deleteFiles = async (selfdb, fileIds, stats) => {
+  for (const fileId of fileIds) {
+    try {
+      await selfdb.files.deleteFile(fileId);
+      stats.filesDeleted++;
+    } catch (error) {
+      if (error?.status === 404 || error?.statusCode === 404) {
+        stats.filesDeleted++;
+        continue;
+      }
+      stats.filesFailed++;
+      console.error(`Could not delete file ${fileId}:`, error.message ?? error);
+    }
+  }
+};
+
+const purgeTopic = async (selfdb, topic, stats) => {
+  const comments = rowsOf(await selfdb.db.from("comments").where("topic_id", topic.id).execute());
+  const fileIds = [...fileIdsOf(topic), ...comments.flatMap(fileIdsOf)];
+
+  // Comments go with the topic through the cascading foreign key
+  await selfdb.db.from("topics").where("id", topic.id).delete();
+  stats.topics++;
+  stats.comments += comments.length;
+  await deleteFiles(selfdb, fileIds, stats);
+};
+
+const purgeComment = async (selfdb, comment, stats) => {
+  await selfdb.db.from("comments").where("id", comment.id).delete();
+  stats.comments++;
+  await deleteFiles(selfdb, fileIdsOf(comment), stats);
+};
+
+const main = async () => {
+  if (!Number.isFinite(retentionDays) || retentionDays < 0) {
+    throw new Error("--retention-days must be a number of days.");
+  }
+
+  const selfdb = await createAdminClient();
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const topics = await collectExpired(selfdb.db, "topics", cutoff);
+  const purgedTopicIds = new Set(topics.map((topic) => String(topic.id)));
+  // Deleted comments of purged topics go with their topic
+  const comments = (await collectExpired(selfdb.db, "comments", cutoff)).filter(
+    (comment) => !purgedTopicIds.has(String(comment.topic_id))
+  );
+
+  console.log(
+    `${topics.length} topics and ${comments.length} comments deleted before ${cutoff} ` +
+      `(more than ${retentionDays} days ago).`
+  );
+  if (dryRun) {
+    for (const topic of topics) console.log(`  topic    ${topic.id}  ${topic.deleted_at}  ${topic.title}`);
+    for (const comment of comments) console.log(`  comment  ${comment.id}  ${comment.deleted_at}`);
+    return;
+  }
+
+  const stats = { topics: 0, comments: 0, filesDeleted: 0, filesFailed: 0, rowsFailed: 0 };
+  for (const topic of topics) {
+    try {
+      await purgeTopic(selfdb, topic, stats);
+    } catch (error) {
+      stats.rowsFailed++;
+      console.error(`Could not purge topic ${topic.id}:`, error.message ?? error);
+    }
+  }
+  for (const comment of comments) {
+    try {
+      await purgeComment(selfdb, comment, stats);
+    } catch (error) {
+      stats.rowsFailed++;
+      console.error(`Could not purge comment ${comment.id}:`, error.message ?? error);
+    }
+  }
+
+  console.log(
+    `\nPurged ${stats.topics} topics and ${stats.comments} comments; ` +
+      `deleted ${stats.filesDeleted} files from "${BUCKET_NAME}".`
+  );
+  if (stats.filesFailed > 0) {
+    console.log(`${stats.filesFailed} files could not be deleted; run reconcile-files to clean them up.`);
+  }
+  if (stats.rowsFailed > 0 || stats.filesFailed > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(`Purge failed: ${error.message ?? error}`);
+  process.exit(1);
+});
@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+
+/**
+ * Finds files in the `discussion` bucket that no topic or comment refers to
+ * (uploads whose post was never saved, deletes that kept failing) and
+ * reports them, or deletes them with --delete.
+ *
+ * Usage: npm run reconcile-files -- [--delete] [--min-age-hours=48]
+ *
+ * Reads the SelfDB settings from .env and signs in with SELFDB_ADMIN_EMAIL /
+ * SELFDB_ADMIN_PASSWORD, a superuser that can read every file in the bucket.
+ * Files younger than --min-age-hours are skipped: they may belong to a post
+ * being written, or be parts of an upload that can still resume.
+ */
+
+const { createAdminClient, rowsOf } = require("./admin-client");
+
+const BUCKET_NAME = "discussion";
+// Tables whose rows point at bucket files, through `file_id` and `file_ids`
+const REFERENCING_TABLES = ["topics", "comments"];
+const PAGE_SIZE = 500;
+const DEFAULT_MIN_AGE_HOURS = 48;
+
+const args = process.argv.slice(2);
+const shouldDelete = args.includes("--delete");
+const minAgeArg = args.find((arg) => arg.startsWith("--min-age-hours="));
+const minAgeHours = minAgeArg ? Number(minAgeArg.split("=")[1]) : DEFAULT_MIN_AGE_HOURS;
+
+/**
+ * Every file id referenced by a row of the given table, paged by id
+ */
+const collectReferences = async (db, table, referenced) => {
+  let lastId = null;
+  for (;;) {
+    let query = db.from(table).select("*");
+    if (lastId !== null) {
+      query = query.where("id", ">", lastId);
+    }
+    const rows = await query.order("id", "asc").limit(PAGE_SIZE).execute();
+    const list = rowsOf(rows);
+
+    for (const row of list) {
+      if (row.file_id) referenced.add(String(row.file_id));
+      for (const fileId of row.file_ids ?? []) {
+        referenced.add(String(fileId));
+      }
+    }
+
+    if (list.length < PAGE_SIZE) return;
+    lastId = list[list.length - 1].id;
+  }
+};
+
+const listBucketFiles = async (storage) => {
+  const buckets = await storage.buckets.listBuckets();
+  const bucket = rowsOf(buckets).find(
+    (candidate) => candidate.name === BUCKET_NAME
+  );
+  if (!bucket) {
+    throw new Error(`Bucket "${BUCKET_NAME}" not found.`);
+  }
+  const files = await storage.files.listFiles(bucket.id);
+  return rowsOf(files);
+};
+
+const formatSize = (bytes) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const main = async () => {
+  if (!Number.isFinite(minAgeHours) || minAgeHours < 0) {
+    throw new Error("--min-age-hours must be a number of hours.");
+  }
+
+  const selfdb = await createAdminClient();
+
+  const referenced = new Set();
+  for (const table of REFERENCING_TABLES) {
+    await collectReferences(selfdb.db, table, referenced);
+  }
+
+  const cutoff = Date.now() - minAgeHours * 60 * 60 * 1000;
+  const files = await listBucketFiles(selfdb.storage);
+  const orphans = files.filter(
+    (file) => !referenced.has(String(file.id)) && new Date(file.created_at).getTime() < cutoff
+  );
+
+  console.log(
+    `${files.length} files in "${BUCKET_NAME}", ${referenced.size} referenced, ` +
+      `${orphans.length} orphaned (older than ${minAgeHours}h).`
+  );
+  for (const file of orphans) {
+    console.log(`  ${file.id}  ${file.filename ?? ""}  ${formatSize(file.size ?? 0)}  ${file.created_at}`);
+  }
+
+  if (!shouldDelete) {
+    if (orphans.length > 0) {
+      console.log("\nRun again with --delete to delete them.");
+    }
+    return;
+  }
+
+  let failed = 0;
+  for (const file of orphans) {
+    try {
+      await selfdb.files.deleteFile(file.id);
+    } catch (error) {
+      failed++;
+      console.error(`Could not delete ${file.id}:`, error.message ?? error);
+    }
+  }
+  console.log(`\nDeleted ${orphans.length - failed} of ${orphans.length} orphaned files.`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(`Reconciliation failed: ${error.message ?? error}`);
+  process.exit(1);
+});
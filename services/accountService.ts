@@ -0,0 +1,81 @@
+import { AuthRules } from '@/constants/Auth'
+import { RateLimitError, toDataAccessError } from './errors'
+import { functions } from './selfdb'
+
+// SelfDB functions behind the account flows, see "Accounts" in the README
+const REQUEST_PASSWORD_RESET_FUNCTION = 'request-password-reset'
+const RESET_PASSWORD_FUNCTION = 'reset-password'
+const VERIFY_EMAIL_FUNCTION = 'verify-email'
+const RESEND_VERIFICATION_FUNCTION = 'resend-verification'
+
+/**
+ * Password reset and email verification. Emails carry a one-time token in
+ * a `selfdbexpo://` link (a web link on web) that opens the matching route.
+ * The server builds the links from its own configuration; the app never
+ * sends one.
+ *
+ * A token that is unknown, used or expired fails with a ValidationError.
+ */
+export class AccountService {
+  private static verificationSentAt = 0
+
+  /**
+   * Email a password reset link. Succeeds whether or not the address has an
+   * account, so the form can't be used to find out who is registered.
+   */
+  static async requestPasswordReset(email: string): Promise<void> {
+    try {
+      await functions.invoke(REQUEST_PASSWORD_RESET_FUNCTION, { email })
+    } catch (error) {
+      throw toDataAccessError(error, 'request a password reset')
+    }
+  }
+
+  /**
+   * Set a new password with the token from a reset link. Signs out the
+   * account's other sessions.
+   */
+  static async resetPassword(token: string, password: string): Promise<void> {
+    try {
+      await functions.invoke(RESET_PASSWORD_FUNCTION, { token, password })
+    } catch (error) {
+      throw toDataAccessError(error, 'reset the password')
+    }
+  }
+
+  /**
+   * Confirm the email address with the token from a verification link
+   */
+  static async verifyEmail(token: string): Promise<void> {
+    try {
+      await functions.invoke(VERIFY_EMAIL_FUNCTION, { token })
+    } catch (error) {
+      throw toDataAccessError(error, 'verify the email address')
+    }
+  }
+
+  /**
+   * Seconds until another verification email may be requested
+   */
+  static resendCooldown(): number {
+    const elapsed = (Date.now() - this.verificationSentAt) / 1000
+    return Math.max(0, Math.ceil(AuthRules.resendCooldownSeconds - elapsed))
+  }
+
+  /**
+   * Send a new verification link; earlier ones stop working
+   *
+   * @throws RateLimitError when one was sent too recently
+   */
+  static async resendVerification(email: string): Promise<void> {
+    if (this.resendCooldown() > 0) {
+      throw new RateLimitError(`Please wait ${this.resendCooldown()} seconds before requesting another email.`)
+    }
+    try {
+      await functions.invoke(RESEND_VERIFICATION_FUNCTION, { email })
+      this.verificationSentAt = Date.now()
+    } catch (error) {
+      throw toDataAccessError(error, 'resend the verification email')
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { db } from '@/services/selfdb'
+import { Comment, CommentChanges, CommentCursor, CommentPage, NewComment } from '@/types'
+import { NotFoundError, toDataAccessError } from './errors'
+import { beyondOperator, KeysetDirection } from './pagination'
+import { parseComment, parseList } from './validation'
+
+/**
+ * Data access for the `comments` table. All comment queries and writes go
+ * through here; callers receive validated `Comment` objects and
+ * `DataAccessError`s instead of raw SDK results.
+ */
+export class CommentRepository {
+  /**
+   * Fetch all comments of a topic, oldest first, soft-deleted ones included
+   */
+  static async listByTopic(topicId: string): Promise<Comment[]> {
+    try {
+      const rows = await db
+        .from('comments')
+        .where('topic_id', topicId)
+        .order('created_at', 'asc')
+        .execute()
+      return parseList(rows, parseComment, 'comment')
+    } catch (error) {
+      throw toDataAccessError(error, `load comments for topic ${topicId}`)
+    }
+  }
+
+  /**
+   * Fetch a single comment by id
+   *
+   * @throws NotFoundError when no comment has the given id, or it is soft-deleted
+   */
+  static async getById(id: string): Promise<Comment> {
+    let rows: unknown
+    try {
+      rows = await db
+        .from('comments')
+        .where('id', id)
+        .where('is_deleted', false)
+        .execute()
+    } catch (error) {
+      throw toDataAccessError(error, `load comment ${id}`)
+    }
+
+    const [comment] = parseList(rows, parseComment, 'comment')
+    if (!comment) {
+      throw new NotFoundError(`Comment ${id} not found`)
+    }
+    return comment
+  }
+
+  /**
+   * Fetch one page of a topic's comments using keyset pagination on
+   * (created_at, id). With a null cursor, 'newer' starts from the first
+   * comment and 'older' from the latest one.
+   *
+   * @param topicId The topic whose comments are listed
+   * @param direction Whether to page towards older or newer comments
+   * @param cursor The boundary comment already loaded, or null
+   * @param pageSize Maximum number of comments to return
+   */
+  static async listPage(
+    topicId: string,
+    direction: KeysetDirection,
+    cursor: CommentCursor | null,
+    pageSize: number
+  ): Promise<CommentPage> {
+    const order = direction === 'older' ? 'desc' : 'asc'
+    const beyond = beyondOperator(direction)
+    const thread = () => db.from('comments').where('topic_id', topicId).where('is_deleted', false)
+
+    // One extra row tells whether another page follows
+    let tieRows: unknown = []
+    let rows: unknown
+    try {
+      if (cursor) {
+        // Comments posted at the same instant as the cursor are paged by id
+        [tieRows, rows] = await Promise.all([
+          thread()
+            .where('created_at', '=', cursor.created_at)
+            .where('id', beyond, cursor.id)
+            .order('id', order)
+            .limit(pageSize + 1)
+            .execute(),
+          thread()
+            .where('created_at', beyond, cursor.created_at)
+            .order('created_at', order)
+            .order('id', order)
+            .limit(pageSize + 1)
+            .execute(),
+        ])
+      } else {
+        rows = await thread()
+          .order('created_at', order)
+          .order('id', order)
+          .limit(pageSize + 1)
+          .execute()
+      }
+    } catch (error) {
+      throw toDataAccessError(error, `load comments for topic ${topicId}`)
+    }
+
+    const fetched = [...parseList(tieRows, parseComment, 'comment'), ...parseList(rows, parseComment, 'comment')]
+    const page = fetched.slice(0, pageSize)
+
+    return {
+      comments: direction === 'older' ? page.reverse() : page,
+      hasMore: fetched.length > pageSize,
+    }
+  }
+
+  /**
+   * Fetch a topic's comments created or changed after the given time, oldest
+   * first. Used to catch up on realtime events missed while disconnected;
+   * soft-deleted comments are included so the thread can drop them.
+   *
+   * @param since ISO timestamp compared against `updated_at`
+   * @param limit Maximum number of comments to return
+   */
+  static async listUpdatedSince(topicId: string, since: string, limit: number): Promise<Comment[]> {
+    try {
+      const rows = await db
+        .from('comments')
+        .where('topic_id', topicId)
+        .where('updated_at', '>', since)
+        .order('updated_at', 'asc')
+        .limit(limit)
+        .execute()
+      return parseList(rows, parseComment, 'comment')
+    } catch (error) {
+      throw toDataAccessError(error, `load updated comments for topic ${topicId}`)
+    }
+  }
+
+  /**
+   * Insert a new comment and return the stored row
+   */
+  static async create(input: NewComment): Promise<Comment> {
+    try {
+      const row = await db.from('comments').insert(input)
+      return parseComment(row)
+    } catch (error) {
+      throw toDataAccessError(error, 'create comment')
+    }
+  }
+
+  /**
+   * Apply a partial update to a comment
+   */
+  static async update(id: string, changes: CommentChanges): Promise<void> {
+    try {
+      await db
+        .from('comments')
+        .where('id', id)
+        .update(changes)
+    } catch (error) {
+      throw toDataAccessError(error, `update comment ${id}`)
+    }
+  }
+
+  /**
+   * Fetch soft-deleted comments, most recently deleted first
+   *
+   * @param userId Only this author's comments, or null for every comment (admins)
+   */
+  static async listDeleted(userId: string | null, limit: number): Promise<Comment[]> {
+    try {
+      let query = db.from('comments').select('*').where('is_deleted', true)
+      if (userId) {
+        query = query.where('user_id', userId)
+      }
+      const rows = await query
+        .order('deleted_at', 'desc')
+        .limit(limit)
+        .execute()
+      return parseList(rows, parseComment, 'comment')
+    } catch (error) {
+      throw toDataAccessError(error, 'load deleted comments')
+    }
+  }
+
+  /**
+   * Move a comment to the recently deleted list. Its replies stay visible.
+   */
+  static async softDelete(id: string, deletedAt: string): Promise<void> {
+    try {
+      await db
+        .from('comments')
+        .where('id', id)
+        .update({ deleted_at: deletedAt })
+    } catch (error) {
+      throw toDataAccessError(error, `delete comment ${id}`)
+    }
+  }
+
+  /**
+   * Bring a soft-deleted comment back
+   */
+  static async restore(id: string): Promise<void> {
+    try {
+      await db
+        .from('comments')
+        .where('id', id)
+        .update({ deleted_at: null })
+    } catch (error) {
+      throw toDataAccessError(error, `restore comment ${id}`)
+    }
+  }
+
+  /**
+   * Delete a single comment row. Attached files are not touched here.
+   */
+  static async remove(id: string): Promise<void> {
+    try {
+      await db
+        .from('comments')
+        .where('id', id)
+        .delete()
+    } catch (error) {
+      throw toDataAccessError(error, `delete comment ${id}`)
+    }
+  }
+}
@@ -0,0 +1,45 @@
+export type DataScopeListener = (scope: string) => void
+
+// Scope of everything kept on the device while nobody is signed in
+const ANONYMOUS_SCOPE = 'anonymous'
+
+/**
+ * Whose device-local data is in use: the outbox, the offline cache and the
+ * composer drafts are stored per user, so whoever signs in next on the
+ * device never sees or replays someone else's. The scope follows sign-ins
+ * and sign-outs, not expired sessions, so the expired user's queued writes
+ * and drafts are there again once they sign back in.
+ */
+export class DataScope {
+  private static scope = ANONYMOUS_SCOPE
+  private static listeners = new Set<DataScopeListener>()
+
+  /**
+   * Storage key segment of the current scope
+   */
+  static current(): string {
+    return this.scope
+  }
+
+  /**
+   * Switch to the data of a signed-in user, or of nobody
+   */
+  static set(userId: string | null): void {
+    const scope = userId ?? ANONYMOUS_SCOPE
+    if (scope === this.scope) return
+    this.scope = scope
+    for (const listener of this.listeners) {
+      listener(scope)
+    }
+  }
+
+  /**
+   * @returns unsubscribe function
+   */
+  static subscribe(listener: DataScopeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { ComposerDraft } from '@/types'
+import { DataScope } from './dataScope'
+
+// Followed by the data scope and the composer's key
+const DRAFT_KEY_PREFIX = '@app/drafts/'
+// Drafts left alone this long are dropped
+const MAX_DRAFT_AGE = 30 * 24 * 60 * 60 * 1000
+
+interface StoredDraft extends ComposerDraft {
+  saved_at: number
+}
+
+/**
+ * Unsent composer contents, one per composer (new topic, reply to a
+ * comment, edit of a topic...). They live on the device only, so a post
+ * that fails because the session expired can be finished after signing in
+ * again, even if the app restarts in between. Each user has their own,
+ * see DataScope.
+ */
+export class Drafts {
+  static async load(key: string): Promise<ComposerDraft | null> {
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey(key))
+      if (!stored) return null
+      const { saved_at, ...draft }: StoredDraft = JSON.parse(stored)
+      if (Date.now() - saved_at > MAX_DRAFT_AGE) {
+        await this.clear(key)
+        return null
+      }
+      return draft
+    } catch (error) {
+      console.warn(`Failed to load draft ${key}:`, error)
+      return null
+    }
+  }
+
+  static async save(key: string, draft: ComposerDraft): Promise<void> {
+    try {
+      const stored: StoredDraft = { ...draft, saved_at: Date.now() }
+      await AsyncStorage.setItem(this.storageKey(key), JSON.stringify(stored))
+    } catch (error) {
+      console.warn(`Failed to save draft ${key}:`, error)
+    }
+  }
+
+  static async clear(key: string): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(this.storageKey(key))
+    } catch (error) {
+      console.warn(`Failed to clear draft ${key}:`, error)
+    }
+  }
+
+  /**
+   * Drop every draft of the current scope, on sign-out
+   */
+  static async clearAll(): Promise<void> {
+    try {
+      const prefix = this.storageKey('')
+      const keys = await AsyncStorage.getAllKeys()
+      await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(prefix)))
+    } catch (error) {
+      console.warn('Failed to clear drafts:', error)
+    }
+  }
+
+  private static storageKey(key: string): string {
+    return `${DRAFT_KEY_PREFIX}${DataScope.current()}/${key}`
+  }
+}
@@ -0,0 +1,140 @@
+// Domain errors raised by the data-access layer (repositories).
+// Components catch these instead of inspecting raw SDK errors.
+
+export type DataErrorCode =
+  | 'not_found'
+  | 'validation'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'conflict'
+  | 'network'
+  | 'canceled'
+  | 'rate_limited'
+  | 'unknown'
+
+export class DataAccessError extends Error {
+  readonly code: DataErrorCode
+  readonly cause?: unknown
+
+  constructor(message: string, code: DataErrorCode = 'unknown', cause?: unknown) {
+    super(message)
+    this.name = 'DataAccessError'
+    this.code = code
+    this.cause = cause
+  }
+}
+
+export class NotFoundError extends DataAccessError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'not_found', cause)
+    this.name = 'NotFoundError'
+  }
+}
+
+export class ValidationError extends DataAccessError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'validation', cause)
+    this.name = 'ValidationError'
+  }
+}
+
+export class UnauthorizedError extends DataAccessError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'unauthorized', cause)
+    this.name = 'UnauthorizedError'
+  }
+}
+
+/**
+ * The caller is signed in but may not do this, e.g. delete someone else's topic
+ */
+export class ForbiddenError extends DataAccessError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'forbidden', cause)
+    this.name = 'ForbiddenError'
+  }
+}
+
+export class ConflictError extends DataAccessError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'conflict', cause)
+    this.name = 'ConflictError'
+  }
+}
+
+export class NetworkError extends DataAccessError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'network', cause)
+    this.name = 'NetworkError'
+  }
+}
+
+export class CanceledError extends DataAccessError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'canceled', cause)
+    this.name = 'CanceledError'
+  }
+}
+
+export class RateLimitError extends DataAccessError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'rate_limited', cause)
+    this.name = 'RateLimitError'
+  }
+}
+
+/**
+ * HTTP status of a raw SDK error, which carries it as `status`,
+ * `statusCode` or `response.status` depending on the request
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) return undefined
+  const response = 'response' in error ? error.response : undefined
+  const status = ('status' in error ? error.status : undefined)
+    ?? ('statusCode' in error ? error.statusCode : undefined)
+    ?? (typeof response === 'object' && response !== null && 'status' in response ? response.status : undefined)
+  return typeof status === 'number' ? status : undefined
+}
+
+/**
+ * Map an error thrown by the SelfDB SDK into a typed domain error
+ *
+ * @param error The raw error thrown by the SDK
+ * @param context Short description of the failed operation, e.g. "load topics"
+ */
+export function toDataAccessError(error: unknown, context: string): DataAccessError {
+  if (error instanceof DataAccessError) {
+    return error
+  }
+
+  const status = getErrorStatus(error)
+  const detail = error instanceof Error ? error.message : String(error)
+  const message = `Failed to ${context}: ${detail}`
+
+  if (status === 404) {
+    return new NotFoundError(message, error)
+  }
+  if (status === 401) {
+    return new UnauthorizedError(message, error)
+  }
+  if (status === 403) {
+    return new ForbiddenError(message, error)
+  }
+  if (status === 409 || /duplicate key|already exists/i.test(detail)) {
+    return new ConflictError(message, error)
+  }
+  if (status === 429 || /rate limit/i.test(detail)) {
+    return new RateLimitError(message, error)
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, error)
+  }
+  if (
+    status === undefined &&
+    /network request failed|failed to fetch|network ?error|timeout/i.test(detail)
+  ) {
+    return new NetworkError(message, error)
+  }
+
+  return new DataAccessError(message, 'unknown', error)
+}
@@ -0,0 +1,46 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { FeedOptions, MediaType, TopicSort } from '@/types'
+import { DEFAULT_FEED_OPTIONS } from '@/lib/feed'
+
+const FEED_PREFERENCES_KEY = '@app/feedPreferences'
+
+const SORTS: TopicSort[] = ['newest', 'active', 'most_commented', 'top', 'mine']
+const MEDIA_TYPES: MediaType[] = ['image', 'video', 'audio', 'pdf', 'other']
+
+/**
+ * Sort mode and filters chosen for the topics feed, kept per device
+ */
+export class FeedPreferences {
+  /**
+   * Load the saved options, falling back to the defaults for anything
+   * missing or unrecognized
+   */
+  static async load(): Promise<FeedOptions> {
+    try {
+      const stored = await AsyncStorage.getItem(FEED_PREFERENCES_KEY)
+      if (!stored) return DEFAULT_FEED_OPTIONS
+
+      const parsed = JSON.parse(stored)
+      return {
+        sort: SORTS.find(sort => sort === parsed?.sort) ?? DEFAULT_FEED_OPTIONS.sort,
+        filters: {
+          hasAttachment: parsed?.filters?.hasAttachment === true,
+          mediaType: MEDIA_TYPES.find(type => type === parsed?.filters?.mediaType) ?? null,
+          // A tag deleted since is dropped once the tag list loads
+          tagId: typeof parsed?.filters?.tagId === 'string' ? parsed.filters.tagId : null,
+        },
+      }
+    } catch (error) {
+      console.warn('Failed to load feed preferences:', error)
+      return DEFAULT_FEED_OPTIONS
+    }
+  }
+
+  static async save(options: FeedOptions): Promise<void> {
+    try {
+      await AsyncStorage.setItem(FEED_PREFERENCES_KEY, JSON.stringify(options))
+    } catch (error) {
+      console.warn('Failed to save feed preferences:', error)
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { files } from './selfdb'
+import { NotFoundError, toDataAccessError } from './errors'
+
+const FILE_DELETE_QUEUE_KEY = '@app/files/pending-deletes'
+
+// Retry schedule: exponential backoff from 30s, capped at 1 hour
+const BASE_RETRY_DELAY = 30 * 1000
+const MAX_RETRY_DELAY = 60 * 60 * 1000
+// After this many attempts the file is left to the server-side reconciliation
+const MAX_DELETE_ATTEMPTS = 10
+
+interface PendingDelete {
+  fileId: string
+  description: string // What the file belonged to, for log messages
+  attempts: number
+  nextAttemptAt: number
+}
+
+/**
+ * Stored files whose deletion failed, e.g. while offline. They are deleted
+ * again in the background, with backoff, until the server confirms; files
+ * that keep failing are given up on and found later by
+ * `scripts/reconcile-files.js`.
+ */
+export class FileDeleteQueue {
+  private static entries: PendingDelete[] = []
+  private static loaded: Promise<void> | null = null
+  private static flushing: Promise<void> | null = null
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  /**
+   * Load the queue from storage once per app session
+   */
+  static load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(FILE_DELETE_QUEUE_KEY)
+          this.entries = stored ? JSON.parse(stored) : []
+        } catch (error) {
+          console.warn('Failed to load pending file deletes:', error)
+          this.entries = []
+        }
+      })()
+    }
+    return this.loaded
+  }
+
+  /**
+   * Queue a file whose deletion failed
+   */
+  static async add(fileId: string, description: string): Promise<void> {
+    await this.load()
+    if (this.entries.some(entry => entry.fileId === fileId)) return
+
+    await this.save([
+      ...this.entries,
+      { fileId, description, attempts: 1, nextAttemptAt: Date.now() + BASE_RETRY_DELAY },
+    ])
+    this.scheduleRetry()
+  }
+
+  /**
+   * Delete the queued files that are due. A file the server no longer has
+   * counts as deleted.
+   */
+  static flush(): Promise<void> {
+    if (this.flushing) return this.flushing
+
+    this.flushing = (async () => {
+      await this.load()
+      const now = Date.now()
+
+      for (const entry of this.entries.filter(entry => entry.nextAttemptAt <= now)) {
+        try {
+          await files.deleteFile(entry.fileId)
+          await this.remove(entry.fileId)
+        } catch (rawError) {
+          const error = toDataAccessError(rawError, `delete ${entry.description}`)
+          if (error instanceof NotFoundError) {
+            await this.remove(entry.fileId)
+          } else if (entry.attempts + 1 >= MAX_DELETE_ATTEMPTS) {
+            console.warn(`Giving up deleting ${entry.description} ${entry.fileId}:`, error)
+            await this.remove(entry.fileId)
+          } else {
+            await this.recordFailure(entry.fileId)
+          }
+        }
+      }
+
+      this.scheduleRetry()
+    })().finally(() => {
+      this.flushing = null
+    })
+
+    return this.flushing
+  }
+
+  private static async remove(fileId: string): Promise<void> {
+    await this.save(this.entries.filter(entry => entry.fileId !== fileId))
+  }
+
+  private static async recordFailure(fileId: string): Promise<void> {
+    await this.save(this.entries.map(entry => {
+      if (entry.fileId !== fileId) return entry
+      const attempts = entry.attempts + 1
+      return {
+        ...entry,
+        attempts,
+        nextAttemptAt: Date.now() + Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY),
+      }
+    }))
+  }
+
+  private static scheduleRetry(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    this.retryTimer = null
+    if (this.entries.length === 0) return
+
+    const next = Math.min(...this.entries.map(entry => entry.nextAttemptAt))
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      this.flush()
+    }, Math.max(next - Date.now(), 0))
+  }
+
+  private static async save(entries: PendingDelete[]): Promise<void> {
+    this.entries = entries
+    try {
+      await AsyncStorage.setItem(FILE_DELETE_QUEUE_KEY, JSON.stringify(entries))
+    } catch (error) {
+      console.warn('Failed to persist pending file deletes:', error)
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { auth, files, SELFDB_ANON_KEY, SELFDB_STORAGE_URL, storage, withUnauthorizedRetry } from '@/services/selfdb'
+import { NetworkError, NotFoundError, toDataAccessError } from './errors'
+import { FileDeleteQueue } from './fileDeleteQueue'
+import { parseUploadedFileId } from './validation'
+
+// Bucket that holds topic and comment attachments
+export const DISCUSSION_BUCKET = 'discussion'
+// Bucket that holds profile pictures
+export const AVATARS_BUCKET = 'avatars'
+
+export type SentBytesHandler = (sentBytes: number) => void
+
+// Set once the storage service turns out to have no upload endpoint of its
+// own; uploads then go through the SDK, without progress
+let progressUnsupported = false
+
+/**
+ * Storage endpoint that `storage.upload` posts to, used directly for uploads
+ * that report progress
+ */
+function uploadUrl(bucket: string): string {
+  return `${SELFDB_STORAGE_URL}/api/v1/buckets/${encodeURIComponent(bucket)}/files`
+}
+
+/**
+ * Send a file to the storage service with XMLHttpRequest, which unlike
+ * fetch reports how much of the request body has gone out
+ *
+ * @returns The raw upload response
+ */
+function sendWithProgress(file: File, bucket: string, onProgress: SentBytesHandler): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest()
+    request.open('POST', uploadUrl(bucket))
+    request.setRequestHeader('apikey', SELFDB_ANON_KEY)
+    const accessToken = auth.getAccessToken()
+    if (accessToken) {
+      request.setRequestHeader('Authorization', `Bearer ${accessToken}`)
+    }
+    request.upload.onprogress = event => onProgress(event.loaded)
+    request.onerror = () => reject(new NetworkError('Failed to upload file: network request failed'))
+    request.ontimeout = request.onerror
+    request.onload = () => {
+      if (request.status < 200 || request.status >= 300) {
+        reject(Object.assign(new Error(request.responseText || `HTTP ${request.status}`), { status: request.status }))
+        return
+      }
+      try {
+        resolve(JSON.parse(request.responseText))
+      } catch (error) {
+        reject(error)
+      }
+    }
+
+    const body = new FormData()
+    body.append('file', file)
+    request.send(body)
+  })
+}
+
+/**
+ * Name to store a picked file under: the last segment of its local URI
+ */
+export function localFileName(uri: string): string {
+  return uri.split('/').pop() || 'file'
+}
+
+/**
+ * Read a local file (camera / photo library URI) into a Blob
+ */
+export async function readLocalFile(uri: string): Promise<Blob> {
+  try {
+    const fileInfo = await fetch(uri)
+    return await fileInfo.blob()
+  } catch (error) {
+    throw toDataAccessError(error, 'read file')
+  }
+}
+
+/**
+ * Upload a blob in a single request
+ *
+ * @param blob File contents, or one part of them
+ * @param fileName Name to store the file under
+ * @param contentType Type of the file; defaults to the blob's own type
+ * @param bucket Defaults to the discussion bucket
+ * @param onProgress Called with the bytes sent so far
+ * @returns ID of the stored file
+ */
+export async function uploadBlob(
+  blob: Blob,
+  fileName: string,
+  contentType?: string,
+  bucket: string = DISCUSSION_BUCKET,
+  onProgress?: SentBytesHandler
+): Promise<string> {
+  try {
+    const file = new File([blob], fileName, {
+      type: contentType || blob.type || 'application/octet-stream'
+    })
+
+    if (onProgress && !progressUnsupported) {
+      try {
+        const response = await withUnauthorizedRetry(() => sendWithProgress(file, bucket, onProgress))
+        return parseUploadedFileId(response)
+      } catch (error) {
+        if (!(toDataAccessError(error, 'upload file') instanceof NotFoundError)) throw error
+        console.warn('Storage upload endpoint not available, uploading without progress:', error)
+        progressUnsupported = true
+      }
+    }
+
+    const uploadResult = await storage.upload(bucket, file)
+    return uploadResult.file.id.toString()
+  } catch (error) {
+    throw toDataAccessError(error, 'upload file')
+  }
+}
+
+/**
+ * Upload a local file (camera / photo library URI) in a single request.
+ * Large files go through UploadManager instead.
+ *
+ * @param uri Local URI of the picked file
+ * @param bucket Defaults to the discussion bucket
+ * @returns ID of the stored file
+ */
+export async function uploadLocalFile(uri: string, bucket: string = DISCUSSION_BUCKET): Promise<string> {
+  const blob = await readLocalFile(uri)
+  return uploadBlob(blob, localFileName(uri), undefined, bucket)
+}
+
+/**
+ * Delete a stored file without throwing, so the surrounding operation can
+ * continue. A failed delete is queued and retried in the background.
+ *
+ * @param fileId ID of the file to delete
+ * @param description What the file belonged to, for log messages
+ * @returns Whether the file is gone; false when its delete was queued
+ */
+export async function deleteStoredFile(fileId: string, description: string): Promise<boolean> {
+  try {
+    await files.deleteFile(fileId)
+    return true
+  } catch (deleteError) {
+    const error = toDataAccessError(deleteError, `delete ${description}`)
+    if (error instanceof NotFoundError) return true
+    console.warn(`Could not delete ${description}, will retry:`, error)
+    await FileDeleteQueue.add(fileId, description)
+    return false
+  }
+}
+
+/**
+ * Delete several stored files; failures are queued for retry, not thrown
+ *
+ * @param onDeleted Called after each file with the number handled so far
+ * @returns IDs of the files whose delete was queued
+ */
+export async function deleteStoredFiles(
+  fileIds: string[],
+  description: string,
+  onDeleted?: (done: number) => void
+): Promise<string[]> {
+  const failed: string[] = []
+  for (const [index, fileId] of fileIds.entries()) {
+    if (!(await deleteStoredFile(fileId, description))) {
+      failed.push(fileId)
+    }
+    onDeleted?.(index + 1)
+  }
+  return failed
+}
+
@@ -0,0 +1,167 @@
+import { ImagePickerAsset } from 'expo-image-picker'
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator'
+import { MediaLimits } from '@/constants/Media'
+import { formatFileSize } from '@/lib/utils'
+import { MediaType } from '@/types'
+import { ValidationError } from './errors'
+import { localFileName, readLocalFile } from './fileStorage'
+
+const MEDIA_LABELS: Record<MediaType, string> = {
+  image: 'Photos',
+  video: 'Videos',
+  audio: 'Audio files',
+  pdf: 'PDFs',
+  other: 'Files',
+}
+
+/**
+ * Kind of a file by its MIME type
+ */
+export function mediaTypeOfMime(mimeType: string | null | undefined): MediaType {
+  if (!mimeType) return 'other'
+  if (mimeType === 'application/pdf') return 'pdf'
+  const [kind] = mimeType.split('/')
+  return kind === 'image' || kind === 'video' || kind === 'audio' ? kind : 'other'
+}
+
+/**
+ * Reject a file over the size limit of its media type. Files of unknown
+ * type are held to the largest limit.
+ *
+ * @throws ValidationError with a message that names the file and the limit
+ */
+export function checkFileSize(fileName: string, mediaType: MediaType | undefined, size: number): void {
+  const limit = mediaType ? MediaLimits.maxBytes[mediaType] : Math.max(...Object.values(MediaLimits.maxBytes))
+  if (size > limit) {
+    throw new ValidationError(
+      `"${fileName}" is too large (${formatFileSize(size)}). ` +
+      `${mediaType ? MEDIA_LABELS[mediaType] : 'Files'} can be at most ${formatFileSize(limit)}.`
+    )
+  }
+}
+
+function assetMediaType(asset: ImagePickerAsset): MediaType {
+  switch (asset.type) {
+    case 'image':
+    case 'livePhoto':
+      return 'image'
+    case 'video':
+    case 'pairedVideo':
+      return 'video'
+    default:
+      return mediaTypeOfMime(asset.mimeType)
+  }
+}
+
+/**
+ * Picked files turned into the files that get uploaded: photos are scaled
+ * down and re-encoded, which also drops their EXIF metadata (including the
+ * location), and every file is checked against the limits in MediaLimits
+ */
+export class MediaPipeline {
+  /**
+   * Prepare a picked file for upload
+   *
+   * @returns URI of the file to attach: a processed copy, or the original
+   * @throws ValidationError when the file is over a limit or can't be processed
+   */
+  static async prepare(asset: ImagePickerAsset): Promise<string> {
+    const fileName = asset.fileName || localFileName(asset.uri)
+    const mediaType = assetMediaType(asset)
+
+    if (mediaType === 'video' && asset.duration) {
+      const seconds = Math.round(asset.duration / 1000)
+      if (seconds > MediaLimits.videoMaxDurationSeconds) {
+        throw new ValidationError(
+          `"${fileName}" is too long (${formatDuration(seconds)}). ` +
+          `Videos can be at most ${formatDuration(MediaLimits.videoMaxDurationSeconds)}.`
+        )
+      }
+    }
+
+    // Animated GIFs would lose their animation; they carry no EXIF data
+    if (mediaType === 'image' && asset.mimeType !== 'image/gif') {
+      const uri = await this.compressImage(asset, fileName)
+      checkFileSize(fileName, mediaType, (await readLocalFile(uri)).size)
+      return uri
+    }
+
+    // Sizes the picker doesn't report are checked again before uploading
+    if (asset.fileSize !== undefined) {
+      checkFileSize(fileName, mediaType, asset.fileSize)
+    }
+    return asset.uri
+  }
+
+  /**
+   * Prepare several picked files, keeping the ones that pass
+   *
+   * @returns URIs of the prepared files, in order, and a message per rejected file
+   */
+  static async prepareAll(assets: ImagePickerAsset[]): Promise<{ uris: string[]; errors: string[] }> {
+    const uris: string[] = []
+    const errors: string[] = []
+
+    for (const asset of assets) {
+      try {
+        uris.push(await this.prepare(asset))
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error))
+      }
+    }
+
+    return { uris, errors }
+  }
+
+  /**
+   * Prepare a picked photo as a profile picture: scaled to a square of
+   * MediaLimits.avatarDimension and re-encoded as JPEG. The picker crops it
+   * square first.
+   *
+   * @returns URI of the processed copy
+   * @throws ValidationError when the photo can't be processed
+   */
+  static async prepareAvatar(asset: ImagePickerAsset): Promise<string> {
+    const fileName = asset.fileName || localFileName(asset.uri)
+    if (assetMediaType(asset) !== 'image') {
+      throw new ValidationError(`"${fileName}" is not a photo`)
+    }
+
+    try {
+      const context = ImageManipulator.manipulate(asset.uri)
+      context.resize({ width: MediaLimits.avatarDimension, height: MediaLimits.avatarDimension })
+      const image = await context.renderAsync()
+      const result = await image.saveAsync({ compress: MediaLimits.imageQuality, format: SaveFormat.JPEG })
+      return result.uri
+    } catch (error) {
+      throw new ValidationError(`"${fileName}" could not be processed for upload`, error)
+    }
+  }
+
+  private static async compressImage(asset: ImagePickerAsset, fileName: string): Promise<string> {
+    try {
+      const context = ImageManipulator.manipulate(asset.uri)
+      const maxDimension = MediaLimits.imageMaxDimension
+      if (Math.max(asset.width, asset.height) > maxDimension) {
+        context.resize(asset.width >= asset.height ? { width: maxDimension } : { height: maxDimension })
+      }
+
+      const image = await context.renderAsync()
+      const result = await image.saveAsync({
+        compress: MediaLimits.imageQuality,
+        format: asset.mimeType === 'image/png'
+          ? SaveFormat.PNG
+          : asset.mimeType === 'image/webp' ? SaveFormat.WEBP : SaveFormat.JPEG,
+      })
+      return result.uri
+    } catch (error) {
+      throw new ValidationError(`"${fileName}" could not be processed for upload`, error)
+    }
+  }
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const rest = seconds % 60
+  return minutes > 0 ? `${minutes}:${rest.toString().padStart(2, '0')} min` : `${rest} s`
+}
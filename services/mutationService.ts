@@ -0,0 +1,549 @@
+import { AppState } from 'react-native'
+import { generateId } from '@/lib/utils'
+import { attachmentFileIds, attachmentsChanged, fileColumns, removedFileIds } from '@/lib/attachments'
+import {
+  Comment,
+  CommentChanges,
+  NewComment,
+  NewTopic,
+  PendingAttachment,
+  Topic,
+  TopicChanges,
+  TopicDeletionProgress,
+  TopicDeletionSummary,
+} from '@/types'
+import { CommentRepository } from './commentRepository'
+import { DataScope } from './dataScope'
+import { ConflictError, DataAccessError, NetworkError, NotFoundError, UnauthorizedError } from './errors'
+import { FileDeleteQueue } from './fileDeleteQueue'
+import { deleteStoredFiles } from './fileStorage'
+import {
+  MAX_OUTBOX_ATTEMPTS,
+  Outbox,
+  OutboxMutation,
+  isBlockedBy,
+  optimisticComment,
+  optimisticTopic,
+} from './outbox'
+import { Session } from './session'
+import { TagRepository } from './tagRepository'
+import { TopicRepository } from './topicRepository'
+import { UploadManager } from './uploadManager'
+
+/**
+ * Outcome of a write: `queued` is true when the server was unreachable and
+ * the write was stored in the outbox, in which case `value` is the
+ * optimistic row shown until it syncs
+ */
+export interface MutationResult<T> {
+  queued: boolean
+  value: T
+}
+
+export type TopicDeletionProgressHandler = (progress: TopicDeletionProgress) => void
+
+/**
+ * Delete a topic together with its comments and every attached file. The
+ * delete-topic function does all of it on the server in one transaction;
+ * without it, the topic row is deleted (its comments go with it through
+ * the cascading foreign key) and the files are deleted afterwards. Files
+ * that can't be deleted are reported and retried later.
+ */
+async function deleteTopicCascade(
+  topicId: string,
+  fileIds: string[],
+  onProgress?: TopicDeletionProgressHandler
+): Promise<TopicDeletionSummary> {
+  onProgress?.({ stage: 'deleting', done: 0, total: 1 })
+  const summary = await TopicRepository.removeWithContents(topicId)
+  if (summary) return summary
+
+  onProgress?.({ stage: 'collecting', done: 0, total: 1 })
+  const comments = await CommentRepository.listByTopic(topicId)
+  const allFileIds = [...fileIds, ...comments.flatMap(comment => attachmentFileIds(comment))]
+
+  onProgress?.({ stage: 'deleting', done: 0, total: 1 })
+  try {
+    await TopicRepository.remove(topicId)
+  } catch (error) {
+    // Databases set up before the cascade keep the topic while comments point at it
+    if (!(error instanceof DataAccessError) || !/foreign key/i.test(error.message)) throw error
+    const total = comments.length + 1
+    for (const [index, comment] of comments.entries()) {
+      onProgress?.({ stage: 'deleting', done: index, total })
+      await CommentRepository.remove(comment.id)
+    }
+    onProgress?.({ stage: 'deleting', done: comments.length, total })
+    await TopicRepository.remove(topicId)
+  }
+
+  const total = allFileIds.length
+  onProgress?.({ stage: 'files', done: 0, total })
+  const failedFileIds = await deleteStoredFiles(allFileIds, 'topic attachment', done =>
+    onProgress?.({ stage: 'files', done, total })
+  )
+
+  return {
+    topic_id: topicId,
+    comments_deleted: comments.length,
+    files_deleted: total - failedFileIds.length,
+    failed_file_ids: failedFileIds,
+  }
+}
+
+/**
+ * What the server returned for an applied mutation: the stored row for
+ * creates, and the stored attachment list for updates that changed it
+ */
+interface ExecuteResult {
+  row?: Topic | Comment
+  fileIds?: string[]
+}
+
+/**
+ * Upload an update's new attachments and merge the resulting list into
+ * its changes
+ */
+async function withUploadedAttachments<T extends TopicChanges | CommentChanges>(
+  changes: T,
+  attachments: PendingAttachment[] | undefined
+): Promise<{ changes: T; fileIds?: string[]; uploadedFileIds: string[] }> {
+  if (!attachments) return { changes, uploadedFileIds: [] }
+  const { fileIds, uploadedFileIds } = await UploadManager.uploadAttachments(attachments)
+  return { changes: { ...changes, ...fileColumns(fileIds) }, fileIds, uploadedFileIds }
+}
+
+/**
+ * Apply one mutation against the server
+ */
+async function execute(mutation: OutboxMutation): Promise<ExecuteResult> {
+  switch (mutation.type) {
+    case 'createTopic': {
+      const { fileIds, uploadedFileIds } = await UploadManager.uploadAttachments(mutation.attachments ?? [])
+      let row: Topic
+      try {
+        row = await TopicRepository.create({ ...mutation.data, ...fileColumns(fileIds) })
+      } catch (error) {
+        // Don't leave the fresh uploads orphaned; they are uploaded again on retry
+        await deleteStoredFiles(uploadedFileIds, 'uploaded file')
+        // An earlier attempt stored the topic but may have failed to link its
+        // tags; link them before the conflict marks the entry as applied
+        if (error instanceof ConflictError && mutation.tagIds?.length) {
+          await TagRepository.setTopicTags(mutation.data.id, mutation.tagIds)
+        }
+        throw error
+      }
+      // Links need the stored topic; the trigger fills tag_ids after the insert
+      if (mutation.tagIds?.length) {
+        await TagRepository.setTopicTags(row.id, mutation.tagIds)
+        row = { ...row, tag_ids: mutation.tagIds }
+      }
+      return { row }
+    }
+    case 'updateTopic': {
+      const { changes, fileIds, uploadedFileIds } =
+        await withUploadedAttachments(mutation.changes, mutation.attachments)
+      try {
+        await TopicRepository.update(mutation.id, changes)
+      } catch (error) {
+        await deleteStoredFiles(uploadedFileIds, 'uploaded file')
+        throw error
+      }
+      if (mutation.tagIds) {
+        await TagRepository.setTopicTags(mutation.id, mutation.tagIds)
+      }
+      // Delete removed files only after a successful update
+      await deleteStoredFiles(mutation.removedFileIds ?? [], 'removed attachment')
+      return { fileIds }
+    }
+    case 'deleteTopic':
+      await TopicRepository.softDelete(mutation.id, mutation.deletedAt ?? new Date().toISOString())
+      return {}
+    case 'restoreTopic':
+      await TopicRepository.restore(mutation.id)
+      return {}
+    case 'createComment': {
+      const { fileIds, uploadedFileIds } = await UploadManager.uploadAttachments(mutation.attachments ?? [])
+      try {
+        const row = await CommentRepository.create({ ...mutation.data, ...fileColumns(fileIds) })
+        return { row }
+      } catch (error) {
+        await deleteStoredFiles(uploadedFileIds, 'uploaded file')
+        throw error
+      }
+    }
+    case 'updateComment': {
+      const { changes, fileIds, uploadedFileIds } =
+        await withUploadedAttachments(mutation.changes, mutation.attachments)
+      try {
+        await CommentRepository.update(mutation.id, changes)
+      } catch (error) {
+        await deleteStoredFiles(uploadedFileIds, 'uploaded file')
+        throw error
+      }
+      await deleteStoredFiles(mutation.removedFileIds ?? [], 'removed attachment')
+      return { fileIds }
+    }
+    case 'deleteComment':
+      await CommentRepository.softDelete(mutation.id, mutation.deletedAt ?? new Date().toISOString())
+      return {}
+    case 'restoreComment':
+      await CommentRepository.restore(mutation.id)
+      return {}
+  }
+}
+
+/**
+ * Attachment fields of a row after an update stored the given list
+ */
+function storedColumns(fileIds: string[]): { file_ids: string[]; file_id: string | undefined } {
+  return { file_ids: fileIds, file_id: fileIds[0] }
+}
+
+/**
+ * Edit stamp of a row after an update, as the revisions trigger sets it:
+ * only a changed title, content or attachment list counts as an edit. The
+ * trigger records the editor from the session, so it's unknown until the
+ * stored row arrives.
+ */
+function editedColumns(
+  row: Topic | Comment,
+  changes: TopicChanges | CommentChanges,
+  attachments: PendingAttachment[] | undefined
+): { edited_at?: string; edited_by?: string } {
+  const titleChanged = 'title' in changes && 'title' in row &&
+    changes.title !== undefined && changes.title !== row.title
+  const edited = titleChanged ||
+    (changes.content !== undefined && changes.content !== row.content) ||
+    (!!attachments && attachmentsChanged(attachmentFileIds(row), attachments))
+  return edited
+    ? { edited_at: new Date().toISOString(), edited_by: undefined }
+    : { edited_at: row.edited_at, edited_by: row.edited_by }
+}
+
+/**
+ * Whether a replayed mutation failed only because an earlier attempt
+ * already reached the server
+ */
+function isAlreadyApplied(mutation: OutboxMutation, error: unknown): boolean {
+  if (mutation.type === 'createTopic' || mutation.type === 'createComment') {
+    return error instanceof ConflictError
+  }
+  if (
+    mutation.type === 'deleteTopic' ||
+    mutation.type === 'deleteComment' ||
+    mutation.type === 'restoreTopic' ||
+    mutation.type === 'restoreComment'
+  ) {
+    return error instanceof NotFoundError
+  }
+  return false
+}
+
+/**
+ * Writes for topics and comments. Each write is sent straight to the
+ * server; when SelfDB is unreachable (or earlier writes are still queued)
+ * it goes to the outbox instead and is replayed with backoff.
+ */
+export class MutationService {
+  private static flushing: Promise<number> | null = null
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  /**
+   * Create a topic
+   *
+   * @param attachments Attachments in display order; picked files are uploaded first
+   * @param tagIds Tags to link to the new topic
+   */
+  static async createTopic(
+    data: NewTopic,
+    attachments?: PendingAttachment[],
+    tagIds?: string[]
+  ): Promise<MutationResult<Topic>> {
+    const mutation: OutboxMutation = {
+      type: 'createTopic',
+      data: { ...data, id: data.id ?? generateId() },
+      attachments,
+      tagIds,
+    }
+    const result = await this.submit(mutation)
+    return result.queued
+      ? { queued: true, value: optimisticTopic(mutation, Date.now()) }
+      : { queued: false, value: result.row as Topic }
+  }
+
+  /**
+   * Update a topic; attachments dropped from the list are deleted afterwards
+   *
+   * @param attachments The topic's complete new attachment list; omit to keep it
+   * @param tagIds The topic's complete new set of tags; omit to keep them
+   */
+  static async updateTopic(
+    topic: Topic,
+    changes: TopicChanges,
+    attachments?: PendingAttachment[],
+    tagIds?: string[]
+  ): Promise<MutationResult<Topic>> {
+    const result = await this.submit({
+      type: 'updateTopic',
+      id: topic.id,
+      changes,
+      attachments,
+      removedFileIds: attachments ? removedFileIds(attachmentFileIds(topic), attachments) : undefined,
+      tagIds,
+    })
+    const updated: Topic = {
+      ...topic,
+      ...changes,
+      // Queued updates keep showing the stored files until they sync
+      ...storedColumns(result.fileIds ?? attachmentFileIds(topic)),
+      ...editedColumns(topic, changes, attachments),
+      tag_ids: tagIds ?? topic.tag_ids,
+    }
+    return result.queued
+      ? { queued: true, value: { ...updated, pending_attachments: attachments, sync_status: 'pending' } }
+      : { queued: false, value: updated }
+  }
+
+  /**
+   * Soft-delete a topic: it leaves the feed but keeps its comments and
+   * files until it is restored or purged
+   *
+   * @returns The topic as deleted
+   */
+  static async deleteTopic(topic: Topic): Promise<MutationResult<Topic>> {
+    const deletedAt = new Date().toISOString()
+    const result = await this.submit({ type: 'deleteTopic', id: topic.id, deletedAt })
+    return { queued: result.queued, value: { ...topic, deleted_at: deletedAt } }
+  }
+
+  /**
+   * Bring back a soft-deleted topic
+   */
+  static async restoreTopic(topic: Topic): Promise<MutationResult<Topic>> {
+    const result = await this.submit({ type: 'restoreTopic', id: topic.id })
+    return { queued: result.queued, value: { ...topic, deleted_at: undefined } }
+  }
+
+  /**
+   * Permanently delete a topic with all its comments and files. Not queued:
+   * it fails with a NetworkError while SelfDB is unreachable.
+   *
+   * @param onProgress Called as the deletion moves through its steps
+   * @returns What was deleted
+   */
+  static purgeTopic(topic: Topic, onProgress?: TopicDeletionProgressHandler): Promise<TopicDeletionSummary> {
+    return deleteTopicCascade(topic.id, attachmentFileIds(topic), onProgress)
+  }
+
+  /**
+   * Create a comment
+   *
+   * @param attachments Attachments in display order; picked files are uploaded first
+   */
+  static async createComment(
+    data: NewComment,
+    attachments?: PendingAttachment[]
+  ): Promise<MutationResult<Comment>> {
+    const mutation: OutboxMutation = {
+      type: 'createComment',
+      data: { ...data, id: data.id ?? generateId() },
+      attachments,
+    }
+    const result = await this.submit(mutation)
+    return result.queued
+      ? { queued: true, value: optimisticComment(mutation, Date.now()) }
+      : { queued: false, value: result.row as Comment }
+  }
+
+  /**
+   * Update a comment; attachments dropped from the list are deleted afterwards
+   *
+   * @param attachments The comment's complete new attachment list; omit to keep it
+   */
+  static async updateComment(
+    comment: Comment,
+    changes: CommentChanges,
+    attachments?: PendingAttachment[]
+  ): Promise<MutationResult<Comment>> {
+    const result = await this.submit({
+      type: 'updateComment',
+      id: comment.id,
+      topicId: comment.topic_id,
+      changes,
+      attachments,
+      removedFileIds: attachments ? removedFileIds(attachmentFileIds(comment), attachments) : undefined,
+    })
+    const updated: Comment = {
+      ...comment,
+      ...changes,
+      ...storedColumns(result.fileIds ?? attachmentFileIds(comment)),
+      ...editedColumns(comment, changes, attachments),
+    }
+    return result.queued
+      ? { queued: true, value: { ...updated, pending_attachments: attachments, sync_status: 'pending' } }
+      : { queued: false, value: updated }
+  }
+
+  /**
+   * Soft-delete a comment; its attachments are kept until it is purged
+   *
+   * @returns The comment as deleted
+   */
+  static async deleteComment(comment: Comment): Promise<MutationResult<Comment>> {
+    const deletedAt = new Date().toISOString()
+    const result = await this.submit({ type: 'deleteComment', id: comment.id, topicId: comment.topic_id, deletedAt })
+    return { queued: result.queued, value: { ...comment, deleted_at: deletedAt } }
+  }
+
+  /**
+   * Bring back a soft-deleted comment
+   */
+  static async restoreComment(comment: Comment): Promise<MutationResult<Comment>> {
+    const result = await this.submit({ type: 'restoreComment', id: comment.id, topicId: comment.topic_id })
+    return { queued: result.queued, value: { ...comment, deleted_at: undefined } }
+  }
+
+  /**
+   * Permanently delete a comment and its attachments. Not queued: it fails
+   * with a NetworkError while SelfDB is unreachable.
+   *
+   * @returns IDs of files that could not be deleted yet; they are retried later
+   */
+  static async purgeComment(comment: Comment): Promise<string[]> {
+    await CommentRepository.remove(comment.id)
+    return deleteStoredFiles(attachmentFileIds(comment), 'comment file')
+  }
+
+  /**
+   * Replay queued writes in order. Stops at the first entry that fails so
+   * later writes never overtake earlier ones. An entry that failed for good
+   * fails the later writes to the same row with it (and comments on a row
+   * it was creating); writes to other rows go ahead.
+   *
+   * @returns Number of entries applied
+   */
+  static flushOutbox(): Promise<number> {
+    if (this.flushing) return this.flushing
+
+    this.flushing = (async () => {
+      await Outbox.load()
+      let applied = 0
+      const failed: OutboxMutation[] = []
+
+      for (const entry of Outbox.getEntries()) {
+        if (entry.status === 'failed') {
+          failed.push(entry.mutation)
+          continue
+        }
+        if (failed.some(blocker => isBlockedBy(entry.mutation, blocker))) {
+          await Outbox.recordFailure(entry.id, new Error('An earlier change to this item could not be saved'), true)
+          failed.push(entry.mutation)
+          continue
+        }
+        if (entry.nextAttemptAt > Date.now()) break
+
+        try {
+          await execute(entry.mutation)
+          await Outbox.remove(entry.id)
+          applied++
+        } catch (error) {
+          if (isAlreadyApplied(entry.mutation, error)) {
+            await Outbox.remove(entry.id)
+            applied++
+            continue
+          }
+          // Writes rejected while signed out wait for the next sign-in
+          // instead of using up their attempts
+          const waiting = error instanceof NetworkError || (error instanceof UnauthorizedError && Session.isExpired())
+          const permanent = !waiting && entry.attempts + 1 >= MAX_OUTBOX_ATTEMPTS
+          console.warn(`Outbox entry ${entry.id} failed (${entry.mutation.type}):`, error)
+          await Outbox.recordFailure(entry.id, error, permanent)
+          if (!permanent) break
+          failed.push(entry.mutation)
+        }
+      }
+
+      if (applied > 0) {
+        Outbox.markSynced()
+      }
+      this.scheduleRetry()
+      return applied
+    })().finally(() => {
+      this.flushing = null
+    })
+
+    return this.flushing
+  }
+
+  /**
+   * Start replaying the outbox and retrying failed file deletes: now,
+   * whenever the app returns to the foreground, at each entry's next retry
+   * time, and when another user's queue comes into use
+   *
+   * @returns Function that stops the background replay
+   */
+  static start(): () => void {
+    this.flushOutbox()
+    FileDeleteQueue.flush()
+
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        this.flushOutbox()
+        FileDeleteQueue.flush()
+      }
+    })
+    // A flush still running for the previous scope is followed by one for the new
+    const unsubscribeScope = DataScope.subscribe(() => {
+      const running = this.flushing ?? Promise.resolve(0)
+      running.catch(() => 0).then(() => this.flushOutbox())
+    })
+
+    return () => {
+      subscription.remove()
+      unsubscribeScope()
+      if (this.retryTimer) clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+  }
+
+  /**
+   * Send a write now, or queue it when offline or behind queued writes
+   */
+  private static async submit(mutation: OutboxMutation): Promise<ExecuteResult & { queued: boolean }> {
+    await Outbox.load()
+
+    // Keep order with writes that are still waiting, or failed before it
+    if (Outbox.getEntries().some(entry =>
+      entry.status === 'pending' || isBlockedBy(mutation, entry.mutation)
+    )) {
+      await Outbox.enqueue(mutation)
+      this.flushOutbox()
+      return { queued: true }
+    }
+
+    try {
+      return { queued: false, ...(await execute(mutation)) }
+    } catch (error) {
+      if (!(error instanceof NetworkError)) throw error
+      console.warn(`Server unreachable, queued ${mutation.type} for later:`, error)
+      await Outbox.enqueue(mutation)
+      this.scheduleRetry()
+      return { queued: true }
+    }
+  }
+
+  private static scheduleRetry(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    this.retryTimer = null
+
+    // Entries replay in order, so the first pending one decides the next attempt
+    const next = Outbox.getEntries().find(entry => entry.status === 'pending')
+    if (!next) return
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      this.flushOutbox()
+    }, Math.max(next.nextAttemptAt - Date.now(), 0))
+  }
+}
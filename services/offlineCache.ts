@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { Comment, Topic } from '@/types'
+import { DataScope } from './dataScope'
+import { parseComment, parseList, parseTopic } from './validation'
+
+// Cached server data is stored under this prefix and the data scope
+const CACHE_KEY_PREFIX = '@app/cache/'
+
+/**
+ * Storage keys of the current data scope
+ */
+function cacheKeys(): { topics: string; commentsPrefix: string } {
+  const scopePrefix = `${CACHE_KEY_PREFIX}${DataScope.current()}/`
+  return { topics: `${scopePrefix}topics`, commentsPrefix: `${scopePrefix}comments/` }
+}
+
+/**
+ * Drop client-only state so only server rows are cached
+ */
+function isSynced(row: Topic | Comment): boolean {
+  return row.sync_status === undefined
+}
+
+/**
+ * Persistent snapshot of the last topics and comments loaded from the
+ * server, used for reading while SelfDB is unreachable. Kept per user, see
+ * DataScope.
+ */
+export class OfflineCache {
+  /**
+   * Save the topics currently shown in the feed
+   */
+  static async saveTopics(topics: Topic[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(cacheKeys().topics, JSON.stringify(topics.filter(isSynced)))
+    } catch (error) {
+      console.warn('Failed to cache topics:', error)
+    }
+  }
+
+  /**
+   * Get the cached topics, or an empty list when nothing is cached
+   */
+  static async getTopics(): Promise<Topic[]> {
+    try {
+      const cached = await AsyncStorage.getItem(cacheKeys().topics)
+      return cached ? parseList(JSON.parse(cached), parseTopic, 'topic') : []
+    } catch (error) {
+      console.warn('Failed to read cached topics:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get a single cached topic by id
+   */
+  static async getTopic(topicId: string): Promise<Topic | null> {
+    const topics = await this.getTopics()
+    return topics.find(topic => topic.id === topicId) ?? null
+  }
+
+  /**
+   * Save the comments currently loaded for a topic
+   */
+  static async saveComments(topicId: string, comments: Comment[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        cacheKeys().commentsPrefix + topicId,
+        JSON.stringify(comments.filter(isSynced))
+      )
+    } catch (error) {
+      console.warn('Failed to cache comments:', error)
+    }
+  }
+
+  /**
+   * Get the cached comments of a topic, or an empty list
+   */
+  static async getComments(topicId: string): Promise<Comment[]> {
+    try {
+      const cached = await AsyncStorage.getItem(cacheKeys().commentsPrefix + topicId)
+      return cached ? parseList(JSON.parse(cached), parseComment, 'comment') : []
+    } catch (error) {
+      console.warn('Failed to read cached comments:', error)
+      return []
+    }
+  }
+
+  /**
+   * Remove every cached topic and comment list, of every user
+   */
+  static async clear(): Promise<void> {
+    try {
+      const keys = await AsyncStorage.getAllKeys()
+      await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(CACHE_KEY_PREFIX)))
+    } catch (error) {
+      console.warn('Failed to clear offline cache:', error)
+    }
+  }
+}
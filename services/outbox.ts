@@ -0,0 +1,377 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { Comment, CommentChanges, NewComment, NewTopic, PendingAttachment, Topic, TopicChanges } from '@/types'
+import { generateId } from '@/lib/utils'
+import { isLocalAttachment } from '@/lib/attachments'
+import { DataScope } from './dataScope'
+
+// Followed by the data scope, so every user has their own queue
+const OUTBOX_KEY_PREFIX = '@app/outbox/'
+
+// Retry schedule: exponential backoff from 2s, capped at 5 minutes
+const BASE_RETRY_DELAY = 2000
+const MAX_RETRY_DELAY = 5 * 60 * 1000
+// Non-network failures are retried this many times before the entry is marked failed
+export const MAX_OUTBOX_ATTEMPTS = 5
+
+/**
+ * A write waiting to reach the server. Creates carry a client-generated
+ * id. `attachments` is the complete new attachment list, with picked files
+ * still to be uploaded; updates leave attachments alone when it is absent.
+ * Deletes are soft deletes stamped with the time the user deleted.
+ */
+export type OutboxMutation =
+  | { type: 'createTopic'; data: NewTopic & { id: string }; attachments?: PendingAttachment[]; tagIds?: string[] }
+  | { type: 'updateTopic'; id: string; changes: TopicChanges; attachments?: PendingAttachment[]; removedFileIds?: string[]; tagIds?: string[] }
+  | { type: 'deleteTopic'; id: string; deletedAt?: string }
+  | { type: 'restoreTopic'; id: string }
+  | { type: 'createComment'; data: NewComment & { id: string }; attachments?: PendingAttachment[] }
+  | { type: 'updateComment'; id: string; topicId: string; changes: CommentChanges; attachments?: PendingAttachment[]; removedFileIds?: string[] }
+  | { type: 'deleteComment'; id: string; topicId: string; deletedAt?: string }
+  | { type: 'restoreComment'; id: string; topicId: string }
+
+export interface OutboxEntry {
+  id: string
+  mutation: OutboxMutation
+  status: 'pending' | 'failed'
+  attempts: number
+  nextAttemptAt: number
+  lastError?: string
+  createdAt: number
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void
+
+/**
+ * ID of the topic or comment a mutation writes to
+ */
+export function mutationTargetId(mutation: OutboxMutation): string {
+  return mutation.type === 'createTopic' || mutation.type === 'createComment'
+    ? mutation.data.id
+    : mutation.id
+}
+
+/**
+ * IDs of the rows a comment mutation needs to exist: its topic, and the
+ * comment it replies to
+ */
+function mutationParentIds(mutation: OutboxMutation): string[] {
+  switch (mutation.type) {
+    case 'createComment':
+      return mutation.data.parent_id ? [mutation.data.topic_id, mutation.data.parent_id] : [mutation.data.topic_id]
+    case 'updateComment':
+    case 'deleteComment':
+    case 'restoreComment':
+      return [mutation.topicId]
+    default:
+      return []
+  }
+}
+
+/**
+ * Whether `mutation` can't be applied while `blocker`, queued before it,
+ * has failed: it writes to the same row, or to a comment on (or reply to)
+ * the row the blocker creates
+ */
+export function isBlockedBy(mutation: OutboxMutation, blocker: OutboxMutation): boolean {
+  const blockerId = mutationTargetId(blocker)
+  if (mutationTargetId(mutation) === blockerId) return true
+  return (blocker.type === 'createTopic' || blocker.type === 'createComment') &&
+    mutationParentIds(mutation).includes(blockerId)
+}
+
+/**
+ * Entries that write to the given row, followed by every later entry
+ * blocked by one of them
+ */
+function entriesFor(entries: OutboxEntry[], targetId: string): Set<string> {
+  const matched: OutboxEntry[] = []
+  for (const entry of entries) {
+    if (
+      mutationTargetId(entry.mutation) === targetId ||
+      matched.some(earlier => isBlockedBy(entry.mutation, earlier.mutation))
+    ) {
+      matched.push(entry)
+    }
+  }
+  return new Set(matched.map(entry => entry.id))
+}
+
+/**
+ * Persistent FIFO queue of writes made while SelfDB was unreachable, one
+ * per data scope (see DataScope). Entries are replayed by
+ * MutationService.flushOutbox().
+ */
+export class Outbox {
+  private static entries: OutboxEntry[] = []
+  private static lastSyncedAt = 0
+  private static loaded: Promise<void> | null = null
+  // Storage key the entries were loaded from
+  private static key = ''
+  private static listeners = new Set<OutboxListener>()
+
+  /**
+   * Load the current scope's queue from storage, once per app session and
+   * again whenever the scope changes
+   */
+  static load(): Promise<void> {
+    const key = OUTBOX_KEY_PREFIX + DataScope.current()
+    if (!this.loaded || this.key !== key) {
+      this.key = key
+      this.entries = []
+      this.loaded = (async () => {
+        let entries: OutboxEntry[]
+        try {
+          const stored = await AsyncStorage.getItem(key)
+          entries = stored ? JSON.parse(stored) : []
+        } catch (error) {
+          console.warn('Failed to load outbox:', error)
+          entries = []
+        }
+        // The scope changed again meanwhile
+        if (this.key !== key) return
+        this.entries = entries
+        this.notify()
+      })()
+    }
+    return this.loaded
+  }
+
+  /**
+   * Current entries in queue order
+   */
+  static getEntries(): OutboxEntry[] {
+    return this.entries
+  }
+
+  /**
+   * Time of the last flush that applied at least one entry (0 if none yet)
+   */
+  static getLastSyncedAt(): number {
+    return this.lastSyncedAt
+  }
+
+  /**
+   * Record that queued writes reached the server so screens can reload
+   */
+  static markSynced(): void {
+    this.lastSyncedAt = Date.now()
+    this.notify()
+  }
+
+  /**
+   * Subscribe to queue changes
+   *
+   * @returns Function that removes the listener
+   */
+  static subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Append a mutation to the queue
+   */
+  static async enqueue(mutation: OutboxMutation): Promise<OutboxEntry> {
+    await this.load()
+    const entry: OutboxEntry = {
+      id: generateId(),
+      mutation,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: Date.now(),
+    }
+    await this.save([...this.entries, entry])
+    return entry
+  }
+
+  /**
+   * Remove an entry once it has been applied (or discarded by the user)
+   */
+  static async remove(entryId: string): Promise<void> {
+    await this.load()
+    await this.save(this.entries.filter(entry => entry.id !== entryId))
+  }
+
+  /**
+   * Record a failed attempt and schedule the next one with backoff
+   *
+   * @param permanent Mark the entry failed instead of scheduling a retry
+   */
+  static async recordFailure(entryId: string, error: unknown, permanent: boolean): Promise<void> {
+    await this.load()
+    const message = error instanceof Error ? error.message : String(error)
+    await this.save(this.entries.map(entry => {
+      if (entry.id !== entryId) return entry
+      const attempts = entry.attempts + 1
+      const delay = Math.min(BASE_RETRY_DELAY * 2 ** attempts, MAX_RETRY_DELAY)
+      return {
+        ...entry,
+        attempts,
+        status: permanent ? 'failed' : 'pending',
+        nextAttemptAt: Date.now() + delay,
+        lastError: message,
+      }
+    }))
+  }
+
+  /**
+   * Retry every failed entry that writes to the given topic or comment, and
+   * the entries that failed because of them, e.g. comments on a topic
+   * whose create failed
+   */
+  static async retryFor(targetId: string): Promise<void> {
+    await this.load()
+    const retried = entriesFor(this.entries, targetId)
+    await this.save(this.entries.map(entry =>
+      entry.status === 'failed' && retried.has(entry.id)
+        ? { ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now() }
+        : entry
+    ))
+  }
+
+  /**
+   * Drop every entry that writes to the given topic or comment, and the
+   * entries that can't be applied without them
+   */
+  static async discardFor(targetId: string): Promise<void> {
+    await this.load()
+    const discarded = entriesFor(this.entries, targetId)
+    await this.save(this.entries.filter(entry => !discarded.has(entry.id)))
+  }
+
+  /**
+   * Drop the current scope's whole queue, on sign-out
+   */
+  static async clear(): Promise<void> {
+    await this.load()
+    await this.save([])
+  }
+
+  private static async save(entries: OutboxEntry[]): Promise<void> {
+    this.entries = entries
+    this.notify()
+    try {
+      await AsyncStorage.setItem(this.key, JSON.stringify(entries))
+    } catch (error) {
+      console.warn('Failed to persist outbox:', error)
+    }
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener(this.entries))
+  }
+}
+
+/**
+ * Already stored files of an attachment list
+ */
+function storedFileIds(attachments: PendingAttachment[]): string[] {
+  return attachments.flatMap(attachment => (isLocalAttachment(attachment) ? [] : [attachment.file_id]))
+}
+
+/**
+ * Build the optimistic row shown for a queued topic create
+ */
+export function optimisticTopic(
+  mutation: Extract<OutboxMutation, { type: 'createTopic' }>,
+  createdAt: number
+): Topic {
+  const timestamp = new Date(createdAt).toISOString()
+  return {
+    ...mutation.data,
+    file_id: mutation.data.file_id ?? undefined,
+    file_ids: storedFileIds(mutation.attachments ?? []),
+    pending_attachments: mutation.attachments,
+    tag_ids: mutation.tagIds,
+    comment_count: 0,
+    created_at: timestamp,
+    updated_at: timestamp,
+    sync_status: 'pending',
+  }
+}
+
+/**
+ * Build the optimistic row shown for a queued comment create
+ */
+export function optimisticComment(
+  mutation: Extract<OutboxMutation, { type: 'createComment' }>,
+  createdAt: number
+): Comment {
+  const timestamp = new Date(createdAt).toISOString()
+  return {
+    ...mutation.data,
+    file_id: mutation.data.file_id ?? undefined,
+    file_ids: storedFileIds(mutation.attachments ?? []),
+    pending_attachments: mutation.attachments,
+    created_at: timestamp,
+    updated_at: timestamp,
+    sync_status: 'pending',
+  }
+}
+
+/**
+ * Overlay queued topic writes on a list of topics: pending creates are
+ * prepended, edits applied and deletes hidden, each marked with its sync status
+ */
+export function applyPendingTopics(topics: Topic[], entries: OutboxEntry[]): Topic[] {
+  return entries.reduce<Topic[]>((result, entry) => {
+    const { mutation } = entry
+    switch (mutation.type) {
+      case 'createTopic':
+        if (result.some(topic => topic.id === mutation.data.id)) return result
+        return [{ ...optimisticTopic(mutation, entry.createdAt), sync_status: entry.status }, ...result]
+      case 'updateTopic':
+        return result.map(topic =>
+          topic.id === mutation.id
+            ? {
+                ...topic,
+                ...mutation.changes,
+                file_id: mutation.changes.file_id === undefined ? topic.file_id : mutation.changes.file_id ?? undefined,
+                tag_ids: mutation.tagIds ?? topic.tag_ids,
+                pending_attachments: mutation.attachments ?? topic.pending_attachments,
+                sync_status: entry.status,
+              }
+            : topic
+        )
+      case 'deleteTopic':
+        return result.filter(topic => topic.id !== mutation.id)
+      default:
+        return result
+    }
+  }, topics)
+}
+
+/**
+ * Overlay queued comment writes for one topic on its loaded comments
+ */
+export function applyPendingComments(comments: Comment[], entries: OutboxEntry[], topicId: string): Comment[] {
+  return entries.reduce<Comment[]>((result, entry) => {
+    const { mutation } = entry
+    switch (mutation.type) {
+      case 'createComment':
+        if (mutation.data.topic_id !== topicId || result.some(comment => comment.id === mutation.data.id)) {
+          return result
+        }
+        return [...result, { ...optimisticComment(mutation, entry.createdAt), sync_status: entry.status }]
+      case 'updateComment':
+        return result.map(comment =>
+          comment.id === mutation.id
+            ? {
+                ...comment,
+                ...mutation.changes,
+                file_id: mutation.changes.file_id === undefined ? comment.file_id : mutation.changes.file_id ?? undefined,
+                pending_attachments: mutation.attachments ?? comment.pending_attachments,
+                sync_status: entry.status,
+              }
+            : comment
+        )
+      case 'deleteComment':
+        return result.filter(comment => comment.id !== mutation.id)
+      default:
+        return result
+    }
+  }, comments)
+}
@@ -0,0 +1,21 @@
+// Helpers for keyset pagination on (created_at, id).
+//
+// A page after a cursor takes two queries, because the query builder has no
+// OR: rows that tie with the cursor on created_at, paged by id, and rows
+// strictly beyond its created_at. Any number of rows may share a timestamp,
+// so ties are never left for the client to skip.
+
+export interface KeysetRow {
+  id: string
+  created_at: string
+}
+
+export type KeysetDirection = 'older' | 'newer'
+
+/**
+ * Comparison that selects the rows beyond the cursor in the given
+ * direction, for both the created_at bound and the id bound among ties
+ */
+export function beyondOperator(direction: KeysetDirection): '<' | '>' {
+  return direction === 'older' ? '<' : '>'
+}
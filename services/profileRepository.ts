@@ -0,0 +1,56 @@
+import { db } from '@/services/selfdb'
+import { Profile, ProfileChanges } from '@/types'
+import { toDataAccessError } from './errors'
+import { parseList, parseProfile } from './validation'
+
+/**
+ * Data access for `profiles`, one row per signed-in user keyed by their id.
+ * Anyone can read profiles; users write only their own.
+ */
+export class ProfileRepository {
+  /**
+   * Fetch a user's profile
+   *
+   * @returns null when the user has no profile yet
+   */
+  static async getByUserId(userId: string): Promise<Profile | null> {
+    try {
+      const rows = await db
+        .from('profiles')
+        .where('user_id', userId)
+        .execute()
+      const [profile] = parseList(rows, parseProfile, 'profile')
+      return profile ?? null
+    } catch (error) {
+      throw toDataAccessError(error, `load profile of user ${userId}`)
+    }
+  }
+
+  /**
+   * Insert a user's profile and return the stored row
+   *
+   * @throws ConflictError when the user already has one
+   */
+  static async create(userId: string, input: ProfileChanges & { display_name: string }): Promise<Profile> {
+    try {
+      const row = await db.from('profiles').insert({ ...input, user_id: userId })
+      return parseProfile(row)
+    } catch (error) {
+      throw toDataAccessError(error, `create profile of user ${userId}`)
+    }
+  }
+
+  /**
+   * Apply a partial update to a user's profile
+   */
+  static async update(userId: string, changes: ProfileChanges): Promise<void> {
+    try {
+      await db
+        .from('profiles')
+        .where('user_id', userId)
+        .update(changes)
+    } catch (error) {
+      throw toDataAccessError(error, `update profile of user ${userId}`)
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { defaultDisplayName } from '@/lib/profiles'
+import { Profile, ProfileChanges, User } from '@/types'
+import { ConflictError, NotFoundError } from './errors'
+import { AVATARS_BUCKET, deleteStoredFile, uploadLocalFile } from './fileStorage'
+import { ProfileRepository } from './profileRepository'
+
+export type ProfileListener = (userId: string, profile: Profile | null) => void
+
+// Profiles of other users are fetched again after this long
+const PROFILE_CACHE_TTL = 5 * 60 * 1000
+
+interface CachedProfile {
+  profile: Profile | null
+  fetchedAt: number
+}
+
+/**
+ * Profiles by user id, cached in memory so the many cards by one author
+ * share a single request. Listeners hear about profiles as they load or
+ * change, e.g. after the user edits their own.
+ */
+export class ProfileService {
+  private static cache = new Map<string, CachedProfile>()
+  private static loading = new Map<string, Promise<Profile | null>>()
+  private static listeners = new Set<ProfileListener>()
+
+  /**
+   * The cached profile without fetching: undefined when not loaded yet,
+   * null when the user has none
+   */
+  static peek(userId: string): Profile | null | undefined {
+    return this.cache.get(userId)?.profile
+  }
+
+  /**
+   * A user's profile, from the cache while it is fresh
+   *
+   * @returns null when the user has no profile, or it couldn't be loaded
+   *   and isn't cached
+   */
+  static get(userId: string): Promise<Profile | null> {
+    const cached = this.cache.get(userId)
+    if (cached && Date.now() - cached.fetchedAt < PROFILE_CACHE_TTL) {
+      return Promise.resolve(cached.profile)
+    }
+
+    let request = this.loading.get(userId)
+    if (!request) {
+      request = ProfileRepository.getByUserId(userId)
+        .then(profile => {
+          this.store(userId, profile)
+          return profile
+        })
+        .catch(error => {
+          console.warn(`Failed to load profile of user ${userId}:`, error)
+          return cached?.profile ?? null
+        })
+        .finally(() => {
+          this.loading.delete(userId)
+        })
+      this.loading.set(userId, request)
+    }
+    return request
+  }
+
+  /**
+   * The signed-in user's profile, created with a generated name the first time
+   */
+  static async ensureOwn(user: User): Promise<Profile | null> {
+    const existing = await this.get(user.id)
+    if (existing) return existing
+
+    try {
+      const created = await ProfileRepository.create(user.id, { display_name: defaultDisplayName(user.id) })
+      this.store(user.id, created)
+      return created
+    } catch (error) {
+      // Created meanwhile, e.g. on another device
+      if (error instanceof ConflictError) {
+        this.cache.delete(user.id)
+        return this.get(user.id)
+      }
+      console.warn('Failed to create the profile:', error)
+      return null
+    }
+  }
+
+  /**
+   * Save changes to the signed-in user's profile
+   *
+   * @param avatarUri Local URI of a new, prepared profile picture; it
+   *   replaces the stored one, which is deleted
+   */
+  static async save(userId: string, changes: ProfileChanges, avatarUri?: string): Promise<Profile> {
+    const current = await this.get(userId)
+    const update: ProfileChanges = { ...changes }
+    if (avatarUri) {
+      update.avatar_file_id = await uploadLocalFile(avatarUri, AVATARS_BUCKET)
+    }
+
+    try {
+      if (current) {
+        await ProfileRepository.update(userId, update)
+      } else {
+        await ProfileRepository.create(userId, { display_name: '', ...update })
+      }
+    } catch (error) {
+      if (update.avatar_file_id) {
+        await deleteStoredFile(update.avatar_file_id, 'unused profile picture')
+      }
+      throw error
+    }
+
+    const previousAvatar = current?.avatar_file_id
+    if (previousAvatar && update.avatar_file_id !== undefined && update.avatar_file_id !== previousAvatar) {
+      await deleteStoredFile(previousAvatar, 'old profile picture')
+    }
+
+    this.cache.delete(userId)
+    const saved = await ProfileRepository.getByUserId(userId)
+    if (!saved) {
+      throw new NotFoundError(`Profile of user ${userId} not found after saving`)
+    }
+    this.store(userId, saved)
+    return saved
+  }
+
+  /**
+   * @returns unsubscribe function
+   */
+  static subscribe(listener: ProfileListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private static store(userId: string, profile: Profile | null): void {
+    this.cache.set(userId, { profile, fetchedAt: Date.now() })
+    for (const listener of this.listeners) {
+      listener(userId, profile)
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { db } from '@/services/selfdb'
+import { ReactionTargetType } from '@/types'
+import { ConflictError, NotFoundError, toDataAccessError } from './errors'
+import { parseList } from './validation'
+
+function parseEmoji(value: unknown): string {
+  const emoji = value && typeof value === 'object' ? (value as Record<string, unknown>).emoji : undefined
+  return typeof emoji === 'string' ? emoji : ''
+}
+
+/**
+ * Data access for the `reactions` table. Counts are not read from here:
+ * a trigger keeps them on the topic or comment row, which is what the feed
+ * and the realtime updates carry.
+ */
+export class ReactionRepository {
+  /**
+   * Emojis the user has reacted with on one topic or comment
+   */
+  static async listMine(targetType: ReactionTargetType, targetId: string, userId: string): Promise<string[]> {
+    try {
+      const rows = await db
+        .from('reactions')
+        .select('*')
+        .where('target_type', targetType)
+        .where('target_id', targetId)
+        .where('user_id', userId)
+        .execute()
+      return parseList(rows, parseEmoji, 'reaction').filter(emoji => emoji.length > 0)
+    } catch (error) {
+      throw toDataAccessError(error, `load reactions on ${targetType} ${targetId}`)
+    }
+  }
+
+  /**
+   * Add a reaction; reacting twice with the same emoji is a no-op
+   */
+  static async add(targetType: ReactionTargetType, targetId: string, emoji: string, userId: string): Promise<void> {
+    try {
+      await db.from('reactions').insert({ target_type: targetType, target_id: targetId, emoji, user_id: userId })
+    } catch (rawError) {
+      const error = toDataAccessError(rawError, `react to ${targetType} ${targetId}`)
+      if (!(error instanceof ConflictError)) throw error
+    }
+  }
+
+  /**
+   * Remove a reaction; removing one that is gone is a no-op
+   */
+  static async remove(targetType: ReactionTargetType, targetId: string, emoji: string, userId: string): Promise<void> {
+    try {
+      await db
+        .from('reactions')
+        .where('target_type', targetType)
+        .where('target_id', targetId)
+        .where('emoji', emoji)
+        .where('user_id', userId)
+        .delete()
+    } catch (rawError) {
+      const error = toDataAccessError(rawError, `remove reaction from ${targetType} ${targetId}`)
+      if (!(error instanceof NotFoundError)) throw error
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { ReactionTargetType } from '@/types'
+import { ReactionRepository } from './reactionRepository'
+
+/**
+ * Reacting to topics and comments: which reactions the signed-in user
+ * already gave (cached per session)
+ */
+export class ReactionService {
+  private static mine = new Map<string, Promise<Set<string>>>()
+
+  /**
+   * Emojis the user has reacted with on a topic or comment
+   */
+  static mineFor(targetType: ReactionTargetType, targetId: string, userId: string): Promise<Set<string>> {
+    const key = `${userId}:${targetType}:${targetId}`
+    let mine = this.mine.get(key)
+    if (!mine) {
+      mine = ReactionRepository.listMine(targetType, targetId, userId).then(emojis => new Set(emojis))
+      // Failed loads are retried on the next call
+      mine.catch(() => this.mine.delete(key))
+      this.mine.set(key, mine)
+    }
+    return mine
+  }
+
+  /**
+   * Add or remove one of the user's reactions
+   */
+  static async toggle(
+    targetType: ReactionTargetType,
+    targetId: string,
+    emoji: string,
+    userId: string,
+    add: boolean
+  ): Promise<void> {
+    if (add) {
+      await ReactionRepository.add(targetType, targetId, emoji, userId)
+    } else {
+      await ReactionRepository.remove(targetType, targetId, emoji, userId)
+    }
+
+    const key = `${userId}:${targetType}:${targetId}`
+    const mine = new Set(await this.mine.get(key)?.catch(() => undefined))
+    if (add) mine.add(emoji)
+    else mine.delete(emoji)
+    this.mine.set(key, Promise.resolve(mine))
+  }
+}
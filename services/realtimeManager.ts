@@ -0,0 +1,376 @@
+import { AppState, AppStateStatus } from 'react-native'
+import { realtime } from './selfdb'
+
+// Reconnect schedule: exponential backoff from 1s, capped at 30s
+const BASE_RECONNECT_DELAY = 1000
+const MAX_RECONNECT_DELAY = 30 * 1000
+// Failed attempts after which the connection is reported as offline
+const OFFLINE_AFTER_ATTEMPTS = 3
+// Resync looks back this much further than the disconnect to absorb clock
+// skew between the device and the server's updated_at timestamps
+const RESYNC_MARGIN = 60 * 1000
+
+export type RealtimeTable = 'topics' | 'comments' | 'tags'
+
+/**
+ * Row filter for a channel, sent to the server as `<column>=eq.<value>`
+ */
+export interface RealtimeFilter {
+  column: string
+  value: string
+}
+
+/**
+ * 'live' while connected, 'reconnecting' during the first retries after a
+ * drop, 'offline' when retries keep failing or nothing is subscribed
+ */
+export type RealtimeStatus = 'live' | 'reconnecting' | 'offline'
+
+/**
+ * A changed row as the server sends it, unvalidated; parse it before use
+ */
+export type RealtimeRow = Record<string, unknown>
+
+export interface RealtimePayload {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE'
+  new?: RealtimeRow
+  old?: RealtimeRow
+}
+
+export type RealtimeHandler = (payload: RealtimePayload) => void
+
+/**
+ * Called after a reconnect with the ISO time from which changes may have been
+ * missed. Subscribers refetch rows whose `updated_at` is later.
+ */
+export type ResyncHandler = (since: string) => void
+
+interface ChannelListener {
+  onChange: RealtimeHandler
+  onResync?: ResyncHandler
+}
+
+interface Channel {
+  table: RealtimeTable
+  filter?: RealtimeFilter
+  listeners: Set<ChannelListener>
+  subscription: { unsubscribe?: () => void } | null
+}
+
+type StatusListener = (status: RealtimeStatus) => void
+
+/**
+ * The parts of the SDK realtime client used here. Connection lifecycle
+ * events are only emitted by some SDK versions.
+ */
+interface RealtimeClient {
+  connect(): Promise<void>
+  disconnect?(): void
+  subscribe(
+    table: string,
+    callback: (payload: RealtimePayload) => void,
+    options?: { filter: string }
+  ): { unsubscribe?: () => void }
+  on?(event: 'disconnect' | 'error', listener: (reason: unknown) => void): void
+}
+
+const realtimeClient: RealtimeClient = realtime
+
+/**
+ * Id of a changed row as a string, or undefined when the payload has none
+ */
+export function payloadRowId(row: RealtimeRow | undefined): string | undefined {
+  const id = row?.id
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : undefined
+}
+
+function channelKey(table: RealtimeTable, filter?: RealtimeFilter): string {
+  return filter ? `${table}:${filter.column}=eq.${filter.value}` : table
+}
+
+/**
+ * Whether a change belongs to the filtered rows. DELETE payloads may carry
+ * only the primary key, so a change without the column is let through;
+ * listeners ignore ids they don't hold.
+ */
+function matchesFilter(payload: RealtimePayload, filter: RealtimeFilter): boolean {
+  const row = payload.new ?? payload.old
+  const value = row?.[filter.column]
+  return value === undefined || value === null || String(value) === filter.value
+}
+
+/**
+ * Owns the single realtime connection. Channels are reference-counted: the
+ * SDK subscription for a table (and optional row filter) is opened by its
+ * first listener and closed with its last, and the socket is closed once no
+ * channel is left. Dropped connections are retried with backoff and
+ * subscribers are asked to resync.
+ */
+export class RealtimeManager {
+  private static channels = new Map<string, Channel>()
+  private static status: RealtimeStatus = 'offline'
+  private static statusListeners = new Set<StatusListener>()
+  private static connecting: Promise<void> | null = null
+  private static reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private static attempts = 0
+  // When the connection was last known to be lost; null while live or idle
+  private static disconnectedAt: number | null = null
+  private static watched = false
+  // Set once the server rejects a filtered subscription; filters are then
+  // applied on the client only
+  private static serverFiltersUnsupported = false
+
+  /**
+   * Current connection status
+   */
+  static getStatus(): RealtimeStatus {
+    return this.status
+  }
+
+  /**
+   * Subscribe to connection status changes
+   *
+   * @returns Function that removes the listener
+   */
+  static onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener)
+    return () => {
+      this.statusListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Listen to changes of a table, connecting first if needed
+   *
+   * @param onResync Called after a reconnect to fetch changes missed meanwhile
+   * @param filter Only deliver changes to rows matching this filter
+   * @returns Function that releases the listener
+   */
+  static subscribe(
+    table: RealtimeTable,
+    onChange: RealtimeHandler,
+    onResync?: ResyncHandler,
+    filter?: RealtimeFilter
+  ): () => void {
+    const key = channelKey(table, filter)
+    const listener: ChannelListener = { onChange, onResync }
+    let channel = this.channels.get(key)
+    if (!channel) {
+      channel = { table, filter, listeners: new Set(), subscription: null }
+      this.channels.set(key, channel)
+    }
+    channel.listeners.add(listener)
+
+    if (this.status === 'live') {
+      this.openChannel(channel)
+    } else {
+      this.connect()
+    }
+
+    return () => this.release(key, listener)
+  }
+
+  /**
+   * Watch app state: reconnect right away when the app returns to the
+   * foreground, since the OS may have dropped the socket in the background
+   *
+   * @returns Function that stops watching and closes the connection
+   */
+  static start(): () => void {
+    let backgroundedAt: number | null = null
+
+    const subscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state !== 'active') {
+        backgroundedAt = backgroundedAt ?? Date.now()
+        return
+      }
+      if (this.channels.size === 0) return
+
+      if (this.status === 'live') {
+        // Events may have been lost while suspended even if the socket survived
+        if (backgroundedAt) this.resync(backgroundedAt)
+      } else {
+        this.disconnectedAt = this.disconnectedAt ?? backgroundedAt
+        this.attempts = 0
+        this.connect()
+      }
+      backgroundedAt = null
+    })
+
+    return () => {
+      subscription.remove()
+      this.clearReconnect()
+      this.disconnect()
+    }
+  }
+
+  /**
+   * Report a lost connection, e.g. when the socket closes or a channel errors.
+   * Channels are reopened and resynced once the reconnect succeeds.
+   */
+  static handleDisconnect(error?: unknown): void {
+    if (this.status !== 'live') return
+    console.warn('Realtime connection lost:', error)
+
+    this.disconnectedAt = Date.now()
+    this.closeChannels()
+    this.attempts = 0
+    this.setStatus('reconnecting')
+    this.scheduleReconnect()
+  }
+
+  private static connect(): Promise<void> {
+    if (this.connecting || this.status === 'live') return this.connecting ?? Promise.resolve()
+
+    this.clearReconnect()
+    this.connecting = (async () => {
+      try {
+        await realtimeClient.connect()
+        this.watchConnection()
+        this.attempts = 0
+
+        // Every listener left while the connection was being opened
+        if (this.channels.size === 0) {
+          this.disconnect()
+          return
+        }
+        this.setStatus('live')
+
+        this.channels.forEach(channel => this.openChannel(channel))
+
+        if (this.disconnectedAt !== null) {
+          this.resync(this.disconnectedAt)
+          this.disconnectedAt = null
+        }
+      } catch (error) {
+        this.attempts++
+        console.warn(`Realtime connection failed (attempt ${this.attempts}):`, error)
+        this.disconnectedAt = this.disconnectedAt ?? Date.now()
+        this.setStatus(this.attempts >= OFFLINE_AFTER_ATTEMPTS ? 'offline' : 'reconnecting')
+        this.scheduleReconnect()
+      }
+    })().finally(() => {
+      this.connecting = null
+    })
+
+    return this.connecting
+  }
+
+  private static disconnect(): void {
+    this.closeChannels()
+    this.disconnectedAt = null
+    this.attempts = 0
+    try {
+      realtimeClient.disconnect?.()
+    } catch (error) {
+      console.warn('Error closing realtime connection:', error)
+    }
+    this.setStatus('offline')
+  }
+
+  /**
+   * Listen for the SDK's connection lifecycle events, when it emits them
+   */
+  private static watchConnection(): void {
+    if (this.watched || typeof realtimeClient.on !== 'function') return
+    this.watched = true
+
+    realtimeClient.on('disconnect', reason => this.handleDisconnect(reason))
+    realtimeClient.on('error', error => this.handleDisconnect(error))
+  }
+
+  private static openChannel(channel: Channel): void {
+    if (channel.subscription) return
+
+    const { table, filter } = channel
+    const dispatch = (payload: RealtimePayload) => {
+      // Also guards channels the server could not filter
+      if (filter && !matchesFilter(payload, filter)) return
+
+      channel.listeners.forEach(listener => {
+        try {
+          listener.onChange(payload)
+        } catch (error) {
+          console.warn(`Realtime ${table} listener failed:`, error)
+        }
+      })
+    }
+
+    try {
+      if (filter && !this.serverFiltersUnsupported) {
+        try {
+          channel.subscription = realtimeClient.subscribe(table, dispatch, {
+            filter: `${filter.column}=eq.${filter.value}`,
+          })
+          return
+        } catch (error) {
+          console.warn('Realtime server filters unsupported, filtering on the client:', error)
+          this.serverFiltersUnsupported = true
+        }
+      }
+      channel.subscription = realtimeClient.subscribe(table, dispatch)
+    } catch (error) {
+      this.handleDisconnect(error)
+    }
+  }
+
+  private static closeChannels(): void {
+    this.channels.forEach(channel => {
+      try {
+        channel.subscription?.unsubscribe?.()
+      } catch (error) {
+        console.warn('Error closing realtime channel:', error)
+      }
+      channel.subscription = null
+    })
+  }
+
+  private static release(key: string, listener: ChannelListener): void {
+    const channel = this.channels.get(key)
+    if (!channel) return
+
+    channel.listeners.delete(listener)
+    if (channel.listeners.size > 0) return
+
+    try {
+      channel.subscription?.unsubscribe?.()
+    } catch (error) {
+      console.warn(`Error closing realtime ${key} channel:`, error)
+    }
+    this.channels.delete(key)
+
+    if (this.channels.size === 0) {
+      this.clearReconnect()
+      this.disconnect()
+    }
+  }
+
+  private static resync(lostAt: number): void {
+    const since = new Date(lostAt - RESYNC_MARGIN).toISOString()
+    this.channels.forEach(channel => {
+      channel.listeners.forEach(listener => listener.onResync?.(since))
+    })
+  }
+
+  private static scheduleReconnect(): void {
+    this.clearReconnect()
+    if (this.channels.size === 0) return
+
+    const delay = Math.min(BASE_RECONNECT_DELAY * 2 ** this.attempts, MAX_RECONNECT_DELAY)
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect()
+    }, delay)
+  }
+
+  private static clearReconnect(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = null
+  }
+
+  private static setStatus(status: RealtimeStatus): void {
+    if (this.status === status) return
+    this.status = status
+    this.statusListeners.forEach(listener => listener(status))
+  }
+}
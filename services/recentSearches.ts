@@ -0,0 +1,54 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+const RECENT_SEARCHES_KEY = '@app/recentSearches'
+const MAX_RECENT_SEARCHES = 10
+
+/**
+ * Searches made on this device, most recent first. Kept locally only.
+ */
+export class RecentSearches {
+  static async list(): Promise<string[]> {
+    try {
+      const stored = await AsyncStorage.getItem(RECENT_SEARCHES_KEY)
+      const parsed: unknown = stored ? JSON.parse(stored) : []
+      return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : []
+    } catch (error) {
+      console.warn('Failed to load recent searches:', error)
+      return []
+    }
+  }
+
+  /**
+   * Move a query to the front, dropping repeats that differ only in case
+   */
+  static async add(query: string): Promise<string[]> {
+    const trimmed = query.trim()
+    const current = await this.list()
+    if (!trimmed) return current
+
+    const updated = [
+      trimmed,
+      ...current.filter(item => item.toLowerCase() !== trimmed.toLowerCase()),
+    ].slice(0, MAX_RECENT_SEARCHES)
+    await this.save(updated)
+    return updated
+  }
+
+  static async remove(query: string): Promise<string[]> {
+    const updated = (await this.list()).filter(item => item !== query)
+    await this.save(updated)
+    return updated
+  }
+
+  static async clear(): Promise<void> {
+    await this.save([])
+  }
+
+  private static async save(searches: string[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(searches))
+    } catch (error) {
+      console.warn('Failed to save recent searches:', error)
+    }
+  }
+}
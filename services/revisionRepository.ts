@@ -0,0 +1,45 @@
+import { db } from '@/services/selfdb'
+import { Revision } from '@/types'
+import { toDataAccessError } from './errors'
+import { parseList, parseRevision } from './validation'
+
+/**
+ * Read access to the edit history in `topic_revisions` and
+ * `comment_revisions`. Rows are written only by the database triggers that
+ * save the replaced version on every edit.
+ */
+export class RevisionRepository {
+  /**
+   * Earlier versions of a topic, oldest first
+   */
+  static async listForTopic(topicId: string): Promise<Revision[]> {
+    try {
+      const rows = await db
+        .from('topic_revisions')
+        .select('*')
+        .where('topic_id', topicId)
+        .order('created_at', 'asc')
+        .execute()
+      return parseList(rows, parseRevision, 'revision')
+    } catch (error) {
+      throw toDataAccessError(error, `load history of topic ${topicId}`)
+    }
+  }
+
+  /**
+   * Earlier versions of a comment, oldest first
+   */
+  static async listForComment(commentId: string): Promise<Revision[]> {
+    try {
+      const rows = await db
+        .from('comment_revisions')
+        .select('*')
+        .where('comment_id', commentId)
+        .order('created_at', 'asc')
+        .execute()
+      return parseList(rows, parseRevision, 'revision')
+    } catch (error) {
+      throw toDataAccessError(error, `load history of comment ${commentId}`)
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { db } from '@/services/selfdb'
+import { Comment, SearchCursor, SearchPage, SearchResult, Topic } from '@/types'
+import { NotFoundError, toDataAccessError } from './errors'
+import { parseComment, parseList, parseTopic } from './validation'
+import { TopicRepository } from './topicRepository'
+
+/**
+ * Escape LIKE wildcards so the query matches literally
+ */
+function likePattern(query: string): string {
+  return `%${query.replace(/[\\%_]/g, char => `\\${char}`)}%`
+}
+
+function topicResult(topic: Topic): SearchResult {
+  return {
+    key: `topic:${topic.id}`,
+    kind: 'topic',
+    topic_id: topic.id,
+    title: topic.title,
+    content: topic.content,
+    author_name: topic.author_name,
+    user_id: topic.user_id,
+    created_at: topic.created_at,
+  }
+}
+
+function commentResult(comment: Comment, title: string): SearchResult {
+  return {
+    key: `comment:${comment.id}`,
+    kind: 'comment',
+    topic_id: comment.topic_id,
+    comment_id: comment.id,
+    title,
+    content: comment.content,
+    author_name: comment.author_name,
+    user_id: comment.user_id,
+    created_at: comment.created_at,
+  }
+}
+
+/**
+ * Fetch one stream of results past the cursor, newest first, with one extra
+ * row to tell whether another page follows. Rows that tie with the cursor
+ * on created_at are paged by their result key in their own query: within a
+ * timestamp every topic ('topic:…') sorts before every comment
+ * ('comment:…'), so past a topic all tying comments still follow, and past
+ * a comment no tying topic does.
+ */
+async function fetchPastCursor<T>(
+  stream: () => ReturnType<typeof db.from>,
+  table: 'topics' | 'comments',
+  cursor: SearchCursor | null,
+  pageSize: number,
+  parse: (rows: unknown) => T[]
+): Promise<T[]> {
+  const newestFirst = (query: ReturnType<typeof db.from>) => query
+    .order('created_at', 'desc')
+    .order('id', 'desc')
+    .limit(pageSize + 1)
+    .execute()
+  if (!cursor) {
+    return parse(await newestFirst(stream()))
+  }
+
+  const [cursorTable, cursorId] = cursor.id.startsWith('topic:')
+    ? ['topics', cursor.id.slice('topic:'.length)]
+    : ['comments', cursor.id.slice('comment:'.length)]
+  const fetchTies = async (): Promise<T[]> => {
+    if (table === cursorTable) {
+      return parse(await newestFirst(stream().where('created_at', '=', cursor.created_at).where('id', '<', cursorId)))
+    }
+    return table === 'comments' ? parse(await newestFirst(stream().where('created_at', '=', cursor.created_at))) : []
+  }
+  const [ties, older] = await Promise.all([
+    fetchTies(),
+    newestFirst(stream().where('created_at', '<', cursor.created_at)).then(parse),
+  ])
+  return [...ties, ...older]
+}
+
+/**
+ * Case-insensitive substring search over topic titles, topic content and
+ * comment content. Each column is queried separately (the query builder has
+ * no OR), newest first, and the streams are merged with keyset pagination on
+ * (created_at, result key).
+ */
+export class SearchRepository {
+  /**
+   * Fetch one page of search results, newest first
+   *
+   * @param query Text to look for; matched literally, ignoring case
+   * @param cursor The last result of the previous page, or null for the first page
+   * @param pageSize Maximum number of results to return
+   */
+  static async search(query: string, cursor: SearchCursor | null, pageSize: number): Promise<SearchPage> {
+    const pattern = likePattern(query.trim())
+
+    const matches = (table: 'topics' | 'comments', column: string) => () =>
+      db.from(table).where(column, 'ilike', pattern).where('is_deleted', false)
+    const parseTopics = (rows: unknown) => parseList(rows, parseTopic, 'topic')
+    const parseComments = (rows: unknown) => parseList(rows, parseComment, 'comment')
+
+    let titleMatches: Topic[]
+    let contentMatches: Topic[]
+    let commentMatches: Comment[]
+    try {
+      [titleMatches, contentMatches, commentMatches] = await Promise.all([
+        fetchPastCursor(matches('topics', 'title'), 'topics', cursor, pageSize, parseTopics),
+        fetchPastCursor(matches('topics', 'content'), 'topics', cursor, pageSize, parseTopics),
+        fetchPastCursor(matches('comments', 'content'), 'comments', cursor, pageSize, parseComments),
+      ])
+    } catch (error) {
+      throw toDataAccessError(error, `search for "${query}"`)
+    }
+
+    return this.mergePage([...titleMatches, ...contentMatches], commentMatches, pageSize)
+  }
+
+  /**
+   * Fetch one page of a user's topics and comments, newest first, in the
+   * same shape as search results
+   *
+   * @param cursor The last result of the previous page, or null for the first page
+   */
+  static async listByAuthor(userId: string, cursor: SearchCursor | null, pageSize: number): Promise<SearchPage> {
+    const posts = (table: 'topics' | 'comments') => () =>
+      db.from(table).where('user_id', userId).where('is_deleted', false)
+
+    let topics: Topic[]
+    let comments: Comment[]
+    try {
+      [topics, comments] = await Promise.all([
+        fetchPastCursor(posts('topics'), 'topics', cursor, pageSize, rows => parseList(rows, parseTopic, 'topic')),
+        fetchPastCursor(posts('comments'), 'comments', cursor, pageSize, rows => parseList(rows, parseComment, 'comment')),
+      ])
+    } catch (error) {
+      throw toDataAccessError(error, `load posts of user ${userId}`)
+    }
+
+    return this.mergePage(topics, comments, pageSize)
+  }
+
+  /**
+   * Merge topic and comment streams into one page, by (created_at, key)
+   * descending, the same order as each stream. Topics may repeat; every
+   * stream holds only rows past the cursor.
+   */
+  private static async mergePage(
+    topicList: Topic[],
+    comments: Comment[],
+    pageSize: number
+  ): Promise<SearchPage> {
+    const topics = new Map<string, Topic>()
+    for (const topic of topicList) {
+      topics.set(topic.id, topic)
+    }
+
+    const candidates = [
+      ...Array.from(topics.values(), topic => topicResult(topic)),
+      ...comments.map(comment => commentResult(comment, '')),
+    ].sort((a, b) => {
+      if (a.created_at !== b.created_at) return a.created_at < b.created_at ? 1 : -1
+      return a.key < b.key ? 1 : -1
+    })
+
+    const results = candidates.slice(0, pageSize)
+    const hasMore = candidates.length > pageSize
+    const last = results[results.length - 1]
+
+    return {
+      results: await this.withTopicTitles(results),
+      nextCursor: hasMore && last ? { created_at: last.created_at, id: last.key } : null,
+    }
+  }
+
+  /**
+   * Fill in the topic titles of comment hits, dropping hits whose topic is
+   * gone or soft-deleted
+   */
+  private static async withTopicTitles(results: SearchResult[]): Promise<SearchResult[]> {
+    const titles = new Map<string, string>()
+    results
+      .filter(result => result.kind === 'topic')
+      .forEach(result => titles.set(result.topic_id, result.title))
+
+    const missing = Array.from(new Set(
+      results
+        .filter(result => result.kind === 'comment' && !titles.has(result.topic_id))
+        .map(result => result.topic_id)
+    ))
+
+    await Promise.all(missing.map(async topicId => {
+      try {
+        titles.set(topicId, (await TopicRepository.getById(topicId)).title)
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) {
+          console.warn(`Failed to load title of topic ${topicId}:`, error)
+        }
+      }
+    }))
+
+    return results
+      .filter(result => titles.has(result.topic_id))
+      .map(result =>
+        result.kind === 'comment' ? { ...result, title: titles.get(result.topic_id) ?? '' } : result
+      )
+  }
+}
@@ -1,16 +1,17 @@
 import { createClient } from '@selfdb/js-sdk'
 import Constants from 'expo-constants'
+import { getErrorStatus } from './errors'
 
 // Get configuration from environment variables
 const SELFDB_URL = Constants.expoConfig?.extra?.SELFDB_URL || 
   process.env.EXPO_PUBLIC_SELFDB_URL || 
   'http://localhost:8000'
 
-const SELFDB_STORAGE_URL = Constants.expoConfig?.extra?.SELFDB_STORAGE_URL || 
+export const SELFDB_STORAGE_URL = Constants.expoConfig?.extra?.SELFDB_STORAGE_URL || 
   process.env.EXPO_PUBLIC_SELFDB_STORAGE_URL || 
   'http://localhost:8001'
 
-const SELFDB_ANON_KEY = Constants.expoConfig?.extra?.SELFDB_ANON_KEY || 
+export const SELFDB_ANON_KEY = Constants.expoConfig?.extra?.SELFDB_ANON_KEY || 
   process.env.EXPO_PUBLIC_SELFDB_ANON_KEY
 
 if (!SELFDB_ANON_KEY) {
@@ -24,12 +25,89 @@ export const selfdb = createClient({
   anonKey: SELFDB_ANON_KEY
 })
 
-// Export individual clients for convenience
-export const auth = selfdb.auth
-export const db = selfdb.db
-export const storage = selfdb.storage
-export const realtime = selfdb.realtime
-export const functions = selfdb.functions
-export const files = selfdb.files
+type UnauthorizedHandler = () => Promise<boolean>
+
+let unauthorizedHandler: UnauthorizedHandler | null = null
+
+/**
+ * Install the handler that refreshes the session when a request is
+ * rejected with a 401. It resolves to true when the request should be retried.
+ */
+export function setUnauthorizedHandler(handler: UnauthorizedHandler | null): void {
+  unauthorizedHandler = handler
+}
+
+function isUnauthorized(error: unknown): boolean {
+  return getErrorStatus(error) === 401
+}
+
+async function retryOnUnauthorized(request: PromiseLike<unknown>, replay: () => unknown): Promise<unknown> {
+  try {
+    return await request
+  } catch (error) {
+    if (!isUnauthorized(error) || !unauthorizedHandler || !(await unauthorizedHandler())) throw error
+    return replay()
+  }
+}
 
+/**
+ * Send a request made outside the SDK clients with the same 401 handling:
+ * refresh the session and send it once more
+ */
+export async function withUnauthorizedRetry<T>(send: () => Promise<T>): Promise<T> {
+  return await retryOnUnauthorized(send(), send) as T
+}
+
+/**
+ * Member of a rebuilt link of a call chain, for replaying the recorded
+ * access or call on it
+ */
+function memberOf(target: unknown, property: PropertyKey): unknown {
+  return typeof target === 'object' && target !== null ? Reflect.get(target, property) : undefined
+}
+
+function replayCall(target: unknown, property: PropertyKey, args: unknown[]): unknown {
+  const method = memberOf(target, property)
+  if (typeof method !== 'function') {
+    throw new TypeError(`Cannot replay ${String(property)}: not a function`)
+  }
+  return method.apply(target, args)
+}
 
+/**
+ * Wrap an SDK client so every request rejected with a 401 refreshes the
+ * session and is retried once. Calls are recorded from the client down, so
+ * a query builder chain like `db.from(t).where(...).execute()` is rebuilt
+ * and re-run as a whole; builders never see the retry.
+ *
+ * @param rebuild Recreates the unwrapped `target`, for replaying the chain
+ */
+function withSessionRetry<T extends object>(target: T, rebuild: () => unknown = () => target): T {
+  return new Proxy(target, {
+    get(object, property, receiver) {
+      const value = Reflect.get(object, property, receiver)
+      if (typeof value !== 'function') {
+        return value && typeof value === 'object'
+          ? withSessionRetry(value, () => memberOf(rebuild(), property))
+          : value
+      }
+      return (...args: unknown[]) => {
+        const result = value.apply(object, args)
+        const replay = () => replayCall(rebuild(), property, args)
+        if (result && typeof result.then === 'function') {
+          return retryOnUnauthorized(result, replay)
+        }
+        return result && typeof result === 'object' ? withSessionRetry(result, replay) : result
+      }
+    },
+  })
+}
+
+// Export individual clients for convenience. Everything but auth goes
+// through the 401 interceptor; auth requests must not trigger a refresh.
+export const auth = selfdb.auth
+export const db = withSessionRetry(selfdb.db)
+export const storage = withSessionRetry(selfdb.storage)
+export const realtime = selfdb.realtime
+export const functions = withSessionRetry(selfdb.functions)
+export const files = withSessionRetry(selfdb.files)
@@ -0,0 +1,204 @@
+import { NetworkError, toDataAccessError } from './errors'
+import { auth, setUnauthorizedHandler } from './selfdb'
+import { TokenStore } from './tokenStore'
+
+export type SessionListener = () => void
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60_000
+// Never schedule a proactive refresh sooner than this
+const MIN_REFRESH_DELAY_MS = 5_000
+// Wait between refreshes that failed because SelfDB was unreachable
+const OFFLINE_RETRY_DELAY_MS = 30_000
+
+/**
+ * Seconds-since-epoch expiry of a JWT access token, or null when the
+ * token isn't a decodable JWT
+ */
+function tokenExpiry(token: unknown): number | null {
+  if (typeof token !== 'string') return null
+  const payload = token.split('.')[1]
+  if (!payload) return null
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+    const exp = JSON.parse(json)?.exp
+    return typeof exp === 'number' ? exp : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Lifetime of the signed-in session. Access tokens are refreshed shortly
+ * before they expire and whenever a request is rejected with a 401; the
+ * server rotates the refresh token on every refresh. When a refresh fails
+ * the session is over and the expired listeners run once.
+ *
+ * The tokens, never the password, are persisted in `TokenStore` whenever
+ * they change and restored on boot, so the session survives restarts.
+ *
+ * `auth.refresh()` exchanges the refresh token for a new token pair and
+ * keeps it in the SDK client; `auth.getAccessToken()`,
+ * `auth.getRefreshToken()` and `auth.setTokens()` read and replace the pair.
+ */
+export class Session {
+  private static refreshing: Promise<void> | null = null
+  private static timer: ReturnType<typeof setTimeout> | null = null
+  private static listeners = new Set<SessionListener>()
+  private static active = false
+  private static expired = false
+
+  /**
+   * Hand the persisted tokens, if any, to the SDK client. Call once on boot,
+   * before checking whether a user is signed in.
+   *
+   * @returns whether tokens were restored
+   */
+  static async restore(): Promise<boolean> {
+    await TokenStore.removeLegacyCredentials()
+    const tokens = await TokenStore.load()
+    if (!tokens) return false
+    auth.setTokens(tokens)
+    return true
+  }
+
+  /**
+   * Start tracking a session after sign-in or when one is restored
+   */
+  static start(): void {
+    this.active = true
+    this.expired = false
+    this.persist()
+    this.schedule()
+  }
+
+  /**
+   * Stop tracking on sign-out, without notifying the expired listeners,
+   * and forget the persisted tokens unless `keepTokens` is set
+   */
+  static stop({ keepTokens = false }: { keepTokens?: boolean } = {}): void {
+    this.active = false
+    this.expired = false
+    this.clearTimer()
+    if (!keepTokens) TokenStore.clear()
+  }
+
+  static isActive(): boolean {
+    return this.active
+  }
+
+  /**
+   * Whether the last session ended by expiring, and nobody signed in since
+   */
+  static isExpired(): boolean {
+    return this.expired
+  }
+
+  /**
+   * Exchange the refresh token for a new token pair. Concurrent callers
+   * share one request, so a burst of 401s triggers a single refresh.
+   * Failing to reach SelfDB doesn't end the session; the refresh is tried
+   * again later.
+   *
+   * @throws the refresh error, after ending the session unless it was a
+   *   NetworkError
+   */
+  static refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        try {
+          await auth.refresh()
+          this.persist()
+          this.schedule()
+        } catch (error) {
+          console.warn('Session refresh failed:', error)
+          if (toDataAccessError(error, 'refresh the session') instanceof NetworkError) {
+            this.schedule(OFFLINE_RETRY_DELAY_MS)
+          } else {
+            this.expire()
+          }
+          throw error
+        } finally {
+          this.refreshing = null
+        }
+      })()
+    }
+    return this.refreshing
+  }
+
+  /**
+   * Handle a request rejected with a 401: refresh the session, if there is
+   * one, so the request can be retried
+   *
+   * @returns whether the request should be retried
+   */
+  static async recover(): Promise<boolean> {
+    if (!this.active) return false
+    try {
+      await this.refresh()
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Run `listener` when the session expires and can't be refreshed
+   *
+   * @returns unsubscribe function
+   */
+  static onExpired(listener: SessionListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private static expire(): void {
+    if (!this.active) return
+    this.stop()
+    this.expired = true
+    for (const listener of this.listeners) {
+      try {
+        listener()
+      } catch (error) {
+        console.error('Session expired listener failed:', error)
+      }
+    }
+  }
+
+  private static persist(): void {
+    const accessToken = auth.getAccessToken()
+    const refreshToken = auth.getRefreshToken()
+    if (typeof accessToken === 'string' && typeof refreshToken === 'string') {
+      TokenStore.save({ access_token: accessToken, refresh_token: refreshToken })
+    }
+  }
+
+  /**
+   * Refresh ahead of the access token's expiry, or after `delay` ms
+   */
+  private static schedule(delay?: number): void {
+    this.clearTimer()
+    if (!this.active) return
+    if (delay === undefined) {
+      const exp = tokenExpiry(auth.getAccessToken())
+      if (exp === null) return
+      delay = Math.max(exp * 1000 - Date.now() - REFRESH_MARGIN_MS, MIN_REFRESH_DELAY_MS)
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null
+      // refresh() ends the session or retries as needed
+      this.refresh().catch(() => {})
+    }, delay)
+  }
+
+  private static clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+setUnauthorizedHandler(() => Session.recover())
@@ -0,0 +1,144 @@
+import { db } from '@/services/selfdb'
+import { Tag } from '@/types'
+import { ConflictError, NotFoundError, toDataAccessError } from './errors'
+import { parseList, parseTag, parseTopicTagLink } from './validation'
+
+/**
+ * Data access for the `tags` table and the `topic_tags` join table.
+ * Writes to `tags` itself are admin-only; linking tags to a topic is done
+ * by whoever writes the topic.
+ */
+export class TagRepository {
+  /**
+   * Fetch every tag, alphabetically
+   */
+  static async list(): Promise<Tag[]> {
+    try {
+      const rows = await db
+        .from('tags')
+        .select('*')
+        .order('name', 'asc')
+        .execute()
+      return parseList(rows, parseTag, 'tag')
+    } catch (error) {
+      throw toDataAccessError(error, 'load tags')
+    }
+  }
+
+  /**
+   * Create a tag
+   *
+   * @throws ConflictError when a tag with the same name exists
+   */
+  static async create(name: string): Promise<Tag> {
+    try {
+      const row = await db.from('tags').insert({ name })
+      return parseTag(row)
+    } catch (error) {
+      throw toDataAccessError(error, `create tag "${name}"`)
+    }
+  }
+
+  /**
+   * Rename a tag; topics keep it, since they link to its id
+   *
+   * @throws ConflictError when another tag already has the name
+   */
+  static async rename(id: string, name: string): Promise<void> {
+    try {
+      await db
+        .from('tags')
+        .where('id', id)
+        .update({ name })
+    } catch (error) {
+      throw toDataAccessError(error, `rename tag ${id}`)
+    }
+  }
+
+  /**
+   * Move every topic of one tag to another and delete the first. Topics
+   * that already carry both keep a single link.
+   *
+   * @param sourceId The tag merged away
+   * @param targetId The tag that remains
+   */
+  static async merge(sourceId: string, targetId: string): Promise<void> {
+    if (sourceId === targetId) return
+
+    let topicIds: string[]
+    try {
+      const rows = await db
+        .from('topic_tags')
+        .select('*')
+        .where('tag_id', sourceId)
+        .execute()
+      topicIds = parseList(rows, parseTopicTagLink, 'topic tag').map(link => link.topic_id)
+    } catch (error) {
+      throw toDataAccessError(error, `load topics of tag ${sourceId}`)
+    }
+
+    for (const topicId of topicIds) {
+      await this.link(topicId, targetId)
+    }
+
+    // Removes the remaining links of the source tag through ON DELETE CASCADE
+    try {
+      await db
+        .from('tags')
+        .where('id', sourceId)
+        .delete()
+    } catch (error) {
+      throw toDataAccessError(error, `delete tag ${sourceId}`)
+    }
+  }
+
+  /**
+   * Make a topic's tags exactly the given ones, adding and removing links
+   * as needed. Safe to repeat, so queued writes can replay it.
+   */
+  static async setTopicTags(topicId: string, tagIds: string[]): Promise<void> {
+    let currentIds: string[]
+    try {
+      const rows = await db
+        .from('topic_tags')
+        .select('*')
+        .where('topic_id', topicId)
+        .execute()
+      currentIds = parseList(rows, parseTopicTagLink, 'topic tag').map(link => link.tag_id)
+    } catch (error) {
+      throw toDataAccessError(error, `load tags of topic ${topicId}`)
+    }
+
+    for (const tagId of tagIds) {
+      if (!currentIds.includes(tagId)) {
+        await this.link(topicId, tagId)
+      }
+    }
+
+    for (const tagId of currentIds) {
+      if (tagIds.includes(tagId)) continue
+      try {
+        await db
+          .from('topic_tags')
+          .where('topic_id', topicId)
+          .where('tag_id', tagId)
+          .delete()
+      } catch (error) {
+        const failure = toDataAccessError(error, `remove tag ${tagId} from topic ${topicId}`)
+        if (!(failure instanceof NotFoundError)) throw failure
+      }
+    }
+  }
+
+  /**
+   * Link a tag to a topic; an existing link counts as success
+   */
+  private static async link(topicId: string, tagId: string): Promise<void> {
+    try {
+      await db.from('topic_tags').insert({ topic_id: topicId, tag_id: tagId })
+    } catch (error) {
+      const failure = toDataAccessError(error, `add tag ${tagId} to topic ${topicId}`)
+      if (!(failure instanceof ConflictError)) throw failure
+    }
+  }
+}
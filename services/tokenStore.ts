@@ -0,0 +1,83 @@
+import * as SecureStore from 'expo-secure-store'
+import { SessionTokens, User } from '@/types'
+
+const ACCESS_TOKEN_KEY = 'session.access_token'
+const REFRESH_TOKEN_KEY = 'session.refresh_token'
+// The signed-in user, for starting the app offline
+const USER_KEY = 'session.user'
+// Written by an earlier login screen that kept the email and password
+const LEGACY_CREDENTIALS_KEY = 'userCredentials'
+
+/**
+ * Session tokens in the device keychain (iOS) or keystore (Android), only
+ * readable by this app and only while the device is unlocked, together with
+ * the user they belong to. The web version is `tokenStore.web.ts`.
+ */
+export class TokenStore {
+  static async load(): Promise<SessionTokens | null> {
+    try {
+      const [accessToken, refreshToken] = await Promise.all([
+        SecureStore.getItemAsync(ACCESS_TOKEN_KEY),
+        SecureStore.getItemAsync(REFRESH_TOKEN_KEY),
+      ])
+      return accessToken && refreshToken
+        ? { access_token: accessToken, refresh_token: refreshToken }
+        : null
+    } catch (error) {
+      console.warn('Failed to load the session tokens:', error)
+      return null
+    }
+  }
+
+  static async save(tokens: SessionTokens): Promise<void> {
+    const options = { keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY }
+    try {
+      // Stored apart: SecureStore values should stay under 2 KB each
+      await SecureStore.setItemAsync(ACCESS_TOKEN_KEY, tokens.access_token, options)
+      await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, tokens.refresh_token, options)
+    } catch (error) {
+      console.warn('Failed to save the session tokens:', error)
+    }
+  }
+
+  static async loadUser(): Promise<User | null> {
+    try {
+      const stored = await SecureStore.getItemAsync(USER_KEY)
+      return stored ? JSON.parse(stored) : null
+    } catch (error) {
+      console.warn('Failed to load the session user:', error)
+      return null
+    }
+  }
+
+  static async saveUser(user: User): Promise<void> {
+    try {
+      await SecureStore.setItemAsync(USER_KEY, JSON.stringify(user), {
+        keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+      })
+    } catch (error) {
+      console.warn('Failed to save the session user:', error)
+    }
+  }
+
+  static async clear(): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(ACCESS_TOKEN_KEY)
+      await SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY)
+      await SecureStore.deleteItemAsync(USER_KEY)
+    } catch (error) {
+      console.warn('Failed to clear the session tokens:', error)
+    }
+  }
+
+  /**
+   * Delete the email and password an earlier version of the app stored
+   */
+  static async removeLegacyCredentials(): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(LEGACY_CREDENTIALS_KEY)
+    } catch (error) {
+      console.warn('Failed to remove stored credentials:', error)
+    }
+  }
+}
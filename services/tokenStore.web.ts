@@ -0,0 +1,65 @@
+import { SessionTokens, User } from '@/types'
+
+const TOKENS_KEY = '@app/session'
+const USER_KEY = '@app/session/user'
+
+/**
+ * Session tokens in the tab's sessionStorage. Unlike localStorage they
+ * aren't shared with other tabs and are gone when the tab is closed, so a
+ * session on a shared computer doesn't outlive the browser window; a
+ * reload keeps it.
+ */
+export class TokenStore {
+  static async load(): Promise<SessionTokens | null> {
+    try {
+      const stored = window.sessionStorage.getItem(TOKENS_KEY)
+      const parsed = stored ? JSON.parse(stored) : null
+      return typeof parsed?.access_token === 'string' && typeof parsed?.refresh_token === 'string'
+        ? { access_token: parsed.access_token, refresh_token: parsed.refresh_token }
+        : null
+    } catch (error) {
+      console.warn('Failed to load the session tokens:', error)
+      return null
+    }
+  }
+
+  static async save(tokens: SessionTokens): Promise<void> {
+    try {
+      window.sessionStorage.setItem(TOKENS_KEY, JSON.stringify(tokens))
+    } catch (error) {
+      console.warn('Failed to save the session tokens:', error)
+    }
+  }
+
+  static async loadUser(): Promise<User | null> {
+    try {
+      const stored = window.sessionStorage.getItem(USER_KEY)
+      return stored ? JSON.parse(stored) : null
+    } catch (error) {
+      console.warn('Failed to load the session user:', error)
+      return null
+    }
+  }
+
+  static async saveUser(user: User): Promise<void> {
+    try {
+      window.sessionStorage.setItem(USER_KEY, JSON.stringify(user))
+    } catch (error) {
+      console.warn('Failed to save the session user:', error)
+    }
+  }
+
+  static async clear(): Promise<void> {
+    try {
+      window.sessionStorage.removeItem(TOKENS_KEY)
+      window.sessionStorage.removeItem(USER_KEY)
+    } catch (error) {
+      console.warn('Failed to clear the session tokens:', error)
+    }
+  }
+
+  /**
+   * Credentials were only ever stored on native
+   */
+  static async removeLegacyCredentials(): Promise<void> {}
+}
@@ -0,0 +1,273 @@
+import { db, functions } from '@/services/selfdb'
+import {
+  FeedOptions,
+  NewTopic,
+  Topic,
+  TopicChanges,
+  TopicCursor,
+  TopicDeletionSummary,
+  TopicPage,
+} from '@/types'
+import { DEFAULT_FEED_OPTIONS, sortColumn, sortValue } from '@/lib/feed'
+import { NotFoundError, toDataAccessError } from './errors'
+import { parseList, parseTopic, parseTopicDeletionSummary } from './validation'
+
+// SelfDB function that deletes a topic with its comments and files
+const DELETE_TOPIC_FUNCTION = 'delete-topic'
+
+/**
+ * Data access for the `topics` table. All topic queries and writes go
+ * through here; callers receive validated `Topic` objects and
+ * `DataAccessError`s instead of raw SDK results.
+ */
+export class TopicRepository {
+  /**
+   * Fetch one page of the feed using keyset pagination on (sort column, id),
+   * both descending. `comment_count` and `upvote_count` are populated from
+   * the denormalized columns maintained by the comments and reactions
+   * triggers.
+   *
+   * @param cursor The last topic of the previous page, or null for the first page
+   * @param pageSize Maximum number of topics to return
+   * @param feed Sort mode and filters; a tag filter reads from the
+   *   `tagged_topics` view instead of the table
+   * @param userId The signed-in user, required by the 'mine' mode
+   */
+  static async listPage(
+    cursor: TopicCursor | null,
+    pageSize: number,
+    feed: FeedOptions = DEFAULT_FEED_OPTIONS,
+    userId?: string
+  ): Promise<TopicPage> {
+    if (feed.sort === 'mine' && !userId) {
+      return { topics: [], nextCursor: null }
+    }
+
+    const column = sortColumn(feed.sort)
+    const filtered = () => {
+      // The tagged_topics view repeats each topic once per tag
+      let query = (feed.filters.tagId
+        ? db.from('tagged_topics').select('*').where('tag_id', feed.filters.tagId)
+        : db.from('topics').select('*')
+      ).where('is_deleted', false)
+      if (feed.sort === 'mine') {
+        query = query.where('user_id', userId)
+      }
+      if (feed.filters.mediaType) {
+        query = query.where('media_type', feed.filters.mediaType)
+      } else if (feed.filters.hasAttachment) {
+        query = query.where('media_type', '!=', 'none')
+      }
+      return query
+    }
+
+    // One extra row tells whether another page follows
+    let fetched: Topic[]
+    try {
+      if (cursor) {
+        // Topics that tie with the cursor, e.g. on a count, are paged by id
+        // in their own query
+        const [ties, rest] = await Promise.all([
+          filtered()
+            .where(column, '=', cursor.value)
+            .where('id', '<', cursor.id)
+            .order('id', 'desc')
+            .limit(pageSize + 1)
+            .execute(),
+          filtered()
+            .where(column, '<', cursor.value)
+            .order(column, 'desc')
+            .order('id', 'desc')
+            .limit(pageSize + 1)
+            .execute(),
+        ])
+        fetched = [...parseList(ties, parseTopic, 'topic'), ...parseList(rest, parseTopic, 'topic')]
+      } else {
+        const rows = await filtered()
+          .order(column, 'desc')
+          .order('id', 'desc')
+          .limit(pageSize + 1)
+          .execute()
+        fetched = parseList(rows, parseTopic, 'topic')
+      }
+    } catch (error) {
+      throw toDataAccessError(error, 'load topics')
+    }
+
+    const topics = fetched.slice(0, pageSize).map(topic => ({
+      ...topic,
+      comment_count: topic.comment_count ?? 0,
+    }))
+
+    const hasMore = fetched.length > pageSize
+    const last = topics[topics.length - 1]
+
+    return {
+      topics,
+      nextCursor: hasMore && last ? { value: sortValue(last, feed.sort), id: last.id } : null,
+    }
+  }
+
+  /**
+   * Fetch topics created or changed after the given time, newest change
+   * first. Used to catch up on realtime events missed while disconnected;
+   * soft-deleted topics are included so the feed can drop them.
+   *
+   * @param since ISO timestamp compared against `updated_at`
+   * @param limit Maximum number of topics to return
+   */
+  static async listUpdatedSince(since: string, limit: number): Promise<Topic[]> {
+    try {
+      const rows = await db
+        .from('topics')
+        .select('*')
+        .where('updated_at', '>', since)
+        .order('updated_at', 'desc')
+        .limit(limit)
+        .execute()
+      return parseList(rows, parseTopic, 'topic')
+    } catch (error) {
+      throw toDataAccessError(error, 'load updated topics')
+    }
+  }
+
+  /**
+   * Fetch a single topic by id
+   *
+   * @throws NotFoundError when no topic has the given id, or it is soft-deleted
+   */
+  static async getById(id: string): Promise<Topic> {
+    let rows: unknown
+    try {
+      rows = await db
+        .from('topics')
+        .where('id', id)
+        .where('is_deleted', false)
+        .execute()
+    } catch (error) {
+      throw toDataAccessError(error, `load topic ${id}`)
+    }
+
+    const [topic] = parseList(rows, parseTopic, 'topic')
+    if (!topic) {
+      throw new NotFoundError(`Topic ${id} not found`)
+    }
+    return topic
+  }
+
+  /**
+   * Insert a new topic and return the stored row
+   */
+  static async create(input: NewTopic): Promise<Topic> {
+    try {
+      const row = await db.from('topics').insert(input)
+      return parseTopic(row)
+    } catch (error) {
+      throw toDataAccessError(error, 'create topic')
+    }
+  }
+
+  /**
+   * Apply a partial update to a topic
+   */
+  static async update(id: string, changes: TopicChanges): Promise<void> {
+    try {
+      await db
+        .from('topics')
+        .where('id', id)
+        .update(changes)
+    } catch (error) {
+      throw toDataAccessError(error, `update topic ${id}`)
+    }
+  }
+
+  /**
+   * Fetch soft-deleted topics, most recently deleted first
+   *
+   * @param userId Only this author's topics, or null for every topic (admins)
+   */
+  static async listDeleted(userId: string | null, limit: number): Promise<Topic[]> {
+    try {
+      let query = db.from('topics').select('*').where('is_deleted', true)
+      if (userId) {
+        query = query.where('user_id', userId)
+      }
+      const rows = await query
+        .order('deleted_at', 'desc')
+        .limit(limit)
+        .execute()
+      return parseList(rows, parseTopic, 'topic')
+    } catch (error) {
+      throw toDataAccessError(error, 'load deleted topics')
+    }
+  }
+
+  /**
+   * Move a topic to the recently deleted list. Its comments and files stay
+   * until the topic is purged.
+   */
+  static async softDelete(id: string, deletedAt: string): Promise<void> {
+    try {
+      await db
+        .from('topics')
+        .where('id', id)
+        .update({ deleted_at: deletedAt })
+    } catch (error) {
+      throw toDataAccessError(error, `delete topic ${id}`)
+    }
+  }
+
+  /**
+   * Bring a soft-deleted topic back
+   */
+  static async restore(id: string): Promise<void> {
+    try {
+      await db
+        .from('topics')
+        .where('id', id)
+        .update({ deleted_at: null })
+    } catch (error) {
+      throw toDataAccessError(error, `restore topic ${id}`)
+    }
+  }
+
+  /**
+   * Delete a topic row. Comments and files are not touched here.
+   */
+  static async remove(id: string): Promise<void> {
+    try {
+      await db
+        .from('topics')
+        .where('id', id)
+        .delete()
+    } catch (error) {
+      throw toDataAccessError(error, `delete topic ${id}`)
+    }
+  }
+
+  /**
+   * Delete a topic with all its comments and every attached file in one
+   * server-side operation
+   *
+   * @returns What was deleted, or null when the delete-topic function isn't deployed
+   * @throws NotFoundError when the topic doesn't exist
+   * @throws ForbiddenError when the caller is neither its author nor an admin
+   */
+  static async removeWithContents(id: string): Promise<TopicDeletionSummary | null> {
+    let result: unknown
+    try {
+      result = await functions.invoke(DELETE_TOPIC_FUNCTION, { topic_id: id })
+    } catch (error) {
+      const dataError = toDataAccessError(error, `delete topic ${id}`)
+      // The function answers for missing topics itself, so a 404 means it isn't there
+      if (dataError instanceof NotFoundError) return null
+      throw dataError
+    }
+
+    const summary = parseTopicDeletionSummary(result, id)
+    if (!summary) {
+      throw new NotFoundError(`Topic ${id} not found`)
+    }
+    return summary
+  }
+}
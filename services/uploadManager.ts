@@ -0,0 +1,342 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { PendingAttachment } from '@/types'
+import { isLocalAttachment } from '@/lib/attachments'
+import { functions } from './selfdb'
+import { CanceledError, ForbiddenError, NetworkError, NotFoundError, toDataAccessError } from './errors'
+import {
+  DISCUSSION_BUCKET,
+  deleteStoredFile,
+  deleteStoredFiles,
+  localFileName,
+  readLocalFile,
+  uploadBlob,
+} from './fileStorage'
+import { checkFileSize, mediaTypeOfMime } from './mediaPipeline'
+import { parseAssembledFileId } from './validation'
+
+// Files larger than one part are sent in parts, so a dropped connection
+// only costs the part in flight and the upload can resume later
+const CHUNK_SIZE = 5 * 1024 * 1024
+// Attempts per request; network failures are retried with backoff from 1s
+const MAX_REQUEST_ATTEMPTS = 3
+const BASE_RETRY_DELAY = 1000
+// Parts of an unfinished upload are kept this long for resuming
+const RESUME_TTL = 24 * 60 * 60 * 1000
+const RESUMABLE_UPLOADS_KEY = '@app/uploads/resumable'
+// SelfDB function that joins uploaded parts into one stored file
+const ASSEMBLE_FUNCTION = 'assemble-upload'
+
+export type UploadProgressHandler = (sentBytes: number, totalBytes: number) => void
+
+/**
+ * A running upload. `promise` resolves with the stored file id, or rejects
+ * with a CanceledError once `cancel` is called.
+ */
+export interface UploadHandle {
+  promise: Promise<string>
+  cancel: () => void
+}
+
+/**
+ * Parts already stored for a file, persisted so a failed or interrupted
+ * upload continues where it stopped
+ */
+interface ResumableUpload {
+  key: string // `${uri}:${size}`
+  chunkSize: number
+  partIds: string[] // Stored part ids by part index
+  startedAt: number
+}
+
+function throwIfCanceled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new CanceledError('Upload canceled')
+  }
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new CanceledError('Upload canceled'))
+    }
+    signal.addEventListener('abort', onAbort)
+  })
+}
+
+/**
+ * Settle with the request, or reject as soon as the upload is canceled.
+ * A request can't be stopped once sent, so a file it stores after the
+ * cancel is deleted again.
+ */
+function unlessCanceled(request: Promise<string>, signal: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      request.then(fileId => deleteStoredFile(fileId, 'canceled upload'), () => {})
+      reject(new CanceledError('Upload canceled'))
+      return
+    }
+    const onAbort = () => {
+      request.then(fileId => deleteStoredFile(fileId, 'canceled upload'), () => {})
+      reject(new CanceledError('Upload canceled'))
+    }
+    signal.addEventListener('abort', onAbort)
+    request.then(
+      fileId => {
+        signal.removeEventListener('abort', onAbort)
+        resolve(fileId)
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort)
+        reject(error)
+      }
+    )
+  })
+}
+
+/**
+ * Send one request, retrying network failures with backoff
+ */
+async function withRetries(request: () => Promise<string>, signal: AbortSignal): Promise<string> {
+  for (let attempt = 1; ; attempt++) {
+    throwIfCanceled(signal)
+    try {
+      return await unlessCanceled(request(), signal)
+    } catch (error) {
+      if (!(error instanceof NetworkError) || attempt >= MAX_REQUEST_ATTEMPTS) throw error
+      await wait(BASE_RETRY_DELAY * 2 ** (attempt - 1), signal)
+    }
+  }
+}
+
+/**
+ * Join stored parts into one file; the function deletes the parts. Not
+ * retried: once a join succeeded its parts are gone, so a repeat whose
+ * answer was lost can only fail.
+ *
+ * @throws NotFoundError when the function isn't deployed
+ * @throws ForbiddenError when a part wasn't uploaded by the signed-in user,
+ *   or is gone
+ */
+async function assembleParts(partIds: string[], fileName: string, contentType: string): Promise<string> {
+  let result: unknown
+  try {
+    result = await functions.invoke(ASSEMBLE_FUNCTION, {
+      bucket: DISCUSSION_BUCKET,
+      part_ids: partIds,
+      filename: fileName,
+      content_type: contentType,
+    })
+  } catch (error) {
+    throw toDataAccessError(error, 'assemble uploaded parts')
+  }
+
+  return parseAssembledFileId(result)
+}
+
+/**
+ * Uploads of picked files to the discussion bucket, with byte progress,
+ * cancellation and retries. Large files are sent in parts and resume from
+ * the last stored part, even after the app restarts.
+ */
+export class UploadManager {
+  // Set once the assemble function turns out to be missing; uploads then
+  // go out in a single request
+  private static partsUnsupported = false
+  private static resumable: Promise<Record<string, ResumableUpload>> | null = null
+
+  /**
+   * Start uploading a local file
+   *
+   * @param onProgress Called with the bytes sent so far
+   */
+  static upload(uri: string, onProgress?: UploadProgressHandler): UploadHandle {
+    const controller = new AbortController()
+    return {
+      promise: this.transfer(uri, controller.signal, onProgress),
+      cancel: () => controller.abort(),
+    }
+  }
+
+  /**
+   * Upload the local files of an attachment list, in order
+   *
+   * @returns The stored ids of the whole list, and the ids uploaded by this call
+   * @throws The upload error, after deleting the files uploaded before it
+   */
+  static async uploadAttachments(
+    attachments: PendingAttachment[]
+  ): Promise<{ fileIds: string[]; uploadedFileIds: string[] }> {
+    const fileIds: string[] = []
+    const uploadedFileIds: string[] = []
+
+    try {
+      for (const attachment of attachments) {
+        if (isLocalAttachment(attachment)) {
+          const fileId = await this.upload(attachment.local_uri).promise
+          uploadedFileIds.push(fileId)
+          fileIds.push(fileId)
+        } else {
+          fileIds.push(attachment.file_id)
+        }
+      }
+    } catch (error) {
+      // The whole list is uploaded again on retry
+      await deleteStoredFiles(uploadedFileIds, 'partially uploaded attachment')
+      throw error
+    }
+
+    return { fileIds, uploadedFileIds }
+  }
+
+  private static async transfer(
+    uri: string,
+    signal: AbortSignal,
+    onProgress?: UploadProgressHandler
+  ): Promise<string> {
+    const blob = await readLocalFile(uri)
+    throwIfCanceled(signal)
+    // Files queued before a limit changed, or whose size the picker didn't report
+    checkFileSize(localFileName(uri), blob.type ? mediaTypeOfMime(blob.type) : undefined, blob.size)
+    onProgress?.(0, blob.size)
+
+    const fileId = blob.size > CHUNK_SIZE && !this.partsUnsupported
+      ? await this.transferInParts(uri, blob, signal, onProgress)
+      : await withRetries(
+        () => uploadBlob(blob, localFileName(uri), undefined, DISCUSSION_BUCKET, sent => onProgress?.(sent, blob.size)),
+        signal
+      )
+
+    onProgress?.(blob.size, blob.size)
+    return fileId
+  }
+
+  private static async transferInParts(
+    uri: string,
+    blob: Blob,
+    signal: AbortSignal,
+    onProgress?: UploadProgressHandler
+  ): Promise<string> {
+    const fileName = localFileName(uri)
+    const upload = await this.resumableUpload(`${uri}:${blob.size}`)
+    const partCount = Math.ceil(blob.size / upload.chunkSize)
+
+    try {
+      for (let index = 0; index < partCount; index++) {
+        const start = index * upload.chunkSize
+        const end = Math.min(start + upload.chunkSize, blob.size)
+        if (!upload.partIds[index]) {
+          const part = blob.slice(start, end)
+          upload.partIds[index] = await withRetries(
+            () => uploadBlob(
+              part,
+              `${fileName}.part${index}`,
+              'application/octet-stream',
+              DISCUSSION_BUCKET,
+              sent => onProgress?.(start + sent, blob.size)
+            ),
+            signal
+          )
+          await this.saveResumable(upload)
+        }
+        onProgress?.(end, blob.size)
+      }
+
+      throwIfCanceled(signal)
+      let fileId: string
+      try {
+        fileId = await unlessCanceled(
+          assembleParts(upload.partIds, fileName, blob.type || 'application/octet-stream'),
+          signal
+        )
+      } catch (error) {
+        // The parts are gone, most likely joined by an attempt whose answer
+        // was lost; the next attempt starts over
+        if (error instanceof ForbiddenError) await this.forgetResumable(upload.key)
+        throw error
+      }
+      await this.forgetResumable(upload.key)
+      return fileId
+    } catch (error) {
+      if (error instanceof NotFoundError && upload.partIds.length === partCount) {
+        console.warn(`"${ASSEMBLE_FUNCTION}" function not available, uploading in one request:`, error)
+        this.partsUnsupported = true
+        await this.discardResumable(upload)
+        onProgress?.(0, blob.size)
+        return withRetries(
+          () => uploadBlob(blob, fileName, undefined, DISCUSSION_BUCKET, sent => onProgress?.(sent, blob.size)),
+          signal
+        )
+      }
+      // Canceled uploads don't resume; anything else keeps its parts
+      if (error instanceof CanceledError) {
+        await this.discardResumable(upload)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * The stored state of an upload, or a fresh one. Expired uploads are
+   * dropped along with their parts.
+   */
+  private static async resumableUpload(key: string): Promise<ResumableUpload> {
+    const uploads = await this.loadResumable()
+    const now = Date.now()
+
+    for (const upload of Object.values(uploads)) {
+      if (now - upload.startedAt > RESUME_TTL) {
+        await this.discardResumable(upload)
+      }
+    }
+
+    return uploads[key] ?? { key, chunkSize: CHUNK_SIZE, partIds: [], startedAt: now }
+  }
+
+  private static loadResumable(): Promise<Record<string, ResumableUpload>> {
+    if (!this.resumable) {
+      this.resumable = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(RESUMABLE_UPLOADS_KEY)
+          return stored ? JSON.parse(stored) : {}
+        } catch (error) {
+          console.warn('Failed to load resumable uploads:', error)
+          return {}
+        }
+      })()
+    }
+    return this.resumable
+  }
+
+  private static async saveResumable(upload: ResumableUpload): Promise<void> {
+    const uploads = await this.loadResumable()
+    uploads[upload.key] = upload
+    await this.persistResumable(uploads)
+  }
+
+  private static async forgetResumable(key: string): Promise<void> {
+    const uploads = await this.loadResumable()
+    delete uploads[key]
+    await this.persistResumable(uploads)
+  }
+
+  /**
+   * Forget an upload and delete the parts it stored
+   */
+  private static async discardResumable(upload: ResumableUpload): Promise<void> {
+    await this.forgetResumable(upload.key)
+    await deleteStoredFiles(upload.partIds.filter(Boolean), 'upload part')
+  }
+
+  private static async persistResumable(uploads: Record<string, ResumableUpload>): Promise<void> {
+    try {
+      await AsyncStorage.setItem(RESUMABLE_UPLOADS_KEY, JSON.stringify(uploads))
+    } catch (error) {
+      console.warn('Failed to persist resumable uploads:', error)
+    }
+  }
+}
@@ -0,0 +1,250 @@
+import {
+  AttachmentType,
+  Comment,
+  Profile,
+  ReactionCounts,
+  Revision,
+  Tag,
+  Topic,
+  TopicDeletionSummary,
+  TopicTagLink,
+} from '@/types'
+import { ValidationError } from './errors'
+
+// Runtime validation of rows returned by SelfDB. The SDK returns untyped
+// records, so every row is checked and normalized here before it reaches
+// the UI (ids as strings, null file ids as undefined).
+
+type Row = Record<string, unknown>
+
+function asRow(value: unknown, entity: string): Row {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError(`Invalid ${entity} record: expected an object`)
+  }
+  return value as Row
+}
+
+function requireId(row: Row, field: string, entity: string): string {
+  const value = row[field]
+  if (typeof value === 'string' && value.length > 0) return value
+  if (typeof value === 'number') return value.toString()
+  throw new ValidationError(`Invalid ${entity} record: missing "${field}"`)
+}
+
+function requireString(row: Row, field: string, entity: string): string {
+  const value = row[field]
+  if (typeof value !== 'string') {
+    throw new ValidationError(`Invalid ${entity} record: "${field}" must be a string`)
+  }
+  return value
+}
+
+function optionalId(row: Row, field: string): string | undefined {
+  const value = row[field]
+  if (typeof value === 'string' && value.length > 0) return value
+  if (typeof value === 'number') return value.toString()
+  return undefined
+}
+
+function optionalString(row: Row, field: string): string | undefined {
+  const value = row[field]
+  return typeof value === 'string' && value.length > 0 ? value : undefined
+}
+
+const ATTACHMENT_TYPES: AttachmentType[] = ['none', 'image', 'video', 'audio', 'pdf', 'other']
+
+function optionalAttachmentType(row: Row, field: string): AttachmentType | undefined {
+  const value = row[field]
+  return ATTACHMENT_TYPES.find(type => type === value)
+}
+
+function optionalIdList(row: Row, field: string): string[] | undefined {
+  const value = row[field]
+  if (!Array.isArray(value)) return undefined
+  return value
+    .map(item => (typeof item === 'number' ? item.toString() : item))
+    .filter((item): item is string => typeof item === 'string' && item.length > 0)
+}
+
+/**
+ * Ordered attachment ids; rows written before file_ids existed only have
+ * their single file_id
+ */
+function attachmentIds(row: Row): string[] {
+  const ids = optionalIdList(row, 'file_ids')
+  if (ids && ids.length > 0) return ids
+  const fileId = optionalId(row, 'file_id')
+  return fileId ? [fileId] : []
+}
+
+function optionalNumber(row: Row, field: string): number | undefined {
+  const value = row[field]
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value)
+  }
+  return undefined
+}
+
+/**
+ * Reaction counts by emoji, keeping only positive whole counts
+ */
+function optionalReactionCounts(row: Row, field: string): ReactionCounts | undefined {
+  const value = row[field]
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined
+  const counts: ReactionCounts = {}
+  for (const [emoji, count] of Object.entries(value)) {
+    const number = typeof count === 'string' ? Number(count) : count
+    if (typeof number === 'number' && Number.isInteger(number) && number > 0) {
+      counts[emoji] = number
+    }
+  }
+  return counts
+}
+
+/**
+ * Validate and normalize a raw topics row
+ */
+export function parseTopic(value: unknown): Topic {
+  const row = asRow(value, 'topic')
+  return {
+    id: requireId(row, 'id', 'topic'),
+    title: requireString(row, 'title', 'topic'),
+    content: requireString(row, 'content', 'topic'),
+    author_name: requireString(row, 'author_name', 'topic'),
+    user_id: optionalId(row, 'user_id'),
+    file_id: optionalId(row, 'file_id'),
+    file_ids: attachmentIds(row),
+    comment_count: optionalNumber(row, 'comment_count'),
+    last_activity_at: optionalString(row, 'last_activity_at'),
+    media_type: optionalAttachmentType(row, 'media_type'),
+    tag_ids: optionalIdList(row, 'tag_ids'),
+    reaction_counts: optionalReactionCounts(row, 'reaction_counts'),
+    upvote_count: optionalNumber(row, 'upvote_count'),
+    created_at: requireString(row, 'created_at', 'topic'),
+    updated_at: requireString(row, 'updated_at', 'topic'),
+    edited_at: optionalString(row, 'edited_at'),
+    edited_by: optionalId(row, 'edited_by'),
+    deleted_at: optionalString(row, 'deleted_at'),
+  }
+}
+
+/**
+ * Validate and normalize a raw comments row
+ */
+export function parseComment(value: unknown): Comment {
+  const row = asRow(value, 'comment')
+  return {
+    id: requireId(row, 'id', 'comment'),
+    topic_id: requireId(row, 'topic_id', 'comment'),
+    parent_id: optionalId(row, 'parent_id'),
+    content: requireString(row, 'content', 'comment'),
+    author_name: requireString(row, 'author_name', 'comment'),
+    user_id: optionalId(row, 'user_id'),
+    file_id: optionalId(row, 'file_id'),
+    file_ids: attachmentIds(row),
+    reply_count: optionalNumber(row, 'reply_count'),
+    reaction_counts: optionalReactionCounts(row, 'reaction_counts'),
+    created_at: requireString(row, 'created_at', 'comment'),
+    updated_at: requireString(row, 'updated_at', 'comment'),
+    edited_at: optionalString(row, 'edited_at'),
+    edited_by: optionalId(row, 'edited_by'),
+    deleted_at: optionalString(row, 'deleted_at'),
+  }
+}
+
+/**
+ * Validate and normalize a raw tags row
+ */
+export function parseTag(value: unknown): Tag {
+  const row = asRow(value, 'tag')
+  return {
+    id: requireId(row, 'id', 'tag'),
+    name: requireString(row, 'name', 'tag'),
+    created_at: requireString(row, 'created_at', 'tag'),
+  }
+}
+
+/**
+ * Validate and normalize a raw topic_tags row
+ */
+export function parseTopicTagLink(value: unknown): TopicTagLink {
+  const row = asRow(value, 'topic tag')
+  return {
+    topic_id: requireId(row, 'topic_id', 'topic tag'),
+    tag_id: requireId(row, 'tag_id', 'topic tag'),
+  }
+}
+
+/**
+ * Validate and normalize a raw topic_revisions or comment_revisions row
+ */
+export function parseRevision(value: unknown): Revision {
+  const row = asRow(value, 'revision')
+  return {
+    id: requireId(row, 'id', 'revision'),
+    title: optionalString(row, 'title'),
+    content: requireString(row, 'content', 'revision'),
+    file_ids: optionalIdList(row, 'file_ids') ?? [],
+    editor_id: optionalId(row, 'editor_id'),
+    created_at: requireString(row, 'created_at', 'revision'),
+  }
+}
+
+export function parseProfile(value: unknown): Profile {
+  const row = asRow(value, 'profile')
+  return {
+    user_id: requireId(row, 'user_id', 'profile'),
+    display_name: requireString(row, 'display_name', 'profile'),
+    avatar_file_id: optionalId(row, 'avatar_file_id'),
+    bio: optionalString(row, 'bio'),
+    created_at: requireString(row, 'created_at', 'profile'),
+    updated_at: requireString(row, 'updated_at', 'profile'),
+  }
+}
+
+/**
+ * Validate and normalize the summary returned by the delete-topic function,
+ * which may come wrapped in `data`
+ *
+ * @returns null when the function reports that the topic doesn't exist
+ */
+export function parseTopicDeletionSummary(value: unknown, topicId: string): TopicDeletionSummary | null {
+  const response = asRow(value, 'topic deletion summary')
+  const row = response.data !== undefined ? asRow(response.data, 'topic deletion summary') : response
+  if (row.found === false) return null
+  return {
+    topic_id: optionalId(row, 'topic_id') ?? topicId,
+    comments_deleted: optionalNumber(row, 'comments_deleted') ?? 0,
+    files_deleted: optionalNumber(row, 'files_deleted') ?? 0,
+    failed_file_ids: optionalIdList(row, 'failed_file_ids') ?? [],
+  }
+}
+
+/**
+ * The id of the file the assemble-upload function stored, from a result
+ * that may come wrapped in `data`
+ */
+export function parseAssembledFileId(value: unknown): string {
+  const response = asRow(value, 'assembled upload')
+  const row = response.data !== undefined ? asRow(response.data, 'assembled upload') : response
+  return requireId(row, 'file_id', 'assembled upload')
+}
+
+/**
+ * The id of the file the storage service stored, from an upload response
+ */
+export function parseUploadedFileId(value: unknown): string {
+  const response = asRow(value, 'uploaded file')
+  return requireId(asRow(response.file, 'uploaded file'), 'id', 'uploaded file')
+}
+
+/**
+ * Validate a list result, rejecting anything that is not an array
+ */
+export function parseList<T>(value: unknown, parse: (row: unknown) => T, entity: string): T[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError(`Invalid ${entity} list: expected an array`)
+  }
+  return value.map(parse)
+}
@@ -6,28 +6,239 @@ export type { FileMetadata }
 // Application-specific types
 export type MediaType = 'image' | 'video' | 'audio' | 'pdf' | 'other'
 
+// Kind of a topic's attachment, stored so the feed can filter on it
+export type AttachmentType = MediaType | 'none'
+
+// Client-only sync state of a row written while offline; never sent to the server
+export type SyncStatus = 'pending' | 'failed'
+
+// Attachment as edited in a composer or held in a queued write: either
+// already stored, or a picked local file that still has to be uploaded
+export type PendingAttachment = { file_id: string } | { local_uri: string }
+
 export interface Topic {
   id: string
   title: string
   content: string
   author_name: string // For anonymous users
   user_id?: string // For authenticated users (matches SDK User.id type)
-  file_id?: string // For media attachments (FilePreview expects string)
+  file_id?: string // First attachment, kept for clients that predate file_ids
+  file_ids?: string[] // Attachments in display order
   comments?: Comment[] // Array of comments
   comment_count?: number // Count of comments for display
+  last_activity_at?: string // Latest of created_at and the newest comment, maintained by a trigger
+  media_type?: AttachmentType // Kind of the first attachment
+  tag_ids?: string[] // Mirrors the topic_tags rows, maintained by a trigger
+  reaction_counts?: ReactionCounts // Maintained by the reactions trigger
+  upvote_count?: number // Upvote reactions, for the 'top' sort
   created_at: string
   updated_at: string
+  edited_at?: string // Last change to the title, content or attachments, set by the revisions trigger
+  edited_by?: string // Who made that change, taken from their session by the revisions trigger
+  deleted_at?: string // Set while the topic is in the recently deleted list
+  sync_status?: SyncStatus // Set while the row waits in the outbox
+  pending_attachments?: PendingAttachment[] // Attachments of a queued write, some not uploaded yet
+}
+
+// Number of reactions per emoji
+export type ReactionCounts = Record<string, number>
+
+export type ReactionTargetType = 'topic' | 'comment'
+
+
+// Label shared by many topics; created, renamed and merged by admins
+export interface Tag {
+  id: string
+  name: string
+  created_at: string
+}
+
+// Row of the topic_tags join table
+export interface TopicTagLink {
+  topic_id: string
+  tag_id: string
 }
 
 export interface Comment {
   id: string
   topic_id: string
+  parent_id?: string // Comment this one replies to; absent for top-level comments
   content: string
   author_name: string // For anonymous users
   user_id?: string // For authenticated users (matches SDK User.id type)
-  file_id?: string // For media attachments (FilePreview expects string)
+  file_id?: string // First attachment, kept for clients that predate file_ids
+  file_ids?: string[] // Attachments in display order
+  reply_count?: number // Direct replies, maintained by a database trigger
+  reaction_counts?: ReactionCounts // Maintained by the reactions trigger
   created_at: string
   updated_at: string
+  edited_at?: string // Last change to the content or attachments, set by the revisions trigger
+  edited_by?: string // Who made that change, taken from their session by the revisions trigger
+  deleted_at?: string // Set while the comment is in the recently deleted list
+  sync_status?: SyncStatus // Set while the row waits in the outbox
+  pending_attachments?: PendingAttachment[] // Attachments of a queued write, some not uploaded yet
+}
+
+// Keyset pagination over (sort column, id); `value` is the sort column of
+// the last topic loaded (created_at, last_activity_at or comment_count)
+export interface TopicCursor {
+  value: string | number
+  id: string
+}
+
+// Feed ordering; 'top' orders by upvotes, 'mine' lists the signed-in
+// user's topics, newest first
+export type TopicSort = 'newest' | 'active' | 'most_commented' | 'top' | 'mine'
+
+export interface TopicFilters {
+  hasAttachment: boolean
+  mediaType: MediaType | null // Implies hasAttachment
+  tagId: string | null
+}
+
+export interface FeedOptions {
+  sort: TopicSort
+  filters: TopicFilters
+}
+
+export interface TopicPage {
+  topics: Topic[]
+  nextCursor: TopicCursor | null
+}
+
+export interface CommentCursor {
+  created_at: string
+  id: string
+}
+
+// Comments in ascending order; `hasMore` tells whether further comments
+// exist beyond this page in the requested direction
+export interface CommentPage {
+  comments: Comment[]
+  hasMore: boolean
+}
+
+// Full-text search over topics and comments, newest first
+export type SearchResultKind = 'topic' | 'comment'
+
+export interface SearchResult {
+  key: string // `${kind}:${id}`, unique across both kinds
+  kind: SearchResultKind
+  topic_id: string
+  comment_id?: string // Set for comment hits
+  title: string // Topic title; for comment hits, the title of their topic
+  content: string
+  author_name: string
+  user_id?: string
+  created_at: string
+}
+
+// Keyset cursor over (created_at, key) of the last result shown
+export interface SearchCursor {
+  created_at: string
+  id: string
+}
+
+export interface SearchPage {
+  results: SearchResult[]
+  nextCursor: SearchCursor | null
+}
+
+// Earlier version of a topic or comment, saved by a trigger when an edit
+// replaced it
+export interface Revision {
+  id: string
+  title?: string // Topics only
+  content: string
+  file_ids: string[]
+  editor_id?: string // Who made the edit that replaced this version
+  created_at: string // When this version was replaced
+}
+
+// Public profile of a signed-in user, shown on their posts instead of
+// their email
+export interface Profile {
+  user_id: string
+  display_name: string
+  avatar_file_id?: string // In the avatars bucket
+  bio?: string
+  created_at: string
+  updated_at: string
+}
+
+// Outcome of deleting a topic together with its comments and files
+export interface TopicDeletionSummary {
+  topic_id: string
+  comments_deleted: number
+  files_deleted: number
+  failed_file_ids: string[] // Left in storage; removed later by the file cleanup
+}
+
+// Step of a topic deletion, for showing progress
+export interface TopicDeletionProgress {
+  stage: 'collecting' | 'deleting' | 'files'
+  done: number
+  total: number
+}
+
+// Repository input types
+export interface NewTopic {
+  id?: string // Client-generated so offline rows keep their id once synced
+  title: string
+  content: string
+  author_name: string
+  user_id?: string
+  file_id?: string | null
+  file_ids?: string[]
+  media_type?: AttachmentType
+}
+
+export interface TopicChanges {
+  title?: string
+  content?: string
+  file_id?: string | null
+  file_ids?: string[]
+  media_type?: AttachmentType
+}
+
+export interface NewComment {
+  id?: string // Client-generated so offline rows keep their id once synced
+  topic_id: string
+  parent_id?: string
+  content: string
+  author_name: string
+  user_id?: string
+  file_id?: string | null
+  file_ids?: string[]
+}
+
+export interface CommentChanges {
+  content?: string
+  file_id?: string | null
+  file_ids?: string[]
+}
+
+export interface ProfileChanges {
+  display_name?: string
+  avatar_file_id?: string | null
+  bio?: string | null
+}
+
+// Unsent contents of a topic or comment composer, kept across restarts
+// and forced sign-outs
+export interface ComposerDraft {
+  title?: string
+  content: string
+  author_name?: string
+  attachments: PendingAttachment[]
+  tag_ids?: string[]
+}
+
+// Tokens of a signed-in session, persisted so it survives restarts.
+// Never the password.
+export interface SessionTokens {
+  access_token: string
+  refresh_token: string
 }
 
 // Auth context types
@@ -37,5 +248,9 @@ export interface AuthContextType {
   login: (email: string, password: string) => Promise<void>
   register: (email: string, password: string) => Promise<void>
   logout: () => Promise<void>
+  refreshUser: () => Promise<void>
   loading: boolean
+  // The session ended because it couldn't be refreshed; cleared on sign-in
+  sessionExpired: boolean
+  dismissSessionExpired: () => void
 }